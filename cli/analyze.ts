@@ -0,0 +1,199 @@
+// MacFry batch analyzer — runs the CV engine over a folder of sample photos.
+//
+//   npm run analyze -- <image-dir> [options]
+//
+// Writes <image file>.json per image (a.jpg → a.jpg.json, so a.jpg and a.png
+// never share one) plus batch_report.csv (generateCSVReport format) to the
+// output directory. Captures blocked by the image quality gate get their
+// JSON but stay out of the CSV, like the UI's batch log. Exit code: 0 all
+// graded, 1 at least one REJECT, 2 usage error or an image that could not be
+// analyzed or was blocked.
+
+import { readFileSync, readdirSync, mkdirSync, writeFileSync } from 'node:fs';
+import { extname, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+import { analyzePixels, type RgbaRaster } from '../src/lib/colorAnalysis';
+import { createBatchRecord } from '../src/lib/batchRecord';
+import { generateCSVReport, type BatchRecord } from '../src/lib/pqiEngine';
+import { DEFAULT_CALIBRATION, type CalibrationData } from '../src/lib/calibration';
+import { DEFAULT_SPEC_PROFILE, formatSpecProfile, parseSpecProfile, type SpecProfile } from '../src/lib/specProfiles';
+import type { AgtronModel } from '../src/lib/agtronCalibration';
+import { BACKGROUND_METHODS, DEFAULT_BACKGROUND_MODEL, type BackgroundModelOptions } from '../src/lib/backgroundModel';
+
+const USAGE = `Usage: npm run analyze -- <image-dir> [options]
+
+Options:
+  -o, --out <dir>            Output directory (default: <image-dir>/analysis)
+      --ppm <n>              Pixels per mm of the analyzed image (default: ${DEFAULT_CALIBRATION.ppm})
+      --calibration <file>   CalibrationData JSON; its ppm is used unless --ppm is given
+      --profile <file>       SpecProfile JSON (default: ${formatSpecProfile(DEFAULT_SPEC_PROFILE)})
+      --agtron-model <file>  Fitted AgtronModel JSON for the station
+      --color-checker <mode> auto | off (default: auto)
+      --background <method>  kmeans | otsu | chroma_key (default: kmeans)
+      --key-color <#rrggbb>  Tray colour for --background chroma_key (default: #f5f5f5)
+      --max-size <px>        Downscale so the long side is at most this, like the UI (default: 800, 0 = full)
+  -h, --help                 Show this help`;
+
+const EXIT_OK = 0;
+const EXIT_REJECT = 1;
+const EXIT_ERROR = 2;
+
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg']);
+
+function fail(message: string): never {
+  console.error(`error: ${message}\n\n${USAGE}`);
+  process.exit(EXIT_ERROR);
+}
+
+function readJson<T>(file: string): T {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8')) as T;
+  } catch (err) {
+    fail(`cannot read ${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function decodeImage(file: string): RgbaRaster {
+  const buffer = readFileSync(file);
+  if (extname(file).toLowerCase() === '.png') {
+    const png = PNG.sync.read(buffer);
+    return { data: png.data, width: png.width, height: png.height };
+  }
+  const jpg = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true });
+  return { data: jpg.data, width: jpg.width, height: jpg.height };
+}
+
+/** Area-average downscale so the long side is at most `maxSize` */
+function downscale(raster: RgbaRaster, maxSize: number): RgbaRaster {
+  const scale = maxSize > 0 ? Math.min(1, maxSize / Math.max(raster.width, raster.height)) : 1;
+  if (scale === 1) return raster;
+  const width = Math.max(1, Math.round(raster.width * scale));
+  const height = Math.max(1, Math.round(raster.height * scale));
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sy0 = Math.floor(y / scale), sy1 = Math.min(raster.height, Math.max(sy0 + 1, Math.floor((y + 1) / scale)));
+    for (let x = 0; x < width; x++) {
+      const sx0 = Math.floor(x / scale), sx1 = Math.min(raster.width, Math.max(sx0 + 1, Math.floor((x + 1) / scale)));
+      const sum = [0, 0, 0, 0];
+      for (let sy = sy0; sy < sy1; sy++) {
+        for (let sx = sx0; sx < sx1; sx++) {
+          const i = (sy * raster.width + sx) * 4;
+          sum[0] += raster.data[i]; sum[1] += raster.data[i + 1]; sum[2] += raster.data[i + 2]; sum[3] += raster.data[i + 3];
+        }
+      }
+      const n = (sy1 - sy0) * (sx1 - sx0);
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) out[o + c] = sum[c] / n;
+    }
+  }
+  return { data: out, width, height };
+}
+
+// Typed arrays (strip masks) would serialise as huge index maps — leave them out
+const omitPixelBuffers = (_key: string, value: unknown) => (ArrayBuffer.isView(value) ? undefined : value);
+
+function main(): number {
+  let parsed: ReturnType<typeof parseOptions>;
+  try {
+    parsed = parseOptions();
+  } catch (err) {
+    fail(err instanceof Error ? err.message : String(err));
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  if (positionals.length !== 1) fail('expected exactly one image directory');
+
+  const inputDir = resolve(positionals[0]);
+  const outDir = resolve(values.out ?? join(inputDir, 'analysis'));
+  const calibration = values.calibration ? readJson<CalibrationData>(values.calibration) : DEFAULT_CALIBRATION;
+  const ppm = values.ppm !== undefined ? Number(values.ppm) : calibration.ppm;
+  if (!(ppm > 0)) fail(`invalid ppm: ${values.ppm ?? calibration.ppm}`);
+  let profile: SpecProfile = DEFAULT_SPEC_PROFILE;
+  if (values.profile) {
+    try {
+      profile = parseSpecProfile(readJson<unknown>(values.profile));
+    } catch (err) {
+      fail(`invalid --profile ${values.profile}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  const agtronModel = values['agtron-model'] ? readJson<AgtronModel>(values['agtron-model']) : null;
+  const colorChecker = values['color-checker'] ?? 'auto';
+  if (colorChecker !== 'auto' && colorChecker !== 'off') fail(`invalid --color-checker: ${colorChecker}`);
+  const method = values.background ?? DEFAULT_BACKGROUND_MODEL.method;
+  if (!BACKGROUND_METHODS.some(m => m.method === method)) fail(`invalid --background: ${method}`);
+  const background: BackgroundModelOptions = { ...DEFAULT_BACKGROUND_MODEL, method: method as BackgroundModelOptions['method'] };
+  if (values['key-color'] !== undefined) {
+    const hex = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(values['key-color']);
+    if (!hex) fail(`invalid --key-color: ${values['key-color']}`);
+    background.keyColor = { r: parseInt(hex[1], 16), g: parseInt(hex[2], 16), b: parseInt(hex[3], 16) };
+  }
+  const maxSize = Number(values['max-size'] ?? 800);
+  if (!(maxSize >= 0)) fail(`invalid --max-size: ${values['max-size']}`);
+
+  let files: string[];
+  try {
+    files = readdirSync(inputDir)
+      .filter(f => IMAGE_EXTENSIONS.has(extname(f).toLowerCase()))
+      .sort();
+  } catch (err) {
+    fail(`cannot read ${inputDir}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (files.length === 0) fail(`no PNG/JPEG images in ${inputDir}`);
+  mkdirSync(outDir, { recursive: true });
+
+  console.log(`Analyzing ${files.length} image(s) · ${ppm.toFixed(2)} px/mm · spec ${formatSpecProfile(profile)}`);
+  const records: BatchRecord[] = [];
+  let errors = 0, blocked = 0;
+  for (const file of files) {
+    try {
+      const raster = downscale(decodeImage(join(inputDir, file)), maxSize);
+      const result = analyzePixels(raster, ppm, { profile, agtronModel, colorChecker, background });
+      writeFileSync(join(outDir, `${file}.json`), JSON.stringify({ image: file, ...result }, omitPixelBuffers, 2));
+      if (result.quality.level === 'blocking') {
+        blocked++;
+        const issues = result.quality.checks.filter(c => c.level === 'blocking').map(c => `${c.label}: ${c.message}`);
+        console.error(`  BLOCK  ${file}: ${issues.join('; ')}`);
+        continue;
+      }
+      const record = createBatchRecord(result, file);
+      records.push(record);
+      console.log(`  ${record.disposition.padEnd(6)} PQI ${String(result.pqi).padStart(3)}%  ${file}`);
+    } catch (err) {
+      errors++;
+      console.error(`  ERROR  ${file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  const csvPath = join(outDir, 'batch_report.csv');
+  writeFileSync(csvPath, generateCSVReport(records));
+  const rejects = records.filter(r => r.disposition === 'REJECT').length;
+  console.log(`Wrote ${records.length} result(s) and ${csvPath} — ${rejects} reject(s), ${blocked} blocked, ${errors} error(s)`);
+
+  if (errors > 0 || blocked > 0) return EXIT_ERROR;
+  return rejects > 0 ? EXIT_REJECT : EXIT_OK;
+}
+
+function parseOptions() {
+  return parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      ppm: { type: 'string' },
+      calibration: { type: 'string' },
+      profile: { type: 'string' },
+      'agtron-model': { type: 'string' },
+      'color-checker': { type: 'string' },
+      background: { type: 'string' },
+      'key-color': { type: 'string' },
+      'max-size': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
+
+process.exit(main());
@@ -0,0 +1,225 @@
+import React, { useRef, useState } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Gauge, Plus, Trash2, Upload, Loader2 } from 'lucide-react';
+import type { AnalysisResult } from '@/lib/colorAnalysis';
+import { analyzeImageInWorker } from '@/lib/analysisWorker';
+import { loadImageFile } from '@/lib/imageFile';
+import {
+  extractAgtronFeatures, fitAgtronModel,
+  type AgtronModel, type AgtronResidual, type AgtronSample,
+} from '@/lib/agtronCalibration';
+import type { BackgroundModelOptions } from '@/lib/backgroundModel';
+import type { SpecProfile } from '@/lib/specProfiles';
+
+interface AgtronCalibrationPanelProps {
+  station: string;
+  onStationChange: (station: string) => void;
+  samples: AgtronSample[];                       // all stations
+  onSamplesChange: (samples: AgtronSample[]) => void;
+  model: AgtronModel | null;                     // loaded model for `station`
+  onModelChange: (station: string, model: AgtronModel | null) => void;
+  currentResult: AnalysisResult | null;
+  currentImageName: string;
+  profile: SpecProfile;
+  ppm: number;
+  background: BackgroundModelOptions;
+}
+
+const inputClass = 'w-full rounded border border-border bg-input px-2 py-1.5 text-sm font-mono-custom text-foreground focus:border-primary outline-none';
+
+const fitColor = (r2: number) => r2 >= 0.9 ? 'hsl(142 70% 45%)' : r2 >= 0.7 ? 'hsl(42 95% 52%)' : 'hsl(0 75% 55%)';
+
+const ResidualTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: AgtronResidual }[] }) => {
+  if (active && payload && payload.length) {
+    const r = payload[0].payload;
+    return (
+      <div className="industrial-card px-3 py-2 text-xs">
+        <p className="font-display font-semibold text-gold">Meter {r.measured.toFixed(1)}</p>
+        <p className="text-foreground">Predicted {r.predicted.toFixed(1)} · residual {r.residual.toFixed(2)}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+export function AgtronCalibrationPanel({
+  station, onStationChange, samples, onSamplesChange, model, onModelChange,
+  currentResult, currentImageName, profile, ppm, background,
+}: AgtronCalibrationPanelProps) {
+  const [measured, setMeasured] = useState(60);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const stationSamples = samples.filter(s => s.station === station);
+  const stations = Array.from(new Set(samples.map(s => s.station)));
+
+  const addSample = (imageName: string, result: AnalysisResult) => {
+    const { meanR, meanG, meanB } = result.pixelStats;
+    onSamplesChange([...samples, {
+      id: `${Date.now()}-${samples.length}`,
+      station, imageName, measuredAgtron: measured,
+      features: extractAgtronFeatures(meanR, meanG, meanB),
+    }]);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const { imageData } = await loadImageFile(file);
+      // Features come from the same colour-corrected pipeline; the Agtron model itself is not applied
+      const { result } = await analyzeImageInWorker(imageData, ppm, { profile, background });
+      addSample(file.name, result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleFit = () => {
+    const fitted = fitAgtronModel(stationSamples, station);
+    if (!fitted) { setError('Need at least 3 samples with distinct colour to fit'); return; }
+    setError(null);
+    onModelChange(station, fitted);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2">
+        <Gauge className="w-4 h-4 text-gold" />
+        <h3 className="font-display text-sm font-semibold tracking-wider">AGTRON CALIBRATION</h3>
+        <div
+          className="ml-auto text-xs px-2 py-0.5 rounded font-display font-semibold"
+          style={{
+            color: model ? 'hsl(142 70% 55%)' : 'hsl(42 95% 60%)',
+            background: model ? 'hsl(142 70% 45% / 0.15)' : 'hsl(42 95% 52% / 0.15)',
+            border: model ? '1px solid hsl(142 70% 45% / 0.3)' : '1px solid hsl(42 95% 52% / 0.3)',
+          }}
+        >
+          {model ? 'MODEL LOADED' : 'DEFAULT FORMULA'}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Station</label>
+          <input list="agtron-stations" value={station} onChange={e => onStationChange(e.target.value)} className={inputClass} />
+          <datalist id="agtron-stations">
+            {stations.map(s => <option key={s} value={s} />)}
+          </datalist>
+        </div>
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">Meter reading (Agtron)</label>
+          <input type="number" value={measured} step={0.5} min={0} max={100}
+            onChange={e => setMeasured(Number(e.target.value))} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => currentResult && addSample(currentImageName, currentResult)}
+          disabled={!currentResult}
+          className="flex items-center justify-center gap-1 py-1.5 rounded border border-border text-xs text-muted-foreground hover:border-primary hover:text-gold transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-3 h-3" /> CURRENT SAMPLE
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importing}
+          className="flex items-center justify-center gap-1 py-1.5 rounded border border-border text-xs text-muted-foreground hover:border-primary hover:text-gold transition-colors disabled:opacity-40"
+        >
+          {importing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />} IMPORT IMAGE
+        </button>
+        <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleImport} />
+      </div>
+
+      {error && <div className="text-xs text-destructive">{error}</div>}
+
+      {/* Paired samples for this station */}
+      {stationSamples.length > 0 && (
+        <div className="flex flex-col gap-1 max-h-40 overflow-y-auto">
+          {stationSamples.map(s => {
+            const res = model?.residuals.find(r => r.sampleId === s.id);
+            return (
+              <div key={s.id} className="flex items-center gap-2 text-xs rounded px-2 py-1"
+                style={{ background: 'hsl(220 15% 9%)', border: '1px solid hsl(220 15% 16%)' }}>
+                <span className="text-foreground truncate flex-1">{s.imageName}</span>
+                <span className="font-mono-custom text-muted-foreground">L* {s.features.L.toFixed(1)}</span>
+                <span className="font-mono-custom text-gold">{s.measuredAgtron.toFixed(1)}</span>
+                {res && <span className="font-mono-custom text-muted-foreground">({res.residual >= 0 ? '+' : ''}{res.residual.toFixed(1)})</span>}
+                <button
+                  onClick={() => onSamplesChange(samples.filter(x => x.id !== s.id))}
+                  className="text-muted-foreground hover:text-destructive transition-colors"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleFit}
+          disabled={stationSamples.length < 3}
+          className="flex-1 py-2 rounded text-sm font-display font-semibold tracking-wider transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          style={{ background: 'var(--gradient-gold)', color: 'hsl(220 20% 7%)' }}
+        >
+          FIT MODEL ({stationSamples.length})
+        </button>
+        {model && (
+          <button
+            onClick={() => onModelChange(station, null)}
+            className="px-3 py-2 rounded border border-border text-xs text-muted-foreground hover:border-destructive hover:text-destructive transition-colors"
+          >
+            UNLOAD
+          </button>
+        )}
+      </div>
+
+      {model && (
+        <div className="flex flex-col gap-3">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="industrial-card px-3 py-2 text-center">
+              <div className="font-mono-custom text-lg" style={{ color: fitColor(model.r2) }}>{model.r2.toFixed(3)}</div>
+              <div className="text-xs text-muted-foreground">R²</div>
+            </div>
+            <div className="industrial-card px-3 py-2 text-center">
+              <div className="font-mono-custom text-lg text-gold">{model.rmse.toFixed(2)}</div>
+              <div className="text-xs text-muted-foreground">RMSE</div>
+            </div>
+            <div className="industrial-card px-3 py-2 text-center">
+              <div className="font-mono-custom text-lg text-foreground uppercase">{model.kind}</div>
+              <div className="text-xs text-muted-foreground">{model.sampleCount} samples</div>
+            </div>
+          </div>
+
+          {/* Residuals vs meter reading */}
+          <div style={{ height: 140 }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 4, right: 8, left: -20, bottom: 0 }}>
+                <XAxis type="number" dataKey="measured" name="Meter" domain={['auto', 'auto']}
+                  tick={{ fontSize: 9, fill: 'hsl(215 12% 50%)' }} />
+                <YAxis type="number" dataKey="residual" name="Residual" domain={['auto', 'auto']}
+                  tick={{ fontSize: 9, fill: 'hsl(215 12% 50%)' }} />
+                <ReferenceLine y={0} stroke="hsl(215 12% 40%)" strokeDasharray="3 3" />
+                <Tooltip content={<ResidualTooltip />} />
+                <Scatter data={model.residuals} fill="hsl(42 80% 50%)" />
+              </ScatterChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="text-xs font-mono-custom text-muted-foreground">
+            Agtron = {model.coefficients.map((c, i) => `${c.toFixed(3)}${i === 0 ? '' : model.kind === 'lab' ? ['', '·L*', '·a*', '·b*'][i] : '·Y'}`).join(' + ')}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -51,8 +51,9 @@ export function AnalysisMetrics({ result }: AnalysisMetricsProps) {
   const { pixelStats } = result;
   const avgColor = getRgbHex(pixelStats.meanR, pixelStats.meanG, pixelStats.meanB);
 
-  const agtronStatus = pixelStats.agtronScore >= 58 && pixelStats.agtronScore <= 68 ? 'pass'
-    : pixelStats.agtronScore >= 50 && pixelStats.agtronScore <= 76 ? 'warn' : 'fail';
+  const [agtronMin, agtronMax] = result.specProfile.agtronTarget;
+  const agtronStatus = pixelStats.agtronScore >= agtronMin && pixelStats.agtronScore <= agtronMax ? 'pass'
+    : pixelStats.agtronScore >= agtronMin - 8 && pixelStats.agtronScore <= agtronMax + 8 ? 'warn' : 'fail';
 
   const usdaStatus = result.usdaColorScore >= 0.4 && result.usdaColorScore <= 0.6 ? 'pass'
     : result.usdaColorScore >= 0.3 && result.usdaColorScore <= 0.7 ? 'warn' : 'fail';
@@ -92,7 +93,7 @@ export function AnalysisMetrics({ result }: AnalysisMetricsProps) {
         <MetricCard
           label="Agtron Score"
           value={pixelStats.agtronScore.toFixed(0)}
-          sublabel="Target: 63 (58–68)"
+          sublabel={`Target: ${agtronMin}–${agtronMax} · ${pixelStats.agtronStation ? `${pixelStats.agtronStation} model` : 'formula'}`}
           status={agtronStatus}
         />
         <MetricCard
@@ -134,16 +135,45 @@ export function AnalysisMetrics({ result }: AnalysisMetricsProps) {
       <div className="rounded-lg px-3 py-2 text-xs space-y-1.5"
         style={{ background: 'hsl(220 15% 9%)', border: '1px solid hsl(220 15% 16%)' }}>
         <div className="text-muted-foreground font-display tracking-wider text-xs mb-1">V2 SPATIAL NORMALIZATION</div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Strips Segmented</span>
+          <span className="font-mono-custom text-gold">{result.strips.length}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Sugar Ends (slight / mod. / severe)</span>
+          <span className="font-mono-custom text-gold">
+            {(['slight', 'moderate', 'severe'] as const)
+              .map(g => result.sugarEnds.filter(s => s.grade === g).length)
+              .join(' / ')}
+          </span>
+        </div>
         <div className="flex justify-between">
           <span className="text-muted-foreground">Shadow Filtered</span>
           <span className="font-mono-custom text-gold">{(pixelStats.shadowMaskRatio * 100).toFixed(1)}%</span>
         </div>
         <div className="flex justify-between">
-          <span className="text-muted-foreground">WB Gain R/G/B</span>
-          <span className="font-mono-custom text-xs" style={{ color: 'hsl(210 80% 65%)' }}>
-            {pixelStats.whiteBalanceGain.map(g => g.toFixed(2)).join(' / ')}
-          </span>
+          <span className="text-muted-foreground">Glare Masked</span>
+          <span className="font-mono-custom text-gold">{(pixelStats.glareMaskRatio * 100).toFixed(1)}%</span>
         </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Seasoning Coverage</span>
+          <span className="font-mono-custom text-gold">{(pixelStats.seasoningCoverage * 100).toFixed(1)}%</span>
+        </div>
+        {result.colorCorrection.method === 'ccm' ? (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Checker CCM ΔE00</span>
+            <span className="font-mono-custom text-xs" style={{ color: 'hsl(210 80% 65%)' }}>
+              {result.colorCorrection.meanDeltaE.toFixed(2)} mean / {result.colorCorrection.maxDeltaE.toFixed(2)} max
+            </span>
+          </div>
+        ) : (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">WB Gain R/G/B</span>
+            <span className="font-mono-custom text-xs" style={{ color: 'hsl(210 80% 65%)' }}>
+              {pixelStats.whiteBalanceGain.map(g => g.toFixed(2)).join(' / ')}
+            </span>
+          </div>
+        )}
         <div className="flex justify-between">
           <span className="text-muted-foreground">Crunch Score (FFT)</span>
           <span className="font-mono-custom" style={{
@@ -175,6 +205,11 @@ export function AnalysisMetrics({ result }: AnalysisMetricsProps) {
         <span>Analysis time: <span className="font-mono-custom text-gold">{result.analysisTime}ms</span></span>
         <span>Pixels analyzed: <span className="font-mono-custom">{pixelStats.totalPixels.toLocaleString()}</span></span>
       </div>
+      <div className="text-xs text-muted-foreground" title={result.engine.stages.map(s => `${s.id} v${s.version}${s.enabled ? '' : ' (off)'}${s.custom ? ' (custom)' : ''}`).join('\n')}>
+        Engine <span className="font-mono-custom text-gold">v{result.engine.version}</span>
+        {' · '}{result.engine.stages.filter(s => s.enabled).length}/{result.engine.stages.length} stages
+        {result.engine.stages.some(s => s.custom) && ' · custom'}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,82 @@
+import React from 'react';
+import type { AnalysisResult, RGBColor } from '@/lib/colorAnalysis';
+import { BACKGROUND_METHODS, DEFAULT_BACKGROUND_MODEL, type BackgroundMethod, type BackgroundModelOptions } from '@/lib/backgroundModel';
+
+interface BackgroundModelPanelProps {
+  options: BackgroundModelOptions;
+  onChange: (options: BackgroundModelOptions) => void;
+  result: AnalysisResult | null;
+  disabled?: boolean;
+}
+
+const toHex = ({ r, g, b }: RGBColor) =>
+  '#' + [r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): RGBColor => ({
+  r: parseInt(hex.slice(1, 3), 16),
+  g: parseInt(hex.slice(3, 5), 16),
+  b: parseInt(hex.slice(5, 7), 16),
+});
+
+export function BackgroundModelPanel({ options, onChange, result, disabled }: BackgroundModelPanelProps) {
+  const keyColor = options.keyColor ?? DEFAULT_BACKGROUND_MODEL.keyColor!;
+  const keyTolerance = options.keyTolerance ?? DEFAULT_BACKGROUND_MODEL.keyTolerance!;
+  const fg = result?.foreground;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground">Method</span>
+        <select
+          value={options.method}
+          onChange={e => onChange({ ...options, method: e.target.value as BackgroundMethod })}
+          disabled={disabled}
+          className="ml-auto text-xs px-2 py-1 rounded border border-border bg-background text-muted-foreground"
+        >
+          {BACKGROUND_METHODS.map(m => <option key={m.method} value={m.method}>{m.label}</option>)}
+        </select>
+      </div>
+
+      {options.method === 'chroma_key' && (
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Tray colour</span>
+          <input
+            type="color"
+            value={toHex(keyColor)}
+            onChange={e => onChange({ ...options, keyColor: fromHex(e.target.value) })}
+            disabled={disabled}
+            className="w-8 h-6 rounded border border-border bg-background"
+          />
+          <span className="text-xs text-muted-foreground ml-auto">ΔE tol.</span>
+          <input
+            type="number"
+            value={keyTolerance}
+            min={1} max={60} step={1}
+            onChange={e => onChange({ ...options, keyTolerance: Number(e.target.value) })}
+            disabled={disabled}
+            className="w-16 text-xs px-2 py-1 rounded border border-border bg-background font-mono-custom text-foreground"
+          />
+        </div>
+      )}
+
+      {fg && (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="industrial-card px-3 py-2 text-center">
+            <div className="font-mono-custom text-lg text-gold">{(fg.coverage * 100).toFixed(1)}%</div>
+            <div className="text-xs text-muted-foreground">Fry Coverage</div>
+          </div>
+          <div className="industrial-card px-3 py-2 text-center">
+            <div className="font-mono-custom text-sm text-foreground">
+              {fg.backgroundLab.L.toFixed(0)} / {fg.backgroundLab.a.toFixed(0)} / {fg.backgroundLab.b.toFixed(0)}
+            </div>
+            <div className="text-xs text-muted-foreground">Background L*a*b*</div>
+          </div>
+        </div>
+      )}
+
+      <div className="text-xs text-muted-foreground">
+        Applies to the next analysis. Toggle MASK on the overlay to check the separation.
+      </div>
+    </div>
+  );
+}
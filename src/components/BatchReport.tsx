@@ -1,8 +1,11 @@
 import React, { useState } from 'react';
-import { Download, Trash2, Clock, BarChart2 } from 'lucide-react';
+import { Download, Trash2, Clock, BarChart2, Tags } from 'lucide-react';
 import type { BatchRecord } from '@/lib/pqiEngine';
-import { generateCSVReport, downloadCSV, getScoreColor } from '@/lib/pqiEngine';
+import { generateCSVReport, downloadCSV, downloadJSON, getScoreColor } from '@/lib/pqiEngine';
+import { toCocoAnnotations } from '@/lib/annotations';
 import { getPQIStatus } from '@/lib/colorAnalysis';
+import { DISPOSITION_COLORS, formatSpecProfile } from '@/lib/specProfiles';
+import { QUALITY_LEVEL_COLORS } from '@/lib/imageQuality';
 
 interface BatchReportProps {
   records: BatchRecord[];
@@ -20,7 +23,8 @@ export function BatchReport({ records, onClear }: BatchReportProps) {
 
   const avgPqi = records.length > 0 ? records.reduce((s, r) => s + r.pqi, 0) / records.length : 0;
   const avgDefects = records.length > 0 ? records.reduce((s, r) => s + r.defectCount, 0) / records.length : 0;
-  const passRate = records.length > 0 ? (records.filter(r => r.pqi >= 75).length / records.length) * 100 : 0;
+  // Each record passes against its own stored spec, not the currently active one
+  const passRate = records.length > 0 ? (records.filter(r => r.disposition === 'PASS').length / records.length) * 100 : 0;
 
   const handleExport = () => {
     const csv = generateCSVReport(records);
@@ -28,6 +32,13 @@ export function BatchReport({ records, onClear }: BatchReportProps) {
     downloadCSV(csv, `mccain_batch_report_${now}.csv`);
   };
 
+  // Reviewed samples' corrected defects as COCO training labels
+  const reviewed = records.filter(r => r.review);
+  const handleExportLabels = () => {
+    const now = new Date().toISOString().slice(0, 19).replace(/[:-]/g, '');
+    downloadJSON(toCocoAnnotations(reviewed.map(r => r.review!.annotations)), `mccain_defect_labels_${now}.json`);
+  };
+
   return (
     <div className="flex flex-col gap-4 h-full">
       {/* Summary stats */}
@@ -76,6 +87,15 @@ export function BatchReport({ records, onClear }: BatchReportProps) {
               >
                 <Download className="w-3 h-3" /> Export CSV
               </button>
+              {reviewed.length > 0 && (
+                <button
+                  onClick={handleExportLabels}
+                  title="Reviewer-corrected defects of the reviewed samples, as COCO JSON"
+                  className="flex items-center gap-1 text-xs px-3 py-1 rounded border border-primary text-gold hover:bg-primary/10 transition-colors"
+                >
+                  <Tags className="w-3 h-3" /> Export Labels ({reviewed.length})
+                </button>
+              )}
               <button
                 onClick={onClear}
                 className="flex items-center gap-1 text-xs px-2 py-1 rounded border border-border text-muted-foreground hover:border-destructive hover:text-destructive transition-colors"
@@ -119,11 +139,41 @@ export function BatchReport({ records, onClear }: BatchReportProps) {
                       style={{ background: status.color + '22', color: status.color }}>
                       {status.label}
                     </span>
+                    <span className="text-xs px-1.5 py-0.5 rounded font-display font-semibold"
+                      title={`Graded against ${formatSpecProfile(record.specProfile)}: pass ≥ ${record.specProfile.limits.passPqi}%, hold ≥ ${record.specProfile.limits.holdPqi}%`}
+                      style={{ background: DISPOSITION_COLORS[record.disposition] + '22', color: DISPOSITION_COLORS[record.disposition] }}>
+                      {record.disposition}
+                    </span>
+                    {record.imageQuality === 'warning' && (
+                      <span className="text-xs px-1.5 py-0.5 rounded font-display font-semibold"
+                        title="Logged with image-quality warnings — see the capture's quality report"
+                        style={{ background: QUALITY_LEVEL_COLORS.warning + '22', color: QUALITY_LEVEL_COLORS.warning }}>
+                        QUALITY
+                      </span>
+                    )}
+                    {record.review && (
+                      <span className="text-xs px-1.5 py-0.5 rounded font-display font-semibold"
+                        title={`Reviewed by ${record.review.reviewer} · ${record.review.edits.length} edits · automatic PQI ${record.review.automatic.pqi}% (${record.review.automatic.disposition})`}
+                        style={{ background: 'hsl(210 80% 60% / 0.15)', color: 'hsl(210 80% 70%)' }}>
+                        REVIEWED
+                      </span>
+                    )}
+                    {record.fullPqi !== null && (
+                      <span className="text-xs px-1.5 py-0.5 rounded font-mono-custom"
+                        title={`Appearance ${record.categoryScores.appearance}% · texture ${record.categoryScores.texture}% · aroma ${record.categoryScores.aroma}%`}
+                        style={{ background: getPQIStatus(record.fullPqi).color + '22', color: getPQIStatus(record.fullPqi).color }}>
+                        FULL {record.fullPqi}%
+                      </span>
+                    )}
+                    <span className="text-xs text-muted-foreground truncate">{formatSpecProfile(record.specProfile)}</span>
                   </div>
                   <div className="flex gap-3 text-xs text-muted-foreground mt-0.5">
                     <span>Hue: <span className="font-mono-custom text-gold">{record.medianHue.toFixed(0)}°</span></span>
                     <span>Defects: <span className="font-mono-custom text-destructive">{record.defectCount}</span></span>
                     <span>Agtron: <span className="font-mono-custom" style={{ color: 'hsl(210 80% 65%)' }}>{record.agtronScore.toFixed(0)}</span></span>
+                    <span>Length: <span className="font-mono-custom" style={{ color: record.lengthPass ? 'hsl(142 70% 45%)' : 'hsl(0 75% 55%)' }}>
+                      {record.meanLengthMm.toFixed(0)}mm {record.lengthPass ? '✓' : '✗'}
+                    </span></span>
                   </div>
                 </div>
 
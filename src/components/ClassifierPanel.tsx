@@ -0,0 +1,231 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BrainCircuit, Upload, Images, Loader2, Play, Download, Check, X } from 'lucide-react';
+import { imageBaseName, loadImageFile } from '@/lib/imageFile';
+import { parseAnnotationFile, scaleAnnotations, type AnnotationImport, type DefectAnnotation } from '@/lib/annotations';
+import { trainDefectClassifier, type DefectClassifierModel } from '@/lib/defectClassifier';
+import { collectClassifierSamplesInWorker, isAbortError } from '@/lib/analysisWorker';
+import { downloadJSON } from '@/lib/pqiEngine';
+import type { AgtronModel } from '@/lib/agtronCalibration';
+import type { BackgroundModelOptions } from '@/lib/backgroundModel';
+import { formatSpecProfile, type SpecProfile } from '@/lib/specProfiles';
+
+interface ClassifierPanelProps {
+  profile: SpecProfile;
+  ppm: number;
+  agtronModel: AgtronModel | null;
+  background: BackgroundModelOptions;
+  onUse: (model: DefectClassifierModel) => void; // new version of `profile` typing defects with the model
+}
+
+const typeLabel = (t: string) => t.replace('_', ' ').toUpperCase();
+const accuracyColor = (v: number) => v >= 0.9 ? 'hsl(142 70% 45%)' : v >= 0.7 ? 'hsl(42 95% 52%)' : 'hsl(0 75% 55%)';
+
+export function ClassifierPanel({ profile, ppm, agtronModel, background, onUse }: ClassifierPanelProps) {
+  const [labels, setLabels] = useState<(AnnotationImport & { fileName: string }) | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [running, setRunning] = useState<{ phase: 'LOADING' | 'COLLECTING'; done: number; total: number } | null>(null);
+  const [model, setModel] = useState<DefectClassifierModel | null>(null);
+  const [used, setUsed] = useState(false);
+  const [runWarnings, setRunWarnings] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const labelInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Terminate a running collection when the panel unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleLabels = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setLabels({ ...parseAnnotationFile(file.name, await file.text()), fileName: file.name });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleImages = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  const labelled = labels
+    ? labels.images.flatMap(img => {
+      const file = files.find(f => imageBaseName(f.name) === imageBaseName(img.imageName));
+      return file ? [{ img, file }] : [];
+    })
+    : [];
+
+  const handleTrain = async () => {
+    if (labelled.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setModel(null);
+    setUsed(false);
+    setRunWarnings([]);
+    const images: { imageName: string; annotations: DefectAnnotation[]; imageData: ImageData }[] = [];
+    const warnings: string[] = [];
+    try {
+      for (const [i, { img, file }] of labelled.entries()) {
+        setRunning({ phase: 'LOADING', done: i, total: labelled.length });
+        try {
+          const { imageData, scale: fileScale } = await loadImageFile(file);
+          const scale = img.width ? imageData.width / img.width : fileScale;
+          images.push({ imageName: img.imageName, annotations: scaleAnnotations(img.annotations, scale), imageData });
+        } catch (err) {
+          warnings.push(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+        if (controller.signal.aborted) return;
+      }
+      const { samples, warnings: sampleWarnings } = await collectClassifierSamplesInWorker(images, ppm, {
+        profile, agtronModel, background,
+        signal: controller.signal,
+        onProgress: p => setRunning({ phase: 'COLLECTING', ...p }),
+      });
+      const trained = trainDefectClassifier(samples);
+      if (!trained) setError(`Need at least 10 labelled regions of two or more kinds to train (got ${samples.length})`);
+      setModel(trained);
+      setRunWarnings([...warnings, ...sampleWarnings]);
+    } catch (err) {
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setRunning(null);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setRunning(null);
+  };
+
+  const handleExport = () => {
+    if (!model) return;
+    downloadJSON(model, `defect_classifier_${model.trainedAt.slice(0, 10)}.json`);
+  };
+
+  const unmatchedLabels = labels ? labels.images.length - labelled.length : 0;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2">
+        <BrainCircuit className="w-4 h-4 text-gold" />
+        <h3 className="font-display text-sm font-semibold tracking-wider">DEFECT CLASSIFIER</h3>
+        <span className="ml-auto text-xs text-muted-foreground">Logistic regression over region colour, texture and shape</span>
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        Trains on corrected labels (COCO JSON / CSV, e.g. exported from reviewed batch samples). Detections matching a label learn its
+        type, unlabelled detections learn to be dropped.
+      </div>
+
+      {/* Inputs */}
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => labelInputRef.current?.click()}
+          disabled={running !== null}
+          className="flex items-center justify-center gap-1 py-1.5 rounded border border-border text-xs text-muted-foreground hover:border-primary hover:text-gold transition-colors disabled:opacity-40"
+        >
+          <Upload className="w-3 h-3" /> {labels ? labels.fileName : 'LABELS (COCO JSON / CSV)'}
+        </button>
+        <button
+          onClick={() => imageInputRef.current?.click()}
+          disabled={running !== null}
+          className="flex items-center justify-center gap-1 py-1.5 rounded border border-border text-xs text-muted-foreground hover:border-primary hover:text-gold transition-colors disabled:opacity-40"
+        >
+          <Images className="w-3 h-3" /> {files.length > 0 ? `${files.length} IMAGES` : 'IMAGES'}
+        </button>
+        <input ref={labelInputRef} type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={handleLabels} />
+        <input ref={imageInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleImages} />
+      </div>
+
+      {labels && (
+        <div className="text-xs text-muted-foreground">
+          {labels.images.length} labelled images · <span className="text-foreground">{labelled.length} matched to images</span>
+          {unmatchedLabels > 0 && files.length > 0 && <> · {unmatchedLabels} without an image file</>}
+        </div>
+      )}
+      {[...(labels?.warnings ?? []), ...runWarnings].slice(0, 8).map((w, i) => (
+        <div key={i} className="text-xs" style={{ color: 'hsl(42 95% 60%)' }}>⚠ {w}</div>
+      ))}
+      {error && <div className="text-xs text-destructive">{error}</div>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleTrain}
+          disabled={running !== null || labelled.length === 0}
+          className="flex-1 flex items-center justify-center gap-2 py-2 rounded text-sm font-display font-semibold tracking-wider transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          style={{ background: 'var(--gradient-gold)', color: 'hsl(220 20% 7%)' }}
+        >
+          {running
+            ? <><Loader2 className="w-4 h-4 animate-spin" /> {running.phase} {running.done}/{running.total}</>
+            : <><Play className="w-4 h-4" /> TRAIN CLASSIFIER</>}
+        </button>
+        {running && (
+          <button
+            onClick={handleCancel}
+            className="flex items-center gap-1 text-xs px-3 py-1 rounded border border-border text-muted-foreground hover:border-destructive hover:text-destructive transition-colors"
+          >
+            <X className="w-3 h-3" /> CANCEL
+          </button>
+        )}
+        {model && (
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-1 text-xs px-3 py-1 rounded border border-primary text-gold hover:bg-primary/10 transition-colors"
+          >
+            <Download className="w-3 h-3" /> Export Model
+          </button>
+        )}
+      </div>
+
+      {model && (
+        <div className="flex flex-col gap-3">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="industrial-card px-3 py-2 text-center">
+              <div className="font-mono-custom text-lg" style={{ color: accuracyColor(model.trainingAccuracy) }}>
+                {(model.trainingAccuracy * 100).toFixed(0)}%
+              </div>
+              <div className="text-xs text-muted-foreground">Training accuracy</div>
+            </div>
+            <div className="industrial-card px-3 py-2 text-center">
+              <div className="font-mono-custom text-lg text-gold">{model.sampleCount}</div>
+              <div className="text-xs text-muted-foreground">Regions</div>
+            </div>
+            <div className="industrial-card px-3 py-2 text-center">
+              <div className="font-mono-custom text-lg text-foreground">{model.classes.length}</div>
+              <div className="text-xs text-muted-foreground">Classes</div>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-1.5">
+            {model.classes.map(c => (
+              <span key={c} className="text-xs px-2 py-0.5 rounded font-mono-custom"
+                style={{ background: 'hsl(220 15% 9%)', border: '1px solid hsl(220 15% 16%)' }}>
+                {typeLabel(c)} <span className="text-gold">{model.classCounts[c] ?? 0}</span>
+              </span>
+            ))}
+          </div>
+
+          <button
+            onClick={() => { onUse(model); setUsed(true); }}
+            disabled={used}
+            className="flex items-center justify-center gap-1.5 py-2 rounded border border-primary text-sm text-gold hover:bg-primary/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Check className="w-3.5 h-3.5" /> {used ? 'IN USE' : `USE IN ${formatSpecProfile(profile).toUpperCase()}`}
+          </button>
+          <div className="text-xs text-muted-foreground">
+            Training accuracy is optimistic; run the detector evaluation on held-out labelled images before relying on the model.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
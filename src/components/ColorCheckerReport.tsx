@@ -0,0 +1,73 @@
+import React from 'react';
+import type { AnalysisResult, RGBColor } from '@/lib/colorAnalysis';
+
+interface ColorCheckerReportProps {
+  result: AnalysisResult;
+}
+
+const rgb = (c: RGBColor) => `rgb(${Math.round(c.r)}, ${Math.round(c.g)}, ${Math.round(c.b)})`;
+
+// ΔE2000 bands: <3 hard to see, <6 visible side by side, beyond that not trustworthy
+const deltaColor = (dE: number) =>
+  dE < 3 ? 'hsl(142 70% 45%)' : dE < 6 ? 'hsl(42 95% 52%)' : 'hsl(0 75% 55%)';
+
+export function ColorCheckerReport({ result }: ColorCheckerReportProps) {
+  const cc = result.colorCorrection;
+
+  if (cc.method === 'none') {
+    return (
+      <div className="text-xs rounded px-2 py-1"
+        style={{ background: 'hsl(0 75% 55% / 0.1)', border: '1px solid hsl(0 75% 55% / 0.3)', color: 'hsl(0 75% 70%)' }}>
+        Colour correction disabled by the spec profile — camera colours graded as captured.
+      </div>
+    );
+  }
+
+  if (cc.method !== 'ccm') {
+    return (
+      <div className="text-xs rounded px-2 py-1"
+        style={{ background: 'hsl(42 95% 52% / 0.1)', border: '1px solid hsl(42 95% 52% / 0.3)', color: 'hsl(42 95% 65%)' }}>
+        No colour checker in frame — per-channel white balance applied. Colour values are not traceable; mark the chart to fit a CCM.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="grid grid-cols-3 gap-2">
+        <div className="industrial-card px-3 py-2 text-center">
+          <div className="font-mono-custom text-lg" style={{ color: deltaColor(cc.meanDeltaE) }}>{cc.meanDeltaE.toFixed(2)}</div>
+          <div className="text-xs text-muted-foreground">Mean ΔE00</div>
+        </div>
+        <div className="industrial-card px-3 py-2 text-center">
+          <div className="font-mono-custom text-lg" style={{ color: deltaColor(cc.maxDeltaE) }}>{cc.maxDeltaE.toFixed(2)}</div>
+          <div className="text-xs text-muted-foreground">Max ΔE00</div>
+        </div>
+        <div className="industrial-card px-3 py-2 text-center">
+          <div className="font-mono-custom text-lg text-gold uppercase">{cc.source}</div>
+          <div className="text-xs text-muted-foreground">Chart</div>
+        </div>
+      </div>
+
+      {/* Patch grid: reference (top) vs corrected (bottom) */}
+      <div className="grid grid-cols-6 gap-1">
+        {cc.patches.map(p => (
+          <div key={p.index} title={`${p.name}: ΔE00 ${p.deltaE.toFixed(2)}`}
+            className="rounded overflow-hidden" style={{ border: '1px solid hsl(220 15% 16%)' }}>
+            <div style={{ height: 12, background: rgb(p.reference) }} />
+            <div style={{ height: 12, background: rgb(p.corrected) }} />
+            <div className="text-center font-mono-custom" style={{ fontSize: 9, color: deltaColor(p.deltaE), background: 'hsl(220 15% 9%)' }}>
+              {p.deltaE.toFixed(1)}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {cc.matrix && (
+        <div className="text-xs font-mono-custom text-muted-foreground">
+          CCM: {cc.matrix.map(row => `[${row.map(v => v.toFixed(2)).join(' ')}]`).join(' ')}
+        </div>
+      )}
+    </div>
+  );
+}
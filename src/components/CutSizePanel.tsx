@@ -0,0 +1,88 @@
+import React from 'react';
+import type { AnalysisResult } from '@/lib/colorAnalysis';
+import { CUT_SIZES, SLIVER_CLASSES, type CutSize, type SliverClass } from '@/lib/sizeGrading';
+
+interface CutSizePanelProps {
+  result: AnalysisResult;
+  cutSize: CutSize;
+  onCutSizeChange: (cutSize: CutSize) => void;
+}
+
+const SLIVER_LABELS: Record<SliverClass, string> = {
+  sliver_1_4: '1/4"',
+  sliver_3_8: '3/8"',
+  sliver_7_16: '7/16"',
+  sliver_9_16: '9/16"',
+};
+
+export function CutSizePanel({ result, cutSize, onCutSizeChange }: CutSizePanelProps) {
+  const conformity = result.cutSizeConformity;
+  const total = conformity.strips.length;
+  const outColor = conformity.outOfSpecPercent < 10 ? 'hsl(142 70% 45%)'
+    : conformity.outOfSpecPercent < 25 ? 'hsl(42 95% 52%)' : 'hsl(0 75% 55%)';
+  const sliverColor = conformity.sliverCount === 0 ? 'hsl(142 70% 45%)' : 'hsl(42 95% 52%)';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <div className="text-xs text-muted-foreground">
+          Spec: <span className="font-mono-custom text-foreground">
+            {conformity.specMinMm.toFixed(0)}–{conformity.specMaxMm.toFixed(0)} mm
+          </span>
+        </div>
+        <select
+          value={cutSize}
+          onChange={e => onCutSizeChange(e.target.value as CutSize)}
+          className="text-xs px-2 py-1 rounded border border-border bg-background text-muted-foreground"
+        >
+          {(Object.keys(CUT_SIZES) as CutSize[]).map(c => (
+            <option key={c} value={c}>{CUT_SIZES[c].label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="industrial-card px-3 py-2 text-center">
+          <div className="font-mono-custom text-lg text-gold">{conformity.meanWidthMm.toFixed(1)}</div>
+          <div className="text-xs text-muted-foreground">Mean Width (mm)</div>
+        </div>
+        <div className="industrial-card px-3 py-2 text-center">
+          <div className="font-mono-custom text-lg" style={{ color: outColor }}>{conformity.outOfSpecPercent.toFixed(0)}%</div>
+          <div className="text-xs text-muted-foreground">Out of Spec</div>
+        </div>
+        <div className="industrial-card px-3 py-2 text-center">
+          <div className="font-mono-custom text-lg" style={{ color: sliverColor }}>{conformity.sliverCount}</div>
+          <div className="text-xs text-muted-foreground">Slivers</div>
+        </div>
+      </div>
+
+      {/* Sliver breakdown by gauge */}
+      <div className="grid grid-cols-4 gap-1.5">
+        {SLIVER_CLASSES.map(cls => (
+          <div key={cls} className="rounded px-2 py-1 text-center"
+            style={{ background: 'hsl(220 15% 9%)', border: '1px solid hsl(220 15% 16%)' }}>
+            <div className="text-xs font-mono-custom text-foreground">{conformity.sliverCounts[cls]}</div>
+            <div className="text-xs text-muted-foreground">{SLIVER_LABELS[cls]}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Per-strip widths */}
+      {total > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {conformity.strips.map(s => (
+            <span key={s.stripId}
+              className="text-xs font-mono-custom px-1.5 py-0.5 rounded"
+              title={`Strip #${s.stripId}: ${s.widthMm.toFixed(1)} mm (narrowest ${s.minWidthMm.toFixed(1)} mm)`}
+              style={{
+                color: s.sliver ? 'hsl(42 95% 60%)' : s.inSpec ? 'hsl(142 70% 55%)' : 'hsl(0 75% 60%)',
+                background: 'hsl(220 15% 9%)',
+              }}>
+              #{s.stripId} {s.widthMm.toFixed(1)}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -49,6 +49,8 @@ export function DefectHeatmap({ result }: DefectHeatmapProps) {
   }).length;
 
   const shadowCount = result.defects.filter(d => d.type === 'shadow').length;
+  const glareCount = result.defects.filter(d => d.type === 'glare').length;
+  const seasoningCount = result.defects.filter(d => d.type === 'seasoning').length;
   const realDefects = result.defects.filter(d => !d.isArtifact);
 
   return (
@@ -90,6 +92,8 @@ export function DefectHeatmap({ result }: DefectHeatmapProps) {
         <span><span className="text-destructive font-mono-custom">{criticalCells}</span> critical</span>
         <span><span style={{ color: 'hsl(42 95% 52%)' }} className="font-mono-custom">{warnCells}</span> warn</span>
         <span><span style={{ color: 'hsl(210 80% 65%)' }} className="font-mono-custom">{shadowCount}</span> shadows</span>
+        <span><span style={{ color: 'hsl(200 60% 85%)' }} className="font-mono-custom">{glareCount}</span> glare</span>
+        <span><span style={{ color: 'hsl(110 55% 72%)' }} className="font-mono-custom">{seasoningCount}</span> seasoning</span>
       </div>
 
       {/* Map grid */}
@@ -133,7 +137,9 @@ export function DefectHeatmap({ result }: DefectHeatmapProps) {
           { type: 'light', color: '#22aaff', label: 'Light' },
           { type: 'mottled', color: '#ffcc00', label: 'Mottled' },
           { type: 'sugar_end', color: '#ff88ff', label: 'Sugar End' },
-          { type: 'disease', color: '#cc44ff', label: 'Disease' },
+          { type: 'greening', color: '#44dd66', label: 'Greening' },
+          { type: 'disease', color: '#cc44ff', label: 'Black Spot' },
+          { type: 'hollow_heart', color: '#8899ff', label: 'Hollow Heart' },
         ].map(({ type, color, label }) => {
           const count = realDefects.filter(d => d.type === type).length;
           return (
@@ -149,6 +155,28 @@ export function DefectHeatmap({ result }: DefectHeatmapProps) {
         })}
       </div>
 
+      {/* McCain template size classes */}
+      <div className="rounded px-2 py-1.5 text-xs"
+        style={{ background: 'hsl(220 15% 9%)', border: '1px solid hsl(220 15% 16%)' }}>
+        <div className="grid grid-cols-4 gap-1 text-muted-foreground font-display tracking-wider mb-1">
+          <span>SIZE CLASS</span>
+          <span className="text-center">SMALL</span>
+          <span className="text-center">MEDIUM</span>
+          <span className="text-center">LARGE</span>
+        </div>
+        {([['dark', 'Dark', '#ff6600'], ['light', 'Light', '#22aaff']] as const).map(([family, label, color]) => (
+          <div key={family} className="grid grid-cols-4 gap-1">
+            <span style={{ color }}>{label}</span>
+            {(['small', 'medium', 'large'] as const).map(cls => (
+              <span key={cls} className="text-center font-mono-custom"
+                style={{ color: cls === 'large' && result.defectSizes[family][cls] > 0 ? 'hsl(0 75% 60%)' : undefined }}>
+                {result.defectSizes[family][cls]}
+              </span>
+            ))}
+          </div>
+        ))}
+      </div>
+
       {mode === 'gradcam' && (
         <div className="text-xs text-muted-foreground rounded px-2 py-1"
           style={{ background: 'hsl(220 15% 9%)', border: '1px solid hsl(220 15% 16%)' }}>
@@ -0,0 +1,282 @@
+import React, { useRef, useState } from 'react';
+import { Target, Upload, Images, Loader2, Play, Download } from 'lucide-react';
+import { analyzeImageInWorker } from '@/lib/analysisWorker';
+import { imageBaseName, loadImageFile } from '@/lib/imageFile';
+import { parseAnnotationFile, scaleAnnotations, type AnnotationImport } from '@/lib/annotations';
+import {
+  DEFAULT_IOU_THRESHOLD, evaluateImage, summarizeEvaluation,
+  type EvaluationReport, type ImageEvaluation, type EvaluationErrorKind,
+} from '@/lib/detectorEvaluation';
+import { downloadJSON } from '@/lib/pqiEngine';
+import type { AgtronModel } from '@/lib/agtronCalibration';
+import type { BackgroundModelOptions } from '@/lib/backgroundModel';
+import type { SpecProfile } from '@/lib/specProfiles';
+
+interface EvaluationPanelProps {
+  profile: SpecProfile;
+  ppm: number;
+  agtronModel: AgtronModel | null;
+  background: BackgroundModelOptions;
+}
+
+const inputClass = 'w-full rounded border border-border bg-input px-2 py-1.5 text-sm font-mono-custom text-foreground focus:border-primary outline-none';
+
+const KIND_LABELS: Record<EvaluationErrorKind, { label: string; color: string }> = {
+  false_positive: { label: 'FALSE POSITIVE', color: 'hsl(0 75% 60%)' },
+  false_negative: { label: 'MISSED', color: 'hsl(42 95% 60%)' },
+  misclassified: { label: 'WRONG TYPE', color: 'hsl(280 60% 70%)' },
+};
+
+const pct = (v: number | null) => (v === null ? '—' : `${(v * 100).toFixed(0)}%`);
+const scoreColor = (v: number | null) =>
+  v === null ? 'hsl(215 12% 50%)' : v >= 0.8 ? 'hsl(142 70% 45%)' : v >= 0.5 ? 'hsl(42 95% 52%)' : 'hsl(0 75% 55%)';
+const typeLabel = (t: string) => t.replace('_', ' ').toUpperCase();
+
+export function EvaluationPanel({ profile, ppm, agtronModel, background }: EvaluationPanelProps) {
+  const [labels, setLabels] = useState<(AnnotationImport & { fileName: string }) | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [iouThreshold, setIouThreshold] = useState(DEFAULT_IOU_THRESHOLD);
+  const [includeArtifacts, setIncludeArtifacts] = useState(false);
+  const [running, setRunning] = useState<{ done: number; total: number } | null>(null);
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [evaluations, setEvaluations] = useState<ImageEvaluation[]>([]);
+  const [runWarnings, setRunWarnings] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const labelInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const handleLabels = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setLabels({ ...parseAnnotationFile(file.name, await file.text()), fileName: file.name });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleImages = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  const labelled = labels
+    ? labels.images.flatMap(img => {
+      const file = files.find(f => imageBaseName(f.name) === imageBaseName(img.imageName));
+      return file ? [{ img, file }] : [];
+    })
+    : [];
+
+  const handleRun = async () => {
+    if (!labels || labelled.length === 0) return;
+    setRunning({ done: 0, total: labelled.length });
+    setError(null);
+    const results: ImageEvaluation[] = [];
+    const warnings: string[] = [];
+    let engineVersion: string | null = null;
+    for (const { img, file } of labelled) {
+      try {
+        const { imageData, scale: fileScale } = await loadImageFile(file);
+        // COCO coordinates refer to the stated image size; CSV ones to the file as stored
+        const scale = img.width ? imageData.width / img.width : fileScale;
+        const { result } = await analyzeImageInWorker(imageData, ppm, { profile, agtronModel, background });
+        engineVersion = result.engine.version;
+        results.push(evaluateImage(img.imageName, scaleAnnotations(img.annotations, scale), result.defects, { iouThreshold, includeArtifacts }));
+      } catch (err) {
+        warnings.push(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      setRunning({ done: results.length + warnings.length, total: labelled.length });
+    }
+    setEvaluations(results);
+    setRunWarnings(warnings);
+    setReport(summarizeEvaluation(results, { iouThreshold, includeArtifacts, specProfile: profile, engineVersion }));
+    setRunning(null);
+  };
+
+  const handleExport = () => {
+    if (!report) return;
+    const now = new Date().toISOString().slice(0, 19).replace(/[:-]/g, '');
+    downloadJSON({ ...report, images: evaluations }, `detector_evaluation_${now}.json`);
+  };
+
+  const unmatchedLabels = labels ? labels.images.length - labelled.length : 0;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2">
+        <Target className="w-4 h-4 text-gold" />
+        <h3 className="font-display text-sm font-semibold tracking-wider">DETECTOR EVALUATION</h3>
+        <span className="ml-auto text-xs text-muted-foreground">Ground truth vs detections · IoU matching</span>
+      </div>
+
+      {/* Inputs */}
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => labelInputRef.current?.click()}
+          disabled={running !== null}
+          className="flex items-center justify-center gap-1 py-1.5 rounded border border-border text-xs text-muted-foreground hover:border-primary hover:text-gold transition-colors disabled:opacity-40"
+        >
+          <Upload className="w-3 h-3" /> {labels ? labels.fileName : 'LABELS (COCO JSON / CSV)'}
+        </button>
+        <button
+          onClick={() => imageInputRef.current?.click()}
+          disabled={running !== null}
+          className="flex items-center justify-center gap-1 py-1.5 rounded border border-border text-xs text-muted-foreground hover:border-primary hover:text-gold transition-colors disabled:opacity-40"
+        >
+          <Images className="w-3 h-3" /> {files.length > 0 ? `${files.length} IMAGES` : 'IMAGES'}
+        </button>
+        <input ref={labelInputRef} type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={handleLabels} />
+        <input ref={imageInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleImages} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 items-end">
+        <div>
+          <label className="text-xs text-muted-foreground mb-1 block">IoU threshold</label>
+          <input type="number" value={iouThreshold} step={0.05} min={0.05} max={0.95}
+            onChange={e => setIouThreshold(Number(e.target.value))} className={inputClass} />
+        </div>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground pb-2">
+          <input type="checkbox" checked={includeArtifacts} onChange={e => setIncludeArtifacts(e.target.checked)} />
+          Score artifacts (shadow, glare, seasoning)
+        </label>
+      </div>
+
+      {labels && (
+        <div className="text-xs text-muted-foreground">
+          {labels.images.length} labelled images · {labels.images.reduce((s, i) => s + i.annotations.length, 0)} labels ·{' '}
+          <span className="text-foreground">{labelled.length} matched to images</span>
+          {unmatchedLabels > 0 && files.length > 0 && <> · {unmatchedLabels} without an image file</>}
+        </div>
+      )}
+      {[...(labels?.warnings ?? []), ...runWarnings].slice(0, 8).map((w, i) => (
+        <div key={i} className="text-xs" style={{ color: 'hsl(42 95% 60%)' }}>⚠ {w}</div>
+      ))}
+      {error && <div className="text-xs text-destructive">{error}</div>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleRun}
+          disabled={running !== null || labelled.length === 0}
+          className="flex-1 flex items-center justify-center gap-2 py-2 rounded text-sm font-display font-semibold tracking-wider transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          style={{ background: 'var(--gradient-gold)', color: 'hsl(220 20% 7%)' }}
+        >
+          {running
+            ? <><Loader2 className="w-4 h-4 animate-spin" /> EVALUATING {running.done}/{running.total}</>
+            : <><Play className="w-4 h-4" /> RUN EVALUATION</>}
+        </button>
+        {report && (
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-1 text-xs px-3 py-1 rounded border border-primary text-gold hover:bg-primary/10 transition-colors"
+          >
+            <Download className="w-3 h-3" /> Export JSON
+          </button>
+        )}
+      </div>
+
+      {report && (
+        <div className="flex flex-col gap-4">
+          {/* Overall */}
+          <div className="grid grid-cols-4 gap-2">
+            {([['Precision', report.overall.precision], ['Recall', report.overall.recall], ['F1', report.overall.f1]] as const).map(([label, v]) => (
+              <div key={label} className="industrial-card px-3 py-2 text-center">
+                <div className="font-mono-custom text-lg" style={{ color: scoreColor(v) }}>{pct(v)}</div>
+                <div className="text-xs text-muted-foreground">{label}</div>
+              </div>
+            ))}
+            <div className="industrial-card px-3 py-2 text-center">
+              <div className="font-mono-custom text-lg text-foreground">{report.imageCount}</div>
+              <div className="text-xs text-muted-foreground">{report.annotationCount} labels · {report.detectionCount} found</div>
+            </div>
+          </div>
+
+          {/* Per type */}
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground border-b border-border">
+                <th className="text-left py-1 font-display">TYPE</th>
+                <th className="text-right font-display">TP</th>
+                <th className="text-right font-display">FP</th>
+                <th className="text-right font-display">FN</th>
+                <th className="text-right font-display">PRECISION</th>
+                <th className="text-right font-display">RECALL</th>
+                <th className="text-right font-display">F1</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono-custom">
+              {report.perType.map(m => (
+                <tr key={m.type} className="border-b border-border/40">
+                  <td className="py-1 font-display font-semibold text-foreground">{typeLabel(m.type)}</td>
+                  <td className="text-right">{m.tp}</td>
+                  <td className="text-right">{m.fp}</td>
+                  <td className="text-right">{m.fn}</td>
+                  <td className="text-right" style={{ color: scoreColor(m.precision) }}>{pct(m.precision)}</td>
+                  <td className="text-right" style={{ color: scoreColor(m.recall) }}>{pct(m.recall)}</td>
+                  <td className="text-right" style={{ color: scoreColor(m.f1) }}>{pct(m.f1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Confusion matrix */}
+          <div className="overflow-x-auto">
+            <div className="text-xs text-muted-foreground mb-1">Confusion matrix — rows: labelled, columns: detected</div>
+            <table className="text-xs font-mono-custom">
+              <thead>
+                <tr>
+                  <th />
+                  {report.confusion.labels.map(l => (
+                    <th key={l} className="px-1.5 py-1 font-display text-muted-foreground">{typeLabel(l)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report.confusion.counts.map((row, r) => (
+                  <tr key={r}>
+                    <th className="pr-2 text-right font-display text-muted-foreground">{typeLabel(report.confusion.labels[r])}</th>
+                    {row.map((n, c) => {
+                      const hit = r === c && report.confusion.labels[r] !== 'background';
+                      return (
+                        <td key={c} className="px-1.5 py-1 text-center"
+                          style={{
+                            background: n === 0 ? 'transparent' : hit ? 'hsl(142 70% 45% / 0.2)' : 'hsl(0 75% 55% / 0.15)',
+                            color: n === 0 ? 'hsl(215 12% 35%)' : 'hsl(var(--foreground))',
+                          }}>
+                          {n}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Examples */}
+          {report.examples.length > 0 && (
+            <div className="flex flex-col gap-1 max-h-60 overflow-y-auto">
+              {report.examples.map((ex, i) => {
+                const kind = KIND_LABELS[ex.kind];
+                return (
+                  <div key={i} className="flex items-center gap-2 text-xs rounded px-2 py-1"
+                    style={{ background: 'hsl(220 15% 9%)', border: '1px solid hsl(220 15% 16%)' }}>
+                    <span className="font-display font-semibold w-28 flex-shrink-0" style={{ color: kind.color }}>{kind.label}</span>
+                    <span className="font-display text-foreground">
+                      {typeLabel(ex.type)}{ex.detectedType && ` → ${typeLabel(ex.detectedType)}`}
+                    </span>
+                    <span className="text-muted-foreground truncate flex-1">{ex.imageName}</span>
+                    <span className="font-mono-custom text-muted-foreground">
+                      {Math.round(ex.bbox.x)},{Math.round(ex.bbox.y)} {Math.round(ex.bbox.width)}×{Math.round(ex.bbox.height)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
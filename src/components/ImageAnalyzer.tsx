@@ -1,13 +1,33 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Upload, Camera, ZapOff, Loader2 } from 'lucide-react';
-import { analyzeImage, type AnalysisResult, type DefectRegion } from '@/lib/colorAnalysis';
+import { Upload, Camera, ZapOff, Loader2, X, Crosshair, AlertTriangle, Pencil, Trash2, Save } from 'lucide-react';
+import { getPQIStatus, rescoreDefects, type AnalysisProgress, type AnalysisResult, type DefectRegion } from '@/lib/colorAnalysis';
+import type { BoundingBox, FryInstance, Point } from '@/lib/segmentation';
+import type { ChartCorners, ColorCheckerSource, ColorCorrectionReport } from '@/lib/colorCorrection';
+import { analyzeImageInWorker, isAbortError } from '@/lib/analysisWorker';
 import { DEFAULT_CALIBRATION, type CalibrationData } from '@/lib/calibration';
+import type { SpecProfile } from '@/lib/specProfiles';
+import type { AgtronModel } from '@/lib/agtronCalibration';
+import type { BackgroundModelOptions, ForegroundMask } from '@/lib/backgroundModel';
+import type { StripSugarEnds, SugarEndGrade } from '@/lib/sugarEnds';
+import type { StripMottling } from '@/lib/mottling';
+import { QUALITY_LEVEL_COLORS, type ImageQualityReport } from '@/lib/imageQuality';
+import { DEFECT_TYPES, type DefectType } from '@/lib/annotations';
+import {
+  createDefectReview, drawDefect, resizeDefect, retypeDefect,
+  type DefectEdit, type DefectReview,
+} from '@/lib/defectReview';
 
 interface ImageAnalyzerProps {
   onAnalysisComplete: (result: AnalysisResult, imageData: ImageData, imageSrc: string) => void;
   calibration: CalibrationData;
+  profile: SpecProfile;
+  agtronModel: AgtronModel | null;
+  background: BackgroundModelOptions;
   isAnalyzing: boolean;
   setIsAnalyzing: (v: boolean) => void;
+  onResultEdit?: (result: AnalysisResult) => void;  // live re-grade while defects are being corrected
+  onReviewSave?: (corrected: AnalysisResult, review: DefectReview) => void;
+  canSaveReview?: boolean;                           // false when the sample was not logged
 }
 
 const DEFECT_COLORS: Record<string, string> = {
@@ -16,19 +36,117 @@ const DEFECT_COLORS: Record<string, string> = {
   light: '#22aaff',
   mottled: '#ffcc00',
   sugar_end: '#ff88ff',
+  greening: '#44dd66',
   disease: '#cc44ff',
+  hollow_heart: '#8899ff',
+  glare: '#e6f4ff',
+  seasoning: '#9be28c',
 };
 
-export function ImageAnalyzer({ onAnalysisComplete, calibration, isAnalyzing, setIsAnalyzing }: ImageAnalyzerProps) {
+const SUGAR_END_LABELS: Record<SugarEndGrade, string> = { none: '', slight: 'SE1', moderate: 'SE2', severe: 'SE3' };
+
+// Corner order expected by the CCM fit
+const CHART_CORNER_HINTS = ['dark skin', 'bluish green', 'black', 'white'];
+
+const HANDLE_PX = 6;      // resize-handle grab radius, screen px
+const MIN_DRAWN_PX = 3;   // smaller drags are clicks, not boxes
+
+const regionBox = (d: DefectRegion): BoundingBox => ({ x: d.x, y: d.y, width: d.width, height: d.height });
+const boxCorners = (b: BoundingBox): Point[] => [
+  { x: b.x, y: b.y }, { x: b.x + b.width, y: b.y }, { x: b.x + b.width, y: b.y + b.height }, { x: b.x, y: b.y + b.height },
+];
+const boxFromPoints = (a: Point, b: Point): BoundingBox => ({
+  x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(a.x - b.x), height: Math.abs(a.y - b.y),
+});
+
+/** Pointer position in canvas pixels, and canvas pixels per screen pixel */
+function canvasPoint(e: React.MouseEvent<HTMLCanvasElement>): { point: Point; pxPerScreen: number } {
+  const canvas = e.currentTarget;
+  const rect = canvas.getBoundingClientRect();
+  return {
+    point: {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    },
+    pxPerScreen: canvas.width / rect.width,
+  };
+}
+
+/** What the review edits are graded with — fixed at analysis time */
+interface ReviewContext {
+  automatic: AnalysisResult;
+  ppm: number;
+  agtronModel: AgtronModel | null;
+  scale: number; // working px / file px
+}
+
+export function ImageAnalyzer({
+  onAnalysisComplete, calibration, profile, agtronModel, background, isAnalyzing, setIsAnalyzing,
+  onResultEdit, onReviewSave, canSaveReview = true,
+}: ImageAnalyzerProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
   const [imageSrc, setImageSrc] = useState<string | null>(null);
   const [defects, setDefects] = useState<DefectRegion[]>([]);
+  const [strips, setStrips] = useState<FryInstance[]>([]);
+  const [sugarEnds, setSugarEnds] = useState<StripSugarEnds[]>([]);
+  const [stripMottling, setStripMottling] = useState<StripMottling[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [showOverlay, setShowOverlay] = useState(true);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [chart, setChart] = useState<ColorCorrectionReport | null>(null);
+  const [chartClicks, setChartClicks] = useState<Point[] | null>(null); // non-null while marking
+  const [foreground, setForeground] = useState<ForegroundMask | null>(null);
+  const [quality, setQuality] = useState<ImageQualityReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showMask, setShowMask] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const lastFileRef = useRef<File | null>(null);
+  // Reviewer corrections
+  const [editing, setEditing] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [drawType, setDrawType] = useState<DefectType>('dark');
+  const [dragBox, setDragBox] = useState<BoundingBox | null>(null);
+  const [edits, setEdits] = useState<DefectEdit[]>([]);
+  const [corrected, setCorrected] = useState<AnalysisResult | null>(null);
+  const [reviewer, setReviewer] = useState('');
+  const reviewRef = useRef<ReviewContext | null>(null);
+  const savedRef = useRef<{ defects: DefectRegion[]; edits: DefectEdit[]; result: AnalysisResult } | null>(null);
+  const dragRef = useRef<{ anchor: Point; resizing: boolean } | null>(null);
+
+  // Abort any in-flight analysis when the component unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const cancelAnalysis = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsAnalyzing(false);
+    setProgress(null);
+    setImageSrc(null);
+    setDefects([]);
+    setStrips([]);
+    setSugarEnds([]);
+    setStripMottling([]);
+    setChart(null);
+    setChartClicks(null);
+    setForeground(null);
+    setQuality(null);
+    setError(null);
+    setEditing(false);
+    setSelected(null);
+    setEdits([]);
+    setCorrected(null);
+    reviewRef.current = null;
+    savedRef.current = null;
+  }, [setIsAnalyzing]);
+
+  const processImage = useCallback(async (file: File, colorChecker: ColorCheckerSource = 'auto') => {
+    abortRef.current?.abort();
+    lastFileRef.current = file;
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-  const processImage = useCallback(async (file: File) => {
     const url = URL.createObjectURL(file);
     setImageSrc(url);
 
@@ -46,67 +164,300 @@ export function ImageAnalyzer({ onAnalysisComplete, calibration, isAnalyzing, se
       ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
 
       const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      if (controller.signal.aborted) return;
 
       setIsAnalyzing(true);
+      setProgress(null);
+      setError(null);
       try {
-        // Small delay for UI to update
-        await new Promise(r => setTimeout(r, 50));
-        const result = await analyzeImage(imageData, calibration.ppm);
+        const { result, imageData: analyzed } = await analyzeImageInWorker(imageData, calibration.ppm, {
+          profile,
+          agtronModel,
+          background,
+          colorChecker,
+          onProgress: setProgress,
+          signal: controller.signal,
+        });
         setDefects(result.defects);
-        onAnalysisComplete(result, imageData, url);
+        setStrips(result.strips);
+        setSugarEnds(result.sugarEnds);
+        setStripMottling(result.stripMottling);
+        setChart(result.colorCorrection.method === 'ccm' ? result.colorCorrection : null);
+        setForeground(result.foreground);
+        setQuality(result.quality);
+        setEditing(false);
+        setSelected(null);
+        setEdits([]);
+        setCorrected(result);
+        reviewRef.current = { automatic: result, ppm: calibration.ppm, agtronModel, scale };
+        savedRef.current = { defects: result.defects, edits: [], result };
+        onAnalysisComplete(result, analyzed, url);
+      } catch (err) {
+        if (!isAbortError(err)) setError(err instanceof Error ? err.message : String(err));
       } finally {
-        setIsAnalyzing(false);
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setIsAnalyzing(false);
+          setProgress(null);
+        }
       }
     };
+    img.onerror = () => {
+      if (abortRef.current === controller) setError(`Could not decode ${file.name}`);
+    };
     img.src = url;
-  }, [calibration.ppm, onAnalysisComplete, setIsAnalyzing]);
+  }, [calibration.ppm, profile, agtronModel, background, onAnalysisComplete, setIsAnalyzing]);
 
   // Draw defect overlay
   useEffect(() => {
     const overlay = overlayCanvasRef.current;
     const main = canvasRef.current;
-    if (!overlay || !main || defects.length === 0) return;
+    if (!overlay || !main || (defects.length === 0 && strips.length === 0 && !chart && !chartClicks && !foreground && !editing)) return;
 
     overlay.width = main.width;
     overlay.height = main.height;
     const ctx = overlay.getContext('2d')!;
     ctx.clearRect(0, 0, overlay.width, overlay.height);
 
+    // Background-model mask: tint everything that is not fry
+    if (showMask && foreground && foreground.data.length === overlay.width * overlay.height) {
+      const tint = ctx.createImageData(overlay.width, overlay.height);
+      for (let i = 0; i < foreground.data.length; i++) {
+        if (foreground.data[i]) continue;
+        tint.data[i * 4] = 255; tint.data[i * 4 + 1] = 0; tint.data[i * 4 + 2] = 200; tint.data[i * 4 + 3] = 140;
+      }
+      ctx.putImageData(tint, 0, 0);
+    }
+
+    // Corners being marked for the colour checker
+    if (chartClicks) {
+      ctx.fillStyle = '#00e5ff';
+      ctx.font = 'bold 9px monospace';
+      chartClicks.forEach((p, i) => {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 3, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillText(`${i + 1}`, p.x + 5, p.y - 5);
+      });
+    }
+
     if (!showOverlay) return;
 
+    // Colour checker used for the CCM
+    if (chart?.corners) {
+      ctx.strokeStyle = '#00e5ff';
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      chart.corners.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.closePath();
+      ctx.stroke();
+      ctx.fillStyle = '#00e5ff';
+      ctx.font = '9px monospace';
+      ctx.fillText(`CCM ΔE ${chart.meanDeltaE.toFixed(1)}`, chart.corners[0].x + 2, chart.corners[0].y - 3);
+    }
+
+    // Segmented strips: outline + principal axis
+    ctx.strokeStyle = 'rgba(0, 255, 100, 0.55)';
+    ctx.fillStyle = 'rgba(0, 255, 100, 0.8)';
+    ctx.lineWidth = 1;
+    ctx.shadowBlur = 0;
+    ctx.font = '9px monospace';
+    for (const strip of strips) {
+      if (strip.contour.length < 2) continue;
+      ctx.beginPath();
+      ctx.moveTo(strip.contour[0].x + 0.5, strip.contour[0].y + 0.5);
+      for (const p of strip.contour) ctx.lineTo(p.x + 0.5, p.y + 0.5);
+      ctx.closePath();
+      ctx.stroke();
+
+      const { head, tail, centroid } = strip.axis;
+      ctx.setLineDash([3, 3]);
+      ctx.beginPath();
+      ctx.moveTo(head.x, head.y);
+      ctx.lineTo(tail.x, tail.y);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillText(`#${strip.id}`, centroid.x + 3, centroid.y - 3);
+
+      // Mottled share of the strip's length (1/3 rule)
+      const mottling = stripMottling.find(m => m.stripId === strip.id);
+      if (mottling && mottling.coverage > 0) {
+        ctx.fillStyle = mottling.mottled ? DEFECT_COLORS.mottled : 'rgba(0, 255, 100, 0.8)';
+        ctx.fillText(`M ${(mottling.coverage * 100).toFixed(0)}%`, centroid.x + 3, centroid.y + 8);
+        ctx.fillStyle = 'rgba(0, 255, 100, 0.8)';
+      }
+    }
+
+    // Graded sugar ends at the strip tips
+    ctx.fillStyle = DEFECT_COLORS.sugar_end;
+    ctx.font = 'bold 9px monospace';
+    for (const report of sugarEnds) {
+      for (const end of [report.head, report.tail]) {
+        if (end.grade === 'none') continue;
+        ctx.beginPath();
+        ctx.arc(end.point.x, end.point.y, 3, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillText(SUGAR_END_LABELS[end.grade], end.point.x + 4, end.point.y + 10);
+      }
+    }
+
     for (const defect of defects) {
       const color = DEFECT_COLORS[defect.type] || '#ff0000';
       ctx.strokeStyle = color;
-      ctx.lineWidth = 2;
+      ctx.fillStyle = color + '33';
+      ctx.lineWidth = 1.5;
       ctx.shadowBlur = 8;
       ctx.shadowColor = color;
-      ctx.strokeRect(defect.x, defect.y, defect.width, defect.height);
+
+      // True blob outline
+      const outline = defect.polygon.length >= 3 ? defect.polygon : defect.contour;
+      ctx.beginPath();
+      if (outline.length >= 3) {
+        ctx.moveTo(outline[0].x + 0.5, outline[0].y + 0.5);
+        for (const p of outline) ctx.lineTo(p.x + 0.5, p.y + 0.5);
+        ctx.closePath();
+      } else {
+        ctx.rect(defect.x, defect.y, defect.width, defect.height);
+      }
+      ctx.fill();
+      ctx.stroke();
 
       // Label
       ctx.fillStyle = color;
       ctx.font = 'bold 9px monospace';
       ctx.shadowBlur = 0;
-      const label = defect.type.toUpperCase().replace('_', ' ');
+      const label = defect.type.toUpperCase().replace('_', ' ')
+        + (defect.classifierProbability !== undefined ? ` ${Math.round(defect.classifierProbability * 100)}%` : '');
       ctx.fillText(label, defect.x + 2, defect.y - 2);
     }
 
-    // Draw fry analysis grid
-    ctx.strokeStyle = 'rgba(0, 255, 100, 0.15)';
-    ctx.lineWidth = 0.5;
-    ctx.shadowBlur = 0;
-    for (let x = 0; x < main.width; x += 20) {
-      ctx.beginPath();
-      ctx.moveTo(x, 0);
-      ctx.lineTo(x, main.height);
-      ctx.stroke();
+    // Selected region with its resize handles, and the box being drawn / resized
+    if (editing) {
+      ctx.shadowBlur = 0;
+      const sel = selected !== null ? defects[selected] : undefined;
+      if (sel && !dragBox) {
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([4, 3]);
+        ctx.strokeRect(sel.x, sel.y, sel.width, sel.height);
+        ctx.setLineDash([]);
+        ctx.fillStyle = '#ffffff';
+        for (const c of boxCorners(regionBox(sel))) ctx.fillRect(c.x - 2.5, c.y - 2.5, 5, 5);
+      }
+      if (dragBox) {
+        ctx.strokeStyle = DEFECT_COLORS[sel && dragRef.current?.resizing ? sel.type : drawType] ?? '#ffffff';
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([4, 3]);
+        ctx.strokeRect(dragBox.x, dragBox.y, dragBox.width, dragBox.height);
+        ctx.setLineDash([]);
+      }
     }
-    for (let y = 0; y < main.height; y += 20) {
-      ctx.beginPath();
-      ctx.moveTo(0, y);
-      ctx.lineTo(main.width, y);
-      ctx.stroke();
+  }, [defects, strips, sugarEnds, stripMottling, chart, chartClicks, foreground, showMask, showOverlay, editing, selected, dragBox, drawType]);
+
+  // ─── Reviewer corrections ─────────────────────────────────────
+
+  /** Apply one edit and re-grade through the engine's scoring stage */
+  const applyEdit = (next: DefectRegion[], edit: DefectEdit) => {
+    const ctx = reviewRef.current;
+    if (!ctx) return;
+    const rescored = rescoreDefects(ctx.automatic, next, { agtronModel: ctx.agtronModel });
+    setDefects(next);
+    setCorrected(rescored);
+    setEdits(prev => [...prev, edit]);
+    onResultEdit?.(rescored);
+  };
+
+  const deleteSelected = () => {
+    if (selected === null) return;
+    const d = defects[selected];
+    setSelected(null);
+    applyEdit(defects.filter((_, i) => i !== selected), { action: 'deleted', type: d.type, previousType: null, bbox: regionBox(d) });
+  };
+
+  const retypeSelected = (type: DefectType) => {
+    const ctx = reviewRef.current;
+    if (selected === null || !ctx || defects[selected].type === type) return;
+    const d = defects[selected];
+    const next = retypeDefect(d, type, ctx.automatic, ctx.ppm);
+    applyEdit(defects.map((x, i) => (i === selected ? next : x)), { action: 'retyped', type, previousType: d.type, bbox: regionBox(d) });
+  };
+
+  const handleEditMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!editing) return;
+    const { point, pxPerScreen } = canvasPoint(e);
+    if (selected !== null) {
+      const corners = boxCorners(regionBox(defects[selected]));
+      const corner = corners.findIndex(c => Math.hypot(c.x - point.x, c.y - point.y) <= HANDLE_PX * pxPerScreen);
+      if (corner >= 0) {
+        dragRef.current = { anchor: corners[(corner + 2) % 4], resizing: true };
+        setDragBox(regionBox(defects[selected]));
+        return;
+      }
     }
-  }, [defects, showOverlay]);
+    // Smallest region under the pointer wins, so nested blobs stay reachable
+    const hit = defects
+      .map((d, i) => ({ d, i }))
+      .filter(({ d }) => point.x >= d.x && point.x < d.x + d.width && point.y >= d.y && point.y < d.y + d.height)
+      .sort((a, b) => a.d.area - b.d.area)[0];
+    if (hit) { setSelected(hit.i); return; }
+    setSelected(null);
+    dragRef.current = { anchor: point, resizing: false };
+    setDragBox({ ...point, width: 0, height: 0 });
+  };
+
+  const handleEditMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (dragRef.current) setDragBox(boxFromPoints(dragRef.current.anchor, canvasPoint(e).point));
+  };
+
+  const handleEditMouseUp = () => {
+    const drag = dragRef.current, ctx = reviewRef.current;
+    dragRef.current = null;
+    setDragBox(null);
+    if (!drag || !dragBox || !ctx || dragBox.width < MIN_DRAWN_PX || dragBox.height < MIN_DRAWN_PX) return;
+    if (drag.resizing && selected !== null) {
+      const d = defects[selected];
+      const next = resizeDefect(d, dragBox, ctx.automatic, ctx.ppm);
+      applyEdit(defects.map((x, i) => (i === selected ? next : x)), { action: 'resized', type: d.type, previousType: null, bbox: regionBox(next) });
+      return;
+    }
+    const added = drawDefect(drawType, dragBox, ctx.automatic, ctx.ppm);
+    setSelected(defects.length);
+    applyEdit([...defects, added], { action: 'added', type: drawType, previousType: null, bbox: regionBox(added) });
+  };
+
+  const saveReview = () => {
+    const ctx = reviewRef.current, main = canvasRef.current;
+    if (!ctx || !corrected || !main || !onReviewSave) return;
+    const review = createDefectReview(ctx.automatic, corrected, edits, reviewer, {
+      name: lastFileRef.current?.name ?? 'sample', width: main.width, height: main.height, scale: ctx.scale,
+    });
+    savedRef.current = { defects, edits, result: corrected };
+    onReviewSave(corrected, review);
+    setEditing(false);
+    setSelected(null);
+  };
+
+  /** Back to the last saved review (or the automatic result) */
+  const discardEdits = () => {
+    const saved = savedRef.current;
+    if (saved) {
+      setDefects(saved.defects);
+      setEdits(saved.edits);
+      setCorrected(saved.result);
+      onResultEdit?.(saved.result);
+    }
+    setEditing(false);
+    setSelected(null);
+  };
+
+  const handleChartClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!chartClicks) return;
+    const { point } = canvasPoint(e);
+    const clicks = [...chartClicks, point];
+    if (clicks.length < 4) { setChartClicks(clicks); return; }
+    setChartClicks(null);
+    if (lastFileRef.current) processImage(lastFileRef.current, clicks as ChartCorners);
+  };
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -174,7 +525,37 @@ export function ImageAnalyzer({ onAnalysisComplete, calibration, isAnalyzing, se
                 {showOverlay ? 'OVERLAY ON' : 'OVERLAY OFF'}
               </button>
               <button
-                onClick={() => { setImageSrc(null); setDefects([]); }}
+                onClick={() => setShowMask(v => !v)}
+                disabled={!foreground}
+                title="Show the background-model mask (tinted = background)"
+                className={`text-xs px-3 py-1 rounded border transition-colors ${
+                  showMask ? 'border-primary text-gold bg-primary/10' : 'border-border text-muted-foreground'
+                }`}
+              >
+                {showMask ? 'MASK ON' : 'MASK OFF'}
+              </button>
+              {!editing && (
+                <button
+                  onClick={() => { setEditing(true); setShowOverlay(true); setChartClicks(null); }}
+                  disabled={isAnalyzing || !reviewRef.current}
+                  title="Correct the detected defects: delete, retype, resize or draw regions"
+                  className="flex items-center gap-1 text-xs px-3 py-1 rounded border border-border text-muted-foreground transition-colors hover:border-primary hover:text-gold disabled:opacity-40"
+                >
+                  <Pencil className="w-3 h-3" /> {edits.length > 0 ? 'EDIT REVIEW' : 'EDIT DEFECTS'}
+                </button>
+              )}
+              <button
+                onClick={() => setChartClicks(c => (c ? null : []))}
+                disabled={isAnalyzing || editing}
+                title="Mark the colour checker corners for the colour-correction matrix"
+                className={`flex items-center gap-1 text-xs px-3 py-1 rounded border transition-colors ${
+                  chartClicks ? 'border-primary text-gold bg-primary/10' : 'border-border text-muted-foreground'
+                }`}
+              >
+                <Crosshair className="w-3 h-3" /> {chartClicks ? 'CANCEL MARK' : 'MARK CHART'}
+              </button>
+              <button
+                onClick={cancelAnalysis}
                 className="text-xs px-3 py-1 rounded border border-border text-muted-foreground hover:border-destructive hover:text-destructive transition-colors"
               >
                 CLEAR
@@ -182,20 +563,137 @@ export function ImageAnalyzer({ onAnalysisComplete, calibration, isAnalyzing, se
             </div>
           </div>
 
+          {error && (
+            <div className="text-xs rounded px-2 py-1.5 flex items-center gap-1 border border-destructive text-destructive">
+              <AlertTriangle className="w-3 h-3" /> ANALYSIS FAILED — {error}
+            </div>
+          )}
+
+          {/* Image quality gate */}
+          {quality && quality.level !== 'ok' && (
+            <div className="text-xs rounded px-2 py-1.5 flex flex-col gap-0.5"
+              style={{
+                background: QUALITY_LEVEL_COLORS[quality.level] + '1a',
+                border: `1px solid ${QUALITY_LEVEL_COLORS[quality.level]}`,
+                color: QUALITY_LEVEL_COLORS[quality.level],
+              }}>
+              <div className="flex items-center gap-1 font-display font-semibold tracking-wider">
+                <AlertTriangle className="w-3 h-3" />
+                {quality.level === 'blocking' ? 'CAPTURE REJECTED — NOT LOGGED, RETAKE THE PHOTO' : 'QUALITY WARNING — LOGGED WITH FLAG'}
+              </div>
+              {quality.checks.filter(c => c.level !== 'ok').map(c => (
+                <div key={c.id} style={{ color: QUALITY_LEVEL_COLORS[c.level] }}>
+                  {c.label}: {c.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {editing && corrected && reviewRef.current && (
+            <div className="text-xs rounded px-2 py-2 flex flex-col gap-2"
+              style={{ background: 'hsl(42 95% 52% / 0.08)', border: '1px solid hsl(42 95% 52% / 0.3)' }}>
+              <div className="flex items-center gap-2">
+                <span className="font-display font-semibold tracking-wider text-gold">DEFECT REVIEW</span>
+                <span className="text-muted-foreground">Click a region to select · drag a corner to resize · drag on the image to draw</span>
+              </div>
+              <div className="flex items-center gap-2 flex-wrap">
+                <label className="flex items-center gap-1 text-muted-foreground">
+                  Draw
+                  <select value={drawType} onChange={e => setDrawType(e.target.value as DefectType)}
+                    className="px-1.5 py-0.5 rounded border border-border bg-background text-foreground">
+                    {DEFECT_TYPES.map(t => <option key={t} value={t}>{t.replace('_', ' ')}</option>)}
+                  </select>
+                </label>
+                {selected !== null && defects[selected] && (
+                  <>
+                    <label className="flex items-center gap-1 text-muted-foreground">
+                      Selected
+                      <select value={defects[selected].type} onChange={e => retypeSelected(e.target.value as DefectType)}
+                        className="px-1.5 py-0.5 rounded border border-border bg-background text-foreground">
+                        {DEFECT_TYPES.map(t => <option key={t} value={t}>{t.replace('_', ' ')}</option>)}
+                      </select>
+                    </label>
+                    <button
+                      onClick={deleteSelected}
+                      className="flex items-center gap-1 px-2 py-0.5 rounded border border-border text-muted-foreground hover:border-destructive hover:text-destructive transition-colors"
+                    >
+                      <Trash2 className="w-3 h-3" /> DELETE
+                    </button>
+                  </>
+                )}
+                <span className="ml-auto font-mono-custom text-muted-foreground">
+                  PQI {reviewRef.current.automatic.pqi}% →{' '}
+                  <span style={{ color: getPQIStatus(corrected.pqi).color }}>{corrected.pqi}%</span>
+                  {' '}· {edits.length} edit{edits.length === 1 ? '' : 's'}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  value={reviewer}
+                  onChange={e => setReviewer(e.target.value)}
+                  placeholder="Reviewer name / ID"
+                  className="flex-1 rounded border border-border bg-input px-2 py-1 font-mono-custom text-foreground focus:border-primary outline-none"
+                />
+                <button
+                  onClick={saveReview}
+                  disabled={!reviewer.trim() || !canSaveReview}
+                  className="flex items-center gap-1 px-3 py-1 rounded font-display font-semibold tracking-wider disabled:opacity-40 disabled:cursor-not-allowed"
+                  style={{ background: 'var(--gradient-gold)', color: 'hsl(220 20% 7%)' }}
+                >
+                  <Save className="w-3 h-3" /> SAVE REVIEW
+                </button>
+                <button
+                  onClick={discardEdits}
+                  className="px-3 py-1 rounded border border-border text-muted-foreground hover:border-destructive hover:text-destructive transition-colors"
+                >
+                  DISCARD
+                </button>
+              </div>
+              {!canSaveReview && (
+                <div style={{ color: QUALITY_LEVEL_COLORS.blocking }}>This capture was not logged, so a review cannot be saved to the batch log.</div>
+              )}
+            </div>
+          )}
+
+          {chartClicks && (
+            <div className="text-xs rounded px-2 py-1"
+              style={{ background: 'hsl(190 90% 50% / 0.1)', border: '1px solid hsl(190 90% 50% / 0.3)', color: 'hsl(190 90% 65%)' }}>
+              Click the chart corner at the <span className="font-semibold">{CHART_CORNER_HINTS[chartClicks.length]}</span> patch
+              ({chartClicks.length + 1}/4)
+            </div>
+          )}
+
           <div className="relative rounded-lg overflow-hidden" style={{ background: '#111' }}>
             {isAnalyzing && (
               <div className="absolute inset-0 z-20 flex flex-col items-center justify-center scan-line"
                 style={{ background: 'rgba(0,0,0,0.7)' }}>
                 <Loader2 className="w-8 h-8 animate-spin text-gold mb-3" />
                 <p className="font-display text-sm font-semibold text-gold">ANALYZING SAMPLE...</p>
-                <p className="text-xs text-muted-foreground mt-1">Running CV pipeline</p>
+                <p className="text-xs text-muted-foreground mt-1">{progress?.label ?? 'Running CV pipeline'}</p>
+                <div className="w-40 h-1 rounded-full overflow-hidden mt-2" style={{ background: 'hsl(220 15% 15%)' }}>
+                  <div
+                    className="h-full rounded-full transition-all duration-200"
+                    style={{ width: `${(progress?.progress ?? 0) * 100}%`, background: 'var(--gradient-gold)' }}
+                  />
+                </div>
+                <button
+                  onClick={cancelAnalysis}
+                  className="flex items-center gap-1 text-xs px-3 py-1 mt-3 rounded border border-border text-muted-foreground hover:border-destructive hover:text-destructive transition-colors"
+                >
+                  <X className="w-3 h-3" /> CANCEL
+                </button>
               </div>
             )}
             <canvas ref={canvasRef} className="w-full block" />
             <canvas
               ref={overlayCanvasRef}
               className="absolute inset-0 w-full h-full"
-              style={{ pointerEvents: 'none' }}
+              style={{ pointerEvents: chartClicks || editing ? 'auto' : 'none', cursor: chartClicks || editing ? 'crosshair' : undefined }}
+              onClick={handleChartClick}
+              onMouseDown={handleEditMouseDown}
+              onMouseMove={handleEditMouseMove}
+              onMouseUp={handleEditMouseUp}
+              onMouseLeave={handleEditMouseUp}
             />
           </div>
 
@@ -0,0 +1,104 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import type { AnalysisResult } from '@/lib/colorAnalysis';
+import { MM_PER_INCH, type LengthBin } from '@/lib/sizeGrading';
+
+interface LengthDistributionProps {
+  result: AnalysisResult;
+  calibrated: boolean;
+}
+
+const SPEC_STYLE = {
+  pass: { color: 'hsl(142 70% 45%)', bg: 'hsl(142 70% 45% / 0.1)', border: 'hsl(142 70% 45% / 0.3)' },
+  fail: { color: 'hsl(0 75% 55%)', bg: 'hsl(0 75% 55% / 0.1)', border: 'hsl(0 75% 55% / 0.3)' },
+};
+
+const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: LengthBin }[] }) => {
+  if (active && payload && payload.length) {
+    const bin = payload[0].payload;
+    return (
+      <div className="industrial-card px-3 py-2 text-xs">
+        <p className="font-display font-semibold text-gold">
+          {bin.fromIn.toFixed(1)}"–{bin.toIn.toFixed(1)}" ({bin.fromMm.toFixed(0)}–{bin.toMm.toFixed(0)} mm)
+        </p>
+        <p className="text-foreground">{bin.count} strips · {bin.percent.toFixed(1)}%</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+export function LengthDistribution({ result, calibrated }: LengthDistributionProps) {
+  const dist = result.lengthDistribution;
+  const measured = dist.strips.length;
+  const overall = dist.pass ? SPEC_STYLE.pass : SPEC_STYLE.fail;
+
+  // Shortest spec threshold, for highlighting bars that count toward it
+  const minSpecIn = useMemo(
+    () => dist.buckets.reduce((m, b) => Math.min(m, b.minLengthIn), Infinity),
+    [dist.buckets],
+  );
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-display text-sm font-semibold text-foreground tracking-wider">STRIP LENGTH</h3>
+        <span
+          className="text-xs px-2 py-0.5 rounded font-display font-semibold"
+          style={{ color: overall.color, background: overall.bg }}
+        >
+          {dist.pass ? 'SPEC PASS' : 'SPEC FAIL'}
+        </span>
+      </div>
+
+      <div className="flex gap-3 text-xs text-muted-foreground">
+        <span>Measured: <span className="font-mono-custom text-gold">{measured}</span></span>
+        <span>Mean: <span className="font-mono-custom text-foreground">{dist.meanLengthMm.toFixed(0)} mm</span>
+          {' '}({(dist.meanLengthMm / MM_PER_INCH).toFixed(2)}")</span>
+        {dist.clippedStrips > 0 && <span>Edge-clipped: <span className="font-mono-custom">{dist.clippedStrips}</span></span>}
+      </div>
+
+      {!calibrated && (
+        <div className="text-xs rounded px-2 py-1"
+          style={{ background: 'hsl(42 95% 52% / 0.1)', border: '1px solid hsl(42 95% 52% / 0.3)', color: 'hsl(42 95% 65%)' }}>
+          Default PPM in use — calibrate for trustworthy lengths
+        </div>
+      )}
+
+      <div style={{ height: 120 }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={dist.histogram} margin={{ top: 4, right: 4, left: -20, bottom: 0 }}>
+            <XAxis
+              dataKey="fromIn"
+              tick={{ fontSize: 9, fill: 'hsl(215 12% 50%)' }}
+              tickFormatter={(v) => Number.isInteger(v) ? `${v}"` : ''}
+            />
+            <YAxis tick={{ fontSize: 9, fill: 'hsl(215 12% 50%)' }} />
+            <Tooltip content={<CustomTooltip />} />
+            <Bar dataKey="percent" radius={[1, 1, 0, 0]}>
+              {dist.histogram.map((bin, i) => (
+                <Cell key={`cell-${i}`} fill={bin.fromIn >= minSpecIn ? 'hsl(42 80% 50%)' : 'hsl(215 12% 40%)'} fillOpacity={0.8} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Spec buckets */}
+      <div className="flex flex-col gap-1">
+        {dist.buckets.map(b => {
+          const style = b.pass ? SPEC_STYLE.pass : SPEC_STYLE.fail;
+          return (
+            <div key={b.label} className="flex items-center gap-2 text-xs rounded px-2 py-1"
+              style={{ background: style.bg, border: `1px solid ${style.border}` }}>
+              <span className="font-display font-semibold text-foreground">{b.label}</span>
+              <span className="text-muted-foreground">min {b.minPercent}%</span>
+              <span className="ml-auto font-mono-custom" style={{ color: style.color }}>{b.percent.toFixed(0)}%</span>
+              <span className="font-mono-custom text-muted-foreground">({b.count})</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
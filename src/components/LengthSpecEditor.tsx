@@ -0,0 +1,86 @@
+import React from 'react';
+import { Plus, Trash2, RotateCcw, Ruler } from 'lucide-react';
+import { DEFAULT_LENGTH_SPECS, type LengthSpec } from '@/lib/sizeGrading';
+
+interface LengthSpecEditorProps {
+  specs: LengthSpec[];
+  onSpecsChange: (specs: LengthSpec[]) => void;
+}
+
+const inputClass = 'w-full rounded border border-border bg-input px-2 py-1.5 text-sm font-mono-custom text-foreground focus:border-primary outline-none';
+
+export function LengthSpecEditor({ specs, onSpecsChange }: LengthSpecEditorProps) {
+  const update = (index: number, patch: Partial<LengthSpec>) => {
+    onSpecsChange(specs.map((s, i) => {
+      if (i !== index) return s;
+      const next = { ...s, ...patch };
+      return { ...next, label: `≥ ${next.minLengthIn}"` };
+    }));
+  };
+
+  const addSpec = () => {
+    const longest = specs.reduce((m, s) => Math.max(m, s.minLengthIn), 1);
+    onSpecsChange([...specs, { label: `≥ ${longest + 1}"`, minLengthIn: longest + 1, minPercent: 10 }]);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2">
+        <Ruler className="w-4 h-4 text-gold" />
+        <h3 className="font-display text-sm font-semibold tracking-wider">LENGTH SPECIFICATION</h3>
+        <button
+          onClick={() => onSpecsChange(DEFAULT_LENGTH_SPECS)}
+          className="ml-auto px-2 py-1 rounded border border-border text-muted-foreground hover:text-foreground transition-colors"
+          title="Reset to default spec"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        Each bucket requires a minimum percentage of measured strips at or above the length.
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs text-muted-foreground">
+          <span>Min length (in)</span>
+          <span>Min strips (%)</span>
+          <span className="w-7" />
+        </div>
+        {specs.map((spec, i) => (
+          <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+            <input
+              type="number"
+              value={spec.minLengthIn}
+              onChange={e => update(i, { minLengthIn: Number(e.target.value) })}
+              className={inputClass}
+              min={0}
+              step={0.25}
+            />
+            <input
+              type="number"
+              value={spec.minPercent}
+              onChange={e => update(i, { minPercent: Number(e.target.value) })}
+              className={inputClass}
+              min={0}
+              max={100}
+            />
+            <button
+              onClick={() => onSpecsChange(specs.filter((_, j) => j !== i))}
+              className="w-7 h-7 flex items-center justify-center rounded border border-border text-muted-foreground hover:border-destructive hover:text-destructive transition-colors"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={addSpec}
+        className="flex items-center justify-center gap-1 py-1.5 rounded border border-border text-xs text-muted-foreground hover:border-primary hover:text-gold transition-colors"
+      >
+        <Plus className="w-3 h-3" /> ADD BUCKET
+      </button>
+    </div>
+  );
+}
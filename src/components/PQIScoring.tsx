@@ -3,6 +3,7 @@ import { AlertTriangle, CheckCircle, XCircle, TrendingDown } from 'lucide-react'
 import type { AnalysisResult } from '@/lib/colorAnalysis';
 import { getScoreColor, getScoreBg } from '@/lib/pqiEngine';
 import { getPQIStatus } from '@/lib/colorAnalysis';
+import { DISPOSITION_COLORS, formatSpecProfile } from '@/lib/specProfiles';
 
 function getMcdonaldsScoreLabel(score: number): string {
   const labels: Record<number, string> = {
@@ -138,7 +139,7 @@ export function PQIScoring({ result }: PQIScoringProps) {
               <XCircle className="w-4 h-4 text-destructive" />
             ) : hasFailure ? (
               <AlertTriangle className="w-4 h-4" style={{ color: 'hsl(25 90% 50%)' }} />
-            ) : result.pqi >= 75 ? (
+            ) : result.disposition === 'PASS' ? (
               <CheckCircle className="w-4 h-4" style={{ color: 'hsl(142 70% 45%)' }} />
             ) : (
               <TrendingDown className="w-4 h-4" style={{ color: 'hsl(42 95% 52%)' }} />
@@ -162,6 +163,12 @@ export function PQIScoring({ result }: PQIScoringProps) {
           <div className="text-xs text-muted-foreground mt-1">
             McDonald's Formula (Bi-Directional 9-pt)
           </div>
+          <div className="text-xs text-muted-foreground">
+            Spec {formatSpecProfile(result.specProfile)}:{' '}
+            <span className="font-display font-semibold" style={{ color: DISPOSITION_COLORS[result.disposition] }}>
+              {result.disposition}
+            </span>
+          </div>
 
           {/* Quick score overview */}
           <div className="flex gap-1.5 mt-1">
@@ -194,7 +201,7 @@ export function PQIScoring({ result }: PQIScoringProps) {
         <AttributeRow
           label="Color Variation / Mottling"
           score={result.mottlingScore}
-          sublabel="1/3 Rule Applied"
+          sublabel={`${result.stripMottling.filter(m => m.mottled).length}/${result.stripMottling.length} strips ≥ 1/3 mottled`}
         />
         <AttributeRow
           label="Appearance Defects"
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Save } from 'lucide-react';
+import type { AnalysisResult } from '@/lib/colorAnalysis';
+import { getScoreColor } from '@/lib/pqiEngine';
+import {
+  SENSORY_ATTRIBUTES, calculateFullPqi, computeCategoryScores, defaultSensoryScores,
+  type SensoryCategory, type SensoryScores,
+} from '@/lib/sensoryPanel';
+
+interface SensoryPanelFormProps {
+  result: AnalysisResult;
+  canSave: boolean;                           // false when the sample was not logged (blocked capture)
+  onSave: (scores: SensoryScores) => void;    // attaches the scores to the sample's batch record
+}
+
+const CATEGORY_LABELS: Record<SensoryCategory, string> = { texture: 'TEXTURE', aroma: 'AROMA / FLAVOUR' };
+
+function CategoryChip({ label, value }: { label: string; value: number | null }) {
+  return (
+    <div className="industrial-card px-3 py-2 text-center">
+      <div className="font-mono-custom text-lg text-gold">{value === null ? '—' : `${value}%`}</div>
+      <div className="text-xs text-muted-foreground">{label}</div>
+    </div>
+  );
+}
+
+export function SensoryPanelForm({ result, canSave, onSave }: SensoryPanelFormProps) {
+  // The parent remounts this form (key) for every new sample
+  const [scores, setScores] = useState<SensoryScores>(defaultSensoryScores);
+  const [saved, setSaved] = useState(false);
+  const categories = computeCategoryScores(result, scores);
+  const fullPqi = calculateFullPqi(categories);
+
+  const setScore = (name: string, value: number) => {
+    setScores(s => ({ ...s, [name]: value }));
+    setSaved(false);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {(['texture', 'aroma'] as const).map(category => (
+        <div key={category} className="flex flex-col gap-1.5">
+          <div className="text-xs text-muted-foreground font-display tracking-wider">{CATEGORY_LABELS[category]}</div>
+          {SENSORY_ATTRIBUTES.filter(a => a.category === category).map(a => {
+            const score = scores[a.name];
+            return (
+              <div key={a.name} className="flex items-center gap-2 text-xs">
+                <span className="w-28 text-foreground">{a.name}</span>
+                <span className="w-20 text-right text-muted-foreground truncate" title={`1 = ${a.low}`}>{a.low}</span>
+                <input
+                  type="range" min={1} max={9} step={1} value={score}
+                  onChange={e => setScore(a.name, Number(e.target.value))}
+                  className="flex-1 accent-primary"
+                />
+                <span className="w-20 text-muted-foreground truncate" title={`9 = ${a.high}`}>{a.high}</span>
+                <span className="w-5 text-center font-display font-bold" style={{ color: getScoreColor(score) }}>{score}</span>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+
+      <div className="grid grid-cols-4 gap-2">
+        <CategoryChip label="Appearance" value={categories.appearance} />
+        <CategoryChip label="Texture" value={categories.texture} />
+        <CategoryChip label="Aroma" value={categories.aroma} />
+        <CategoryChip label="Full PQI" value={fullPqi} />
+      </div>
+
+      <button
+        onClick={() => { onSave(scores); setSaved(true); }}
+        disabled={!canSave || saved}
+        className="flex items-center justify-center gap-1.5 py-2 rounded border border-primary text-sm text-gold hover:bg-primary/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        <Save className="w-3.5 h-3.5" /> {saved ? 'SAVED TO BATCH LOG' : 'SAVE TO BATCH LOG'}
+      </button>
+      {!canSave && (
+        <div className="text-xs text-muted-foreground">This capture was not logged — retake the photo to record panel scores.</div>
+      )}
+    </div>
+  );
+}
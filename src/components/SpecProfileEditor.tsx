@@ -0,0 +1,325 @@
+import React, { useRef, useState } from 'react';
+import { ClipboardList, Copy, Save, Plus, Trash2, Upload } from 'lucide-react';
+import { OPTIONAL_STAGES } from '@/lib/colorAnalysis';
+import { parseDefectClassifier } from '@/lib/defectClassifier';
+import { CUT_SIZES, type CutSize } from '@/lib/sizeGrading';
+import {
+  createSpecProfile, formatSpecProfile, reviseSpecProfile,
+  type DefectThresholds, type HueBand, type SeasoningSpec, type SpecProfile, type SugarEndSpec,
+} from '@/lib/specProfiles';
+import { LengthSpecEditor } from './LengthSpecEditor';
+
+interface SpecProfileEditorProps {
+  profiles: SpecProfile[];
+  activeProfile: SpecProfile;
+  onSelect: (id: string) => void;
+  onSave: (profile: SpecProfile) => void;  // replaces the profile with the same id
+  onCreate: (profile: SpecProfile) => void;
+}
+
+const inputClass = 'w-full rounded border border-border bg-input px-2 py-1.5 text-sm font-mono-custom text-foreground focus:border-primary outline-none';
+
+const THRESHOLD_FIELDS: { key: keyof DefectThresholds; label: string; step: number }[] = [
+  { key: 'burntMaxV', label: 'Burnt max V', step: 0.01 },
+  { key: 'burntMaxS', label: 'Burnt max S', step: 0.01 },
+  { key: 'darkMinVDrop', label: 'Dark min V drop', step: 0.01 },
+  { key: 'darkMinS', label: 'Dark min S', step: 0.01 },
+  { key: 'lightMinV', label: 'Light min V', step: 0.01 },
+  { key: 'lightMaxS', label: 'Light max S', step: 0.01 },
+  { key: 'mottledMinHueDiff', label: 'Mottled min Δhue (°)', step: 1 },
+  { key: 'mottledMinVDrop', label: 'Mottled min V drop', step: 0.01 },
+  { key: 'greeningMinHue', label: 'Greening from hue (°)', step: 1 },
+  { key: 'greeningMaxHue', label: 'Greening to hue (°)', step: 1 },
+  { key: 'greeningMinS', label: 'Greening min S', step: 0.01 },
+  { key: 'diseaseMinVDrop', label: 'Black spot min V drop', step: 0.01 },
+  { key: 'voidMaxDeltaE', label: 'Void max ΔE to bg.', step: 1 },
+  { key: 'minSeverity', label: 'Min blob severity', step: 0.01 },
+];
+
+const SUGAR_END_FIELDS: { key: keyof SugarEndSpec; label: string; step: number }[] = [
+  { key: 'endZoneMm', label: 'Tip zone (mm)', step: 1 },
+  { key: 'slightDropL', label: 'Slight ΔL*', step: 1 },
+  { key: 'moderateDropL', label: 'Moderate ΔL*', step: 1 },
+  { key: 'severeDropL', label: 'Severe ΔL*', step: 1 },
+];
+
+const SEASONING_FIELDS: { key: Exclude<keyof SeasoningSpec, 'color'>; label: string; step: number }[] = [
+  { key: 'minContrastL', label: 'Speck min ΔL*', step: 1 },
+  { key: 'maxSpeckMm2', label: 'Speck max (mm²)', step: 0.5 },
+  { key: 'saltMaxChroma', label: 'Salt max C*', step: 1 },
+  { key: 'toleranceDeltaE', label: 'Colour ΔE00 tol.', step: 1 },
+];
+
+// Paprika-style seasoning as the starting point when a colour is switched on
+const DEFAULT_SEASONING_LAB = { L: 45, a: 35, b: 40 };
+
+function NumField({ label, value, onChange, step = 1, min, max }: {
+  label: string; value: number; onChange: (v: number) => void; step?: number; min?: number; max?: number;
+}) {
+  return (
+    <div>
+      <label className="text-xs text-muted-foreground mb-1 block">{label}</label>
+      <input type="number" value={value} step={step} min={min} max={max}
+        onChange={e => onChange(Number(e.target.value))} className={inputClass} />
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="text-xs text-muted-foreground font-display tracking-wider">{title}</div>
+      {children}
+    </div>
+  );
+}
+
+export function SpecProfileEditor({ profiles, activeProfile, onSelect, onSave, onCreate }: SpecProfileEditorProps) {
+  // Draft edits; the parent remounts this editor (key) when the active profile or its version changes
+  const [draft, setDraft] = useState<SpecProfile>(activeProfile);
+  const [modelError, setModelError] = useState<string | null>(null);
+  const modelInputRef = useRef<HTMLInputElement>(null);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(activeProfile);
+
+  const set = <K extends keyof SpecProfile>(key: K, value: SpecProfile[K]) => setDraft(d => ({ ...d, [key]: value }));
+  const setThreshold = (key: keyof DefectThresholds, value: number) =>
+    set('defectThresholds', { ...draft.defectThresholds, [key]: value });
+  const setBand = (index: number, patch: Partial<HueBand>) =>
+    set('hueChart', draft.hueChart.map((b, i) => (i === index ? { ...b, ...patch } : b)));
+
+  const handleModelFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      set('defectClassifier', parseDefectClassifier(JSON.parse(await file.text())));
+      setModelError(null);
+    } catch (err) {
+      setModelError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSave = () => {
+    const { id: _id, version: _version, updatedAt: _updatedAt, ...changes } = draft;
+    onSave(reviseSpecProfile(activeProfile, changes));
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2">
+        <ClipboardList className="w-4 h-4 text-gold" />
+        <h3 className="font-display text-sm font-semibold tracking-wider">SPEC PROFILES</h3>
+        <select
+          value={activeProfile.id}
+          onChange={e => onSelect(e.target.value)}
+          className="ml-auto text-xs px-2 py-1 rounded border border-border bg-background text-muted-foreground"
+        >
+          {profiles.map(p => <option key={p.id} value={p.id}>{formatSpecProfile(p)}</option>)}
+        </select>
+        <button
+          onClick={() => onCreate(createSpecProfile(`${draft.name} copy`, draft))}
+          className="px-2 py-1 rounded border border-border text-muted-foreground hover:text-foreground transition-colors"
+          title="Duplicate as a new profile"
+        >
+          <Copy className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        Version {activeProfile.version} · updated {new Date(activeProfile.updatedAt).toLocaleString()}.
+        Saving creates a new version; logged samples keep the version they were graded with.
+      </div>
+
+      <Section title="IDENTITY">
+        <input value={draft.name} onChange={e => set('name', e.target.value)} className={inputClass} />
+      </Section>
+
+      <Section title="TARGET COLOUR (CIE Lab)">
+        <div className="grid grid-cols-3 gap-2">
+          <NumField label="L*" value={draft.targetLab.L} step={0.5} onChange={v => set('targetLab', { ...draft.targetLab, L: v })} />
+          <NumField label="a*" value={draft.targetLab.a} step={0.5} onChange={v => set('targetLab', { ...draft.targetLab, a: v })} />
+          <NumField label="b*" value={draft.targetLab.b} step={0.5} onChange={v => set('targetLab', { ...draft.targetLab, b: v })} />
+        </div>
+      </Section>
+
+      <Section title="DISPOSITION (PQI %)">
+        <div className="grid grid-cols-2 gap-2">
+          <NumField label="Pass at or above" value={draft.limits.passPqi} min={0} max={100}
+            onChange={v => set('limits', { ...draft.limits, passPqi: v })} />
+          <NumField label="Hold at or above" value={draft.limits.holdPqi} min={0} max={100}
+            onChange={v => set('limits', { ...draft.limits, holdPqi: v })} />
+        </div>
+      </Section>
+
+      <Section title="AGTRON / USDA">
+        <div className="grid grid-cols-2 gap-2">
+          <NumField label="Target Agtron min" value={draft.agtronTarget[0]}
+            onChange={v => set('agtronTarget', [v, draft.agtronTarget[1]])} />
+          <NumField label="Target Agtron max" value={draft.agtronTarget[1]}
+            onChange={v => set('agtronTarget', [draft.agtronTarget[0], v])} />
+        </div>
+        <div className="grid grid-cols-5 gap-1.5">
+          {draft.usdaBands.map((b, i) => (
+            <NumField key={i} label={`USDA ${b.usdaScore.toFixed(1)} <`} value={b.belowAgtron}
+              onChange={v => set('usdaBands', draft.usdaBands.map((x, j) => (j === i ? { ...x, belowAgtron: v } : x)))} />
+          ))}
+        </div>
+      </Section>
+
+      <Section title="HUE CHART">
+        <div className="text-xs text-muted-foreground">Bands are tried top to bottom; the first that matches grades the sample.</div>
+        <div className="grid grid-cols-[3rem_1fr_4rem_4rem_4rem_4rem_auto] gap-1.5 text-xs text-muted-foreground">
+          <span>Score</span><span>Label</span><span>From °</span><span>To °</span><span>S &gt;</span><span>S ≤</span><span className="w-7" />
+        </div>
+        {draft.hueChart.map((b, i) => (
+          <div key={i} className="grid grid-cols-[3rem_1fr_4rem_4rem_4rem_4rem_auto] gap-1.5 items-center">
+            <input type="number" value={b.score} min={1} max={9} className={inputClass}
+              onChange={e => setBand(i, { score: Number(e.target.value) })} />
+            <input value={b.label} className={inputClass} onChange={e => setBand(i, { label: e.target.value })} />
+            <input type="number" value={b.hsvHue[0]} className={inputClass}
+              onChange={e => setBand(i, { hsvHue: [Number(e.target.value), b.hsvHue[1]] })} />
+            <input type="number" value={b.hsvHue[1]} className={inputClass}
+              onChange={e => setBand(i, { hsvHue: [b.hsvHue[0], Number(e.target.value)] })} />
+            <input type="number" value={b.saturationAbove ?? ''} step={0.05} min={0} max={1} placeholder="—" className={inputClass}
+              onChange={e => setBand(i, { saturationAbove: e.target.value === '' ? undefined : Number(e.target.value) })} />
+            <input type="number" value={b.saturationAtMost ?? ''} step={0.05} min={0} max={1} placeholder="—" className={inputClass}
+              onChange={e => setBand(i, { saturationAtMost: e.target.value === '' ? undefined : Number(e.target.value) })} />
+            <button
+              onClick={() => set('hueChart', draft.hueChart.filter((_, j) => j !== i))}
+              className="w-7 h-7 flex items-center justify-center rounded border border-border text-muted-foreground hover:border-destructive hover:text-destructive transition-colors"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => set('hueChart', [...draft.hueChart, { score: 5, label: 'New band', hsvHue: [0, 0], description: '' }])}
+          className="flex items-center justify-center gap-1 py-1.5 rounded border border-border text-xs text-muted-foreground hover:border-primary hover:text-gold transition-colors"
+        >
+          <Plus className="w-3 h-3" /> ADD BAND
+        </button>
+      </Section>
+
+      <Section title="DEFECT THRESHOLDS (HSV)">
+        <div className="grid grid-cols-3 gap-2">
+          {THRESHOLD_FIELDS.map(f => (
+            <NumField key={f.key} label={f.label} value={draft.defectThresholds[f.key]} step={f.step}
+              onChange={v => setThreshold(f.key, v)} />
+          ))}
+        </div>
+      </Section>
+
+      <Section title="DEFECT TYPING">
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-foreground flex-1">
+            {draft.defectClassifier
+              ? `Trained classifier · ${draft.defectClassifier.classes.length} classes · ${draft.defectClassifier.sampleCount} regions · ${new Date(draft.defectClassifier.trainedAt).toLocaleDateString()}`
+              : 'HSV rules (dominant pixel class per blob)'}
+          </span>
+          <button
+            onClick={() => modelInputRef.current?.click()}
+            className="flex items-center gap-1 text-xs px-2 py-1 rounded border border-border text-muted-foreground hover:border-primary hover:text-gold transition-colors"
+          >
+            <Upload className="w-3 h-3" /> LOAD MODEL
+          </button>
+          {draft.defectClassifier && (
+            <button
+              onClick={() => set('defectClassifier', null)}
+              className="text-xs px-2 py-1 rounded border border-border text-muted-foreground hover:border-destructive hover:text-destructive transition-colors"
+            >
+              USE RULES
+            </button>
+          )}
+          <input ref={modelInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleModelFile} />
+        </div>
+        {modelError && <div className="text-xs text-destructive">{modelError}</div>}
+      </Section>
+
+      <Section title="SCORE CUT-OFFS">
+        <div className="grid grid-cols-3 gap-2">
+          {draft.scoreCutoffs.mottledStripShare.map((c, i) => (
+            <NumField key={i} label={`Mottled strips ≥ → ${i + 7}`} value={c} step={0.05} min={0} max={1}
+              onChange={v => set('scoreCutoffs', {
+                ...draft.scoreCutoffs,
+                mottledStripShare: draft.scoreCutoffs.mottledStripShare.map((x, j) => (j === i ? v : x)) as [number, number, number],
+              })} />
+          ))}
+        </div>
+        <div className="grid grid-cols-4 gap-2">
+          {draft.scoreCutoffs.defectPoints.map((c, i) => (
+            <NumField key={i} label={`Defect points > → ${i + 6}`} value={c} step={1} min={0}
+              onChange={v => set('scoreCutoffs', {
+                ...draft.scoreCutoffs,
+                defectPoints: draft.scoreCutoffs.defectPoints.map((x, j) => (j === i ? v : x)) as [number, number, number, number],
+              })} />
+          ))}
+        </div>
+      </Section>
+
+      <Section title="SUGAR ENDS (TIP vs BODY L*)">
+        <div className="grid grid-cols-4 gap-2">
+          {SUGAR_END_FIELDS.map(f => (
+            <NumField key={f.key} label={f.label} value={draft.sugarEnds[f.key]} step={f.step} min={0}
+              onChange={v => set('sugarEnds', { ...draft.sugarEnds, [f.key]: v })} />
+          ))}
+        </div>
+      </Section>
+
+      <Section title="SEASONING / SALT (ARTIFACTS)">
+        <div className="grid grid-cols-4 gap-2">
+          {SEASONING_FIELDS.map(f => (
+            <NumField key={f.key} label={f.label} value={draft.seasoning[f.key]} step={f.step} min={0}
+              onChange={v => set('seasoning', { ...draft.seasoning, [f.key]: v })} />
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <input type="checkbox" checked={draft.seasoning.color !== null}
+            onChange={e => set('seasoning', { ...draft.seasoning, color: e.target.checked ? DEFAULT_SEASONING_LAB : null })} />
+          Seasoned SKU (match a seasoning colour as well as salt)
+        </label>
+        {draft.seasoning.color && (
+          <div className="grid grid-cols-3 gap-2">
+            {(['L', 'a', 'b'] as const).map(k => (
+              <NumField key={k} label={`${k}*`} value={draft.seasoning.color![k]} step={0.5}
+                onChange={v => set('seasoning', { ...draft.seasoning, color: { ...draft.seasoning.color!, [k]: v } })} />
+            ))}
+          </div>
+        )}
+      </Section>
+
+      <Section title="CUT SIZE">
+        <select
+          value={draft.cutSize}
+          onChange={e => set('cutSize', e.target.value as CutSize)}
+          className="text-sm px-2 py-1.5 rounded border border-border bg-background text-foreground"
+        >
+          {(Object.keys(CUT_SIZES) as CutSize[]).map(c => <option key={c} value={c}>{CUT_SIZES[c].label}</option>)}
+        </select>
+      </Section>
+
+      <Section title="ANALYSIS STAGES">
+        <div className="grid grid-cols-2 gap-1">
+          {OPTIONAL_STAGES.map(s => (
+            <label key={s.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+              <input type="checkbox" checked={!draft.disabledStages.includes(s.id)}
+                onChange={e => set('disabledStages', e.target.checked
+                  ? draft.disabledStages.filter(id => id !== s.id)
+                  : [...draft.disabledStages, s.id])} />
+              {s.label}
+            </label>
+          ))}
+        </div>
+      </Section>
+
+      <LengthSpecEditor specs={draft.lengthSpecs} onSpecsChange={specs => set('lengthSpecs', specs)} />
+
+      <button
+        onClick={handleSave}
+        disabled={!dirty}
+        className="flex items-center justify-center gap-1.5 py-2 rounded border border-primary text-sm text-gold hover:bg-primary/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        <Save className="w-3.5 h-3.5" /> SAVE AS VERSION {activeProfile.version + 1}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SlidersHorizontal, Upload, Images, Loader2, Play, Download, Check, X } from 'lucide-react';
+import { imageBaseName, loadImageFile } from '@/lib/imageFile';
+import {
+  PANEL_ATTRIBUTES, parsePanelScoreCsv,
+  type AttributeAgreement, type PanelScoreImport, type PanelScores, type TuningResult,
+} from '@/lib/thresholdTuning';
+import { isAbortError, tuneThresholdsInWorker, type TuningJobProgress } from '@/lib/analysisWorker';
+import { downloadJSON } from '@/lib/pqiEngine';
+import type { AgtronModel } from '@/lib/agtronCalibration';
+import type { BackgroundModelOptions } from '@/lib/backgroundModel';
+import { formatSpecProfile, type SpecProfile } from '@/lib/specProfiles';
+
+interface TuningPanelProps {
+  profile: SpecProfile;
+  ppm: number;
+  agtronModel: AgtronModel | null;
+  background: BackgroundModelOptions;
+  onAdopt: (profile: SpecProfile) => void;
+}
+
+const pct = (v: number | null) => (v === null ? '—' : `${(v * 100).toFixed(0)}%`);
+const mae = (v: number | null) => (v === null ? '—' : v.toFixed(2));
+const deltaColor = (before: number | null, after: number | null, lowerIsBetter = false) => {
+  if (before === null || after === null || before === after) return 'hsl(var(--foreground))';
+  return (after < before) === lowerIsBetter ? 'hsl(142 70% 45%)' : 'hsl(0 75% 55%)';
+};
+const progressLabel = (p: TuningJobProgress) => (p.phase === 'preparing'
+  ? `PREPARING ${p.done + 1}/${p.total}`
+  : `ROUND ${p.round} · ${p.parameter.toUpperCase()} · ${p.evaluations} TRIED`);
+
+export function TuningPanel({ profile, ppm, agtronModel, background, onAdopt }: TuningPanelProps) {
+  const [panel, setPanel] = useState<(PanelScoreImport & { fileName: string }) | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [running, setRunning] = useState<string | null>(null);
+  const [result, setResult] = useState<TuningResult | null>(null);
+  const [adopted, setAdopted] = useState(false);
+  const [runWarnings, setRunWarnings] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const scoreInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Terminate a running search when the panel unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleScores = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPanel({ ...parsePanelScoreCsv(await file.text()), fileName: file.name });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleImages = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  const scored = panel
+    ? panel.images.flatMap(img => {
+      const file = files.find(f => imageBaseName(f.name) === imageBaseName(img.imageName));
+      return file ? [{ img, file }] : [];
+    })
+    : [];
+
+  const handleRun = async () => {
+    if (scored.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setResult(null);
+    setAdopted(false);
+    setRunWarnings([]);
+    const images: { imageName: string; panel: PanelScores; imageData: ImageData }[] = [];
+    const warnings: string[] = [];
+    try {
+      for (const [i, { img, file }] of scored.entries()) {
+        setRunning(`LOADING ${i + 1}/${scored.length}`);
+        try {
+          const { imageData } = await loadImageFile(file);
+          images.push({ imageName: img.imageName, panel: img.scores, imageData });
+        } catch (err) {
+          warnings.push(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+        if (controller.signal.aborted) return;
+      }
+      const output = await tuneThresholdsInWorker(images, ppm, {
+        profile, agtronModel, background,
+        signal: controller.signal,
+        onProgress: p => setRunning(progressLabel(p)),
+      });
+      setRunWarnings([...warnings, ...output.warnings]);
+      setResult(output.result);
+    } catch (err) {
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setRunning(null);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setRunning(null);
+  };
+
+  const handleExport = () => {
+    if (!result) return;
+    const now = new Date().toISOString().slice(0, 19).replace(/[:-]/g, '');
+    downloadJSON(result, `threshold_tuning_${now}.json`);
+  };
+
+  const unmatchedScores = panel ? panel.images.length - scored.length : 0;
+  const row = (before: AttributeAgreement, after: AttributeAgreement) => {
+    const label = PANEL_ATTRIBUTES.find(a => a.id === before.attribute)!.label;
+    return (
+      <tr key={before.attribute} className="border-b border-border/40">
+        <td className="py-1 font-display font-semibold text-foreground">{label.toUpperCase()}</td>
+        <td className="text-right">{before.count}</td>
+        <td className="text-right">
+          {pct(before.exact)} → <span style={{ color: deltaColor(before.exact, after.exact) }}>{pct(after.exact)}</span>
+        </td>
+        <td className="text-right">
+          {pct(before.withinOne)} → <span style={{ color: deltaColor(before.withinOne, after.withinOne) }}>{pct(after.withinOne)}</span>
+        </td>
+        <td className="text-right">
+          {mae(before.meanAbsError)} → <span style={{ color: deltaColor(before.meanAbsError, after.meanAbsError, true) }}>{mae(after.meanAbsError)}</span>
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2">
+        <SlidersHorizontal className="w-4 h-4 text-gold" />
+        <h3 className="font-display text-sm font-semibold tracking-wider">THRESHOLD TUNING</h3>
+        <span className="ml-auto text-xs text-muted-foreground">Panel scores vs {formatSpecProfile(profile)} · coordinate search</span>
+      </div>
+
+      {/* Inputs */}
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => scoreInputRef.current?.click()}
+          disabled={running !== null}
+          className="flex items-center justify-center gap-1 py-1.5 rounded border border-border text-xs text-muted-foreground hover:border-primary hover:text-gold transition-colors disabled:opacity-40"
+        >
+          <Upload className="w-3 h-3" /> {panel ? panel.fileName : 'PANEL SCORES (CSV)'}
+        </button>
+        <button
+          onClick={() => imageInputRef.current?.click()}
+          disabled={running !== null}
+          className="flex items-center justify-center gap-1 py-1.5 rounded border border-border text-xs text-muted-foreground hover:border-primary hover:text-gold transition-colors disabled:opacity-40"
+        >
+          <Images className="w-3 h-3" /> {files.length > 0 ? `${files.length} IMAGES` : 'IMAGES'}
+        </button>
+        <input ref={scoreInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleScores} />
+        <input ref={imageInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleImages} />
+      </div>
+
+      {panel && (
+        <div className="text-xs text-muted-foreground">
+          {panel.images.length} scored images · <span className="text-foreground">{scored.length} matched to images</span>
+          {unmatchedScores > 0 && files.length > 0 && <> · {unmatchedScores} without an image file</>}
+        </div>
+      )}
+      {[...(panel?.warnings ?? []), ...runWarnings].slice(0, 8).map((w, i) => (
+        <div key={i} className="text-xs" style={{ color: 'hsl(42 95% 60%)' }}>⚠ {w}</div>
+      ))}
+      {error && <div className="text-xs text-destructive">{error}</div>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleRun}
+          disabled={running !== null || scored.length === 0}
+          className="flex-1 flex items-center justify-center gap-2 py-2 rounded text-sm font-display font-semibold tracking-wider transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          style={{ background: 'var(--gradient-gold)', color: 'hsl(220 20% 7%)' }}
+        >
+          {running
+            ? <><Loader2 className="w-4 h-4 animate-spin" /> {running}</>
+            : <><Play className="w-4 h-4" /> TUNE THRESHOLDS</>}
+        </button>
+        {running && (
+          <button
+            onClick={handleCancel}
+            className="flex items-center gap-1 text-xs px-3 py-1 rounded border border-border text-muted-foreground hover:border-destructive hover:text-destructive transition-colors"
+          >
+            <X className="w-3 h-3" /> CANCEL
+          </button>
+        )}
+        {result && (
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-1 text-xs px-3 py-1 rounded border border-primary text-gold hover:bg-primary/10 transition-colors"
+          >
+            <Download className="w-3 h-3" /> Export JSON
+          </button>
+        )}
+      </div>
+
+      {result && (
+        <div className="flex flex-col gap-4">
+          {/* Agreement before → after */}
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground border-b border-border">
+                <th className="text-left py-1 font-display">ATTRIBUTE</th>
+                <th className="text-right font-display">IMAGES</th>
+                <th className="text-right font-display">EXACT</th>
+                <th className="text-right font-display">WITHIN ±1</th>
+                <th className="text-right font-display">MEAN ABS. ERROR</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono-custom">
+              {result.before.attributes.map((b, i) => row(b, result.after.attributes[i]))}
+            </tbody>
+          </table>
+
+          {/* Candidate profile */}
+          {result.changes.length === 0 ? (
+            <div className="text-xs text-muted-foreground">
+              No parameter change improved agreement — {formatSpecProfile(profile)} is already the best on this set.
+            </div>
+          ) : (
+            <div className="flex flex-col gap-2">
+              <div className="flex flex-col gap-1">
+                {result.changes.map(c => (
+                  <div key={c.id} className="flex items-center gap-2 text-xs rounded px-2 py-1"
+                    style={{ background: 'hsl(220 15% 9%)', border: '1px solid hsl(220 15% 16%)' }}>
+                    <span className="text-foreground flex-1">{c.label}</span>
+                    <span className="font-mono-custom text-muted-foreground">{c.from}</span>
+                    <span className="text-muted-foreground">→</span>
+                    <span className="font-mono-custom text-gold">{c.to}</span>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => { onAdopt(result.candidate); setAdopted(true); }}
+                disabled={adopted}
+                className="flex items-center justify-center gap-1.5 py-2 rounded border border-primary text-sm text-gold hover:bg-primary/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Check className="w-3.5 h-3.5" /> {adopted ? 'ADOPTED' : `ADOPT AS "${result.candidate.name}"`}
+              </button>
+            </div>
+          )}
+          <div className="text-xs text-muted-foreground">
+            {result.imageCount} images · {result.evaluations} candidates over {result.rounds} round{result.rounds === 1 ? '' : 's'}.
+            Check the candidate on held-out images before adopting it for release decisions.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+// Agtron Calibration - per-station regression against reference meter readings
+
+import { rgbToLab } from './colorAnalysis';
+import { leastSquares } from './linalg';
+
+/** Colour features of a sample's fry pixels (after colour correction) */
+export interface AgtronFeatures {
+  L: number; a: number; b: number;
+  luminance: number; // BT.601, 0-255
+}
+
+export interface AgtronSample {
+  id: string;
+  station: string;
+  imageName: string;
+  measuredAgtron: number; // reference meter reading
+  features: AgtronFeatures;
+}
+
+// Lab needs enough samples to pin four coefficients; fewer fit luminance only
+export type AgtronModelKind = 'luminance' | 'lab';
+const MIN_SAMPLES: Record<AgtronModelKind, number> = { luminance: 3, lab: 8 };
+
+export interface AgtronResidual {
+  sampleId: string;
+  measured: number;
+  predicted: number;
+  residual: number; // measured − predicted
+}
+
+export interface AgtronModel {
+  station: string;
+  kind: AgtronModelKind;
+  coefficients: number[]; // intercept first
+  fittedAt: string;
+  sampleCount: number;
+  r2: number;
+  rmse: number;
+  residuals: AgtronResidual[];
+}
+
+export function extractAgtronFeatures(meanR: number, meanG: number, meanB: number): AgtronFeatures {
+  const { L, a, b } = rgbToLab(meanR, meanG, meanB);
+  return { L, a, b, luminance: 0.299 * meanR + 0.587 * meanG + 0.114 * meanB };
+}
+
+function designRow(kind: AgtronModelKind, f: AgtronFeatures): number[] {
+  return kind === 'lab' ? [1, f.L, f.a, f.b] : [1, f.luminance];
+}
+
+export function predictAgtron(model: AgtronModel, features: AgtronFeatures): number {
+  const row = designRow(model.kind, features);
+  return row.reduce((sum, x, i) => sum + x * model.coefficients[i], 0);
+}
+
+/** Ordinary least squares fit; null when there are too few samples or the design is degenerate */
+export function fitAgtronModel(samples: AgtronSample[], station: string): AgtronModel | null {
+  const kind: AgtronModelKind = samples.length >= MIN_SAMPLES.lab ? 'lab' : 'luminance';
+  if (samples.length < MIN_SAMPLES[kind]) return null;
+
+  const y = samples.map(s => s.measuredAgtron);
+  const coefficients = leastSquares(samples.map(s => designRow(kind, s.features)), y);
+  if (!coefficients || coefficients.some(c => !Number.isFinite(c))) return null;
+
+  const model: AgtronModel = {
+    station, kind, coefficients,
+    fittedAt: new Date().toISOString(),
+    sampleCount: samples.length,
+    r2: 0, rmse: 0, residuals: [],
+  };
+  model.residuals = samples.map(s => {
+    const predicted = predictAgtron(model, s.features);
+    return { sampleId: s.id, measured: s.measuredAgtron, predicted, residual: s.measuredAgtron - predicted };
+  });
+
+  const mean = y.reduce((a, b) => a + b, 0) / y.length;
+  const ssRes = model.residuals.reduce((sum, r) => sum + r.residual * r.residual, 0);
+  const ssTot = y.reduce((sum, v) => sum + (v - mean) * (v - mean), 0);
+  model.r2 = ssTot > 0 ? 1 - ssRes / ssTot : 0;
+  model.rmse = Math.sqrt(ssRes / y.length);
+  return model;
+}
@@ -0,0 +1,47 @@
+// CV Engine worker — runs colorAnalysis jobs off the main thread.
+// Pixel buffers arrive transferred (zero-copy); an analysis hands its buffer
+// back with the result so the caller gets its ImageData again.
+// Works on raw buffers via analyzePixels — no ImageData needed here.
+
+import { analyzePixels } from './colorAnalysis';
+import { runClassifierSamplesJob, runTuningJob, type AnalysisWorkerRequest, type AnalysisWorkerResponse } from './analysisWorker';
+
+const ctx = self as unknown as Worker;
+
+function post(message: AnalysisWorkerResponse, transfer: Transferable[] = []) {
+  ctx.postMessage(message, transfer);
+}
+
+ctx.onmessage = (e: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = e.data;
+  const { id } = request;
+  if (request.kind === 'tune') {
+    try {
+      const output = runTuningJob(request.images, request.ppm, request.options, progress => post({ id, kind: 'tuning_progress', progress }));
+      post({ id, kind: 'tuning_result', output });
+    } catch (err) {
+      post({ id, kind: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+    return;
+  }
+  if (request.kind === 'classifier_samples') {
+    try {
+      const output = runClassifierSamplesJob(request.images, request.ppm, request.options, progress => post({ id, kind: 'classifier_progress', progress }));
+      post({ id, kind: 'classifier_result', output });
+    } catch (err) {
+      post({ id, kind: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+    return;
+  }
+
+  const { buffer, width, height, ppm, options } = request;
+  try {
+    const result = analyzePixels({ data: new Uint8ClampedArray(buffer), width, height }, ppm, {
+      ...options,
+      onProgress: progress => post({ id, kind: 'progress', progress }),
+    });
+    post({ id, kind: 'result', result, buffer }, [buffer]);
+  } catch (err) {
+    post({ id, kind: 'error', message: err instanceof Error ? err.message : String(err), buffer }, [buffer]);
+  }
+};
@@ -0,0 +1,297 @@
+// Analysis Worker client — off-main-thread analyzeImage, threshold tuning and classifier sampling with progress + cancel
+
+import { analyzeImage, type AnalysisOptions, type AnalysisProgress, type AnalysisResult } from './colorAnalysis';
+import {
+  prepareTuningSample, tuneThresholds,
+  type PanelScores, type TuningProgress, type TuningResult, type TuningSample,
+} from './thresholdTuning';
+import { collectClassifierSamples, type ClassifierSample } from './defectClassifier';
+import type { DefectAnnotation } from './annotations';
+import { DEFAULT_SPEC_PROFILE } from './specProfiles';
+
+// Everything in AnalysisOptions except callbacks and custom stages crosses the worker boundary
+export type SerializableAnalysisOptions = Omit<AnalysisOptions, 'onProgress' | 'pipeline'>;
+
+/** A panel-scored image for a tuning job; its pixel buffer is transferred */
+export interface WorkerTuningImage {
+  imageName: string;
+  panel: PanelScores;
+  buffer: ArrayBuffer;
+  width: number;
+  height: number;
+}
+
+export type TuningJobProgress =
+  | { phase: 'preparing'; done: number; total: number }
+  | ({ phase: 'searching' } & TuningProgress);
+
+export interface TuningJobOutput {
+  result: TuningResult;
+  warnings: string[]; // images that could not be prepared
+}
+
+/** A labelled image for a classifier-sampling job; annotations are in its pixels, its buffer is transferred */
+export interface WorkerClassifierImage {
+  imageName: string;
+  annotations: DefectAnnotation[];
+  buffer: ArrayBuffer;
+  width: number;
+  height: number;
+}
+
+export interface ClassifierJobProgress {
+  done: number;
+  total: number;
+}
+
+export interface ClassifierJobOutput {
+  samples: ClassifierSample[];
+  warnings: string[]; // images that could not be sampled
+}
+
+export type AnalysisWorkerRequest =
+  | { id: number; kind: 'analyze'; buffer: ArrayBuffer; width: number; height: number; ppm: number; options: SerializableAnalysisOptions }
+  | { id: number; kind: 'tune'; images: WorkerTuningImage[]; ppm: number; options: SerializableAnalysisOptions }
+  | { id: number; kind: 'classifier_samples'; images: WorkerClassifierImage[]; ppm: number; options: SerializableAnalysisOptions };
+
+export type AnalysisWorkerResponse =
+  | { id: number; kind: 'progress'; progress: AnalysisProgress }
+  | { id: number; kind: 'result'; result: AnalysisResult; buffer: ArrayBuffer }
+  | { id: number; kind: 'tuning_progress'; progress: TuningJobProgress }
+  | { id: number; kind: 'tuning_result'; output: TuningJobOutput }
+  | { id: number; kind: 'classifier_progress'; progress: ClassifierJobProgress }
+  | { id: number; kind: 'classifier_result'; output: ClassifierJobOutput }
+  | { id: number; kind: 'error'; message: string; buffer?: ArrayBuffer };
+
+// Custom `pipeline` stages are functions and cannot be posted to the worker
+export type WorkerAnalysisOptions = SerializableAnalysisOptions & Pick<AnalysisOptions, 'onProgress'> & {
+  signal?: AbortSignal;
+};
+
+export type WorkerTuningOptions = SerializableAnalysisOptions & {
+  onProgress?: (progress: TuningJobProgress) => void;
+  signal?: AbortSignal;
+};
+
+export type WorkerClassifierOptions = SerializableAnalysisOptions & {
+  onProgress?: (progress: ClassifierJobProgress) => void;
+  signal?: AbortSignal;
+};
+
+export interface WorkerAnalysisOutput {
+  result: AnalysisResult;
+  imageData: ImageData; // the input image, handed back after the zero-copy round trip
+}
+
+let nextJobId = 1;
+
+function abortError(): DOMException {
+  return new DOMException('Analysis cancelled', 'AbortError');
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+/** A failed analysis; `imageData` is the caller's image, usable again, unless the worker itself died */
+export class AnalysisJobError extends Error {
+  constructor(message: string, readonly imageData: ImageData | null) {
+    super(message);
+    this.name = 'AnalysisJobError';
+  }
+}
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// ─── Jobs ────────────────────────────────────────────────────
+
+/**
+ * Prepares every image (one that fails becomes a warning) and runs the
+ * threshold search against the profile in `options`. Runs in the worker,
+ * or on the main thread where there is none.
+ */
+export function runTuningJob(
+  images: WorkerTuningImage[], ppm: number, options: SerializableAnalysisOptions,
+  onProgress: (progress: TuningJobProgress) => void,
+): TuningJobOutput {
+  const samples: TuningSample[] = [];
+  const warnings: string[] = [];
+  for (const [i, { imageName, panel, buffer, width, height }] of images.entries()) {
+    onProgress({ phase: 'preparing', done: i, total: images.length });
+    try {
+      samples.push(prepareTuningSample(imageName, { data: new Uint8ClampedArray(buffer), width, height }, ppm, panel, options));
+    } catch (err) {
+      warnings.push(`${imageName}: ${errorMessage(err)}`);
+    }
+  }
+  const result = tuneThresholds(samples, options.profile ?? DEFAULT_SPEC_PROFILE, {
+    onProgress: progress => onProgress({ phase: 'searching', ...progress }),
+  });
+  return { result, warnings };
+}
+
+/**
+ * Collects the classifier's labelled regions from every image (one that
+ * fails becomes a warning). Runs in the worker, or on the main thread where
+ * there is none.
+ */
+export function runClassifierSamplesJob(
+  images: WorkerClassifierImage[], ppm: number, options: SerializableAnalysisOptions,
+  onProgress: (progress: ClassifierJobProgress) => void,
+): ClassifierJobOutput {
+  const samples: ClassifierSample[] = [];
+  const warnings: string[] = [];
+  for (const [i, { imageName, annotations, buffer, width, height }] of images.entries()) {
+    onProgress({ done: i, total: images.length });
+    try {
+      samples.push(...collectClassifierSamples(imageName, { data: new Uint8ClampedArray(buffer), width, height }, ppm, annotations, options));
+    } catch (err) {
+      warnings.push(`${imageName}: ${errorMessage(err)}`);
+    }
+  }
+  onProgress({ done: images.length, total: images.length });
+  return { samples, warnings };
+}
+
+// ─── Client ──────────────────────────────────────────────────
+
+/**
+ * Posts one job to a fresh worker and settles with what `settle` makes of
+ * its final message. Aborting the signal terminates the worker immediately.
+ * A failed job rejects with an AnalysisJobError carrying the image `restore`
+ * rebuilds from the buffer the worker handed back.
+ */
+function runWorkerJob<T>(
+  request: AnalysisWorkerRequest, transfer: Transferable[], signal: AbortSignal | undefined,
+  handle: (msg: AnalysisWorkerResponse, settle: (value: T) => void) => void,
+  restore?: (buffer: ArrayBuffer) => ImageData,
+): Promise<T> {
+  const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+
+  return new Promise<T>((resolve, reject) => {
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (e: MessageEvent<AnalysisWorkerResponse>) => {
+      const msg = e.data;
+      if (msg.id !== request.id) return;
+      if (msg.kind === 'error') {
+        finish();
+        reject(new AnalysisJobError(msg.message, msg.buffer && restore ? restore(msg.buffer) : null));
+        return;
+      }
+      handle(msg, value => {
+        finish();
+        resolve(value);
+      });
+    };
+    worker.onerror = e => {
+      finish();
+      reject(new AnalysisJobError(e.message || 'Analysis worker failed', null));
+    };
+
+    worker.postMessage(request, transfer);
+  });
+}
+
+/**
+ * Runs analyzeImage in a dedicated Web Worker.
+ *
+ * The ImageData buffer is transferred, not copied: `imageData` is detached
+ * while the job runs and the returned `imageData` wraps the same memory.
+ * A failed analysis rejects with an AnalysisJobError that hands the image
+ * back the same way. Aborting the signal terminates the worker immediately.
+ */
+export function analyzeImageInWorker(
+  imageData: ImageData,
+  ppm: number,
+  { onProgress, signal, ...options }: WorkerAnalysisOptions = {},
+): Promise<WorkerAnalysisOutput> {
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  // No worker support (tests, very old browsers) → main thread; it cannot be
+  // interrupted, so an abort meanwhile discards the result
+  if (typeof Worker === 'undefined') {
+    return analyzeImage(imageData, ppm, { ...options, onProgress }).then(
+      result => {
+        if (signal?.aborted) throw abortError();
+        return { result, imageData };
+      },
+      err => { throw new AnalysisJobError(errorMessage(err), imageData); },
+    );
+  }
+
+  const { width, height } = imageData;
+  const buffer = imageData.data.buffer as ArrayBuffer;
+  const restore = (returned: ArrayBuffer) => new ImageData(new Uint8ClampedArray(returned), width, height);
+  const request: AnalysisWorkerRequest = { id: nextJobId++, kind: 'analyze', buffer, width, height, ppm, options };
+  return runWorkerJob<WorkerAnalysisOutput>(request, [buffer], signal, (msg, settle) => {
+    if (msg.kind === 'progress') onProgress?.(msg.progress);
+    else if (msg.kind === 'result') settle({ result: msg.result, imageData: restore(msg.buffer) });
+  }, restore);
+}
+
+/**
+ * Prepares the panel-scored images and searches thresholds for the profile
+ * in `options`, in a dedicated Web Worker. The images' buffers are
+ * transferred and stay detached. Aborting the signal terminates the worker.
+ */
+export function tuneThresholdsInWorker(
+  images: { imageName: string; panel: PanelScores; imageData: ImageData }[],
+  ppm: number,
+  { onProgress, signal, ...options }: WorkerTuningOptions = {},
+): Promise<TuningJobOutput> {
+  if (signal?.aborted) return Promise.reject(abortError());
+  const jobImages: WorkerTuningImage[] = images.map(({ imageName, panel, imageData }) => ({
+    imageName, panel, buffer: imageData.data.buffer as ArrayBuffer, width: imageData.width, height: imageData.height,
+  }));
+
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve().then(() => runTuningJob(jobImages, ppm, options, p => onProgress?.(p))).then(output => {
+      if (signal?.aborted) throw abortError();
+      return output;
+    });
+  }
+
+  const request: AnalysisWorkerRequest = { id: nextJobId++, kind: 'tune', images: jobImages, ppm, options };
+  return runWorkerJob<TuningJobOutput>(request, jobImages.map(img => img.buffer), signal, (msg, settle) => {
+    if (msg.kind === 'tuning_progress') onProgress?.(msg.progress);
+    else if (msg.kind === 'tuning_result') settle(msg.output);
+  });
+}
+
+/**
+ * Collects labelled classifier regions from the images in a dedicated Web
+ * Worker. The images' buffers are transferred and stay detached. Aborting
+ * the signal terminates the worker.
+ */
+export function collectClassifierSamplesInWorker(
+  images: { imageName: string; annotations: DefectAnnotation[]; imageData: ImageData }[],
+  ppm: number,
+  { onProgress, signal, ...options }: WorkerClassifierOptions = {},
+): Promise<ClassifierJobOutput> {
+  if (signal?.aborted) return Promise.reject(abortError());
+  const jobImages: WorkerClassifierImage[] = images.map(({ imageName, annotations, imageData }) => ({
+    imageName, annotations, buffer: imageData.data.buffer as ArrayBuffer, width: imageData.width, height: imageData.height,
+  }));
+
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve().then(() => runClassifierSamplesJob(jobImages, ppm, options, p => onProgress?.(p))).then(output => {
+      if (signal?.aborted) throw abortError();
+      return output;
+    });
+  }
+
+  const request: AnalysisWorkerRequest = { id: nextJobId++, kind: 'classifier_samples', images: jobImages, ppm, options };
+  return runWorkerJob<ClassifierJobOutput>(request, jobImages.map(img => img.buffer), signal, (msg, settle) => {
+    if (msg.kind === 'classifier_progress') onProgress?.(msg.progress);
+    else if (msg.kind === 'classifier_result') settle(msg.output);
+  });
+}
@@ -0,0 +1,234 @@
+// Annotations - ground-truth defect labels imported from COCO JSON or a simple CSV
+
+import type { DefectRegion } from './colorAnalysis';
+import type { BoundingBox, Point } from './segmentation';
+
+export type DefectType = DefectRegion['type'];
+
+export const DEFECT_TYPES: DefectType[] = [
+  'burnt', 'dark', 'light', 'mottled', 'sugar_end', 'greening', 'disease', 'hollow_heart',
+  'shadow', 'glare', 'seasoning',
+];
+
+export const ARTIFACT_TYPES: DefectType[] = ['shadow', 'glare', 'seasoning'];
+
+/** One labelled defect, in the annotated image's pixel coordinates */
+export interface DefectAnnotation {
+  type: DefectType;
+  bbox: BoundingBox;
+  polygon: Point[] | null; // outline, when the labeller drew one
+}
+
+export interface AnnotatedImage {
+  imageName: string;
+  width: number | null;    // size the coordinates refer to (null = the image file's own size)
+  height: number | null;
+  annotations: DefectAnnotation[]; // empty = labelled as defect-free
+}
+
+export interface AnnotationImport {
+  images: AnnotatedImage[];
+  warnings: string[];      // skipped labels / rows
+}
+
+// Labeller vocabulary → engine types (after lower-casing and joining words with '_')
+const TYPE_ALIASES: Record<string, DefectType> = {
+  black_spot: 'disease', bruise: 'disease', blackspot: 'disease',
+  sugar_ends: 'sugar_end', sugarend: 'sugar_end',
+  hollow: 'hollow_heart', void: 'hollow_heart',
+  green: 'greening', burn: 'burnt', burned: 'burnt',
+  mottling: 'mottled', salt: 'seasoning', oil_glare: 'glare',
+};
+
+export function defectTypeFromLabel(label: string): DefectType | null {
+  const key = label.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if ((DEFECT_TYPES as string[]).includes(key)) return key as DefectType;
+  return TYPE_ALIASES[key] ?? null;
+}
+
+/** A detected or reviewed region as a label: pixel extents as the box, outline through pixel centres */
+export function defectAnnotation(d: DefectRegion): DefectAnnotation {
+  return {
+    type: d.type,
+    bbox: { x: d.x, y: d.y, width: d.width, height: d.height },
+    polygon: d.polygon.length >= 3 ? d.polygon.map(p => ({ x: p.x + 0.5, y: p.y + 0.5 })) : null,
+  };
+}
+
+function polygonBox(polygon: Point[]): BoundingBox {
+  const xs = polygon.map(p => p.x), ys = polygon.map(p => p.y);
+  const x = Math.min(...xs), y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/** Flat [x1, y1, x2, y2, …] → points; null when there are fewer than three */
+function toPolygon(flat: number[]): Point[] | null {
+  if (flat.length < 6 || flat.some(v => !Number.isFinite(v))) return null;
+  const points: Point[] = [];
+  for (let i = 0; i + 1 < flat.length; i += 2) points.push({ x: flat[i], y: flat[i + 1] });
+  return points;
+}
+
+// ─── COCO ────────────────────────────────────────────────────
+
+interface CocoFile {
+  images?: { id: number | string; file_name: string; width?: number; height?: number }[];
+  annotations?: { image_id: number | string; category_id: number | string; bbox?: number[]; segmentation?: unknown }[];
+  categories?: { id: number | string; name: string }[];
+}
+
+/**
+ * COCO object-detection JSON. Polygon segmentations are kept (the first
+ * ring when there are several); RLE masks fall back to the annotation's box.
+ */
+export function parseCocoAnnotations(json: unknown): AnnotationImport {
+  const coco = json as CocoFile;
+  if (!coco || !Array.isArray(coco.images) || !Array.isArray(coco.annotations)) {
+    throw new Error('Not a COCO file: expected "images" and "annotations" arrays');
+  }
+  const warnings: string[] = [];
+  const categories = new Map<string, DefectType | null>();
+  for (const c of coco.categories ?? []) {
+    const type = defectTypeFromLabel(c.name);
+    if (!type) warnings.push(`Category "${c.name}" is not a defect type — its labels are skipped`);
+    categories.set(String(c.id), type);
+  }
+
+  const images = new Map<string, AnnotatedImage>();
+  for (const img of coco.images) {
+    images.set(String(img.id), { imageName: img.file_name, width: img.width ?? null, height: img.height ?? null, annotations: [] });
+  }
+  for (const a of coco.annotations) {
+    const image = images.get(String(a.image_id));
+    const type = categories.get(String(a.category_id));
+    if (!image) { warnings.push(`Label for unknown image id ${a.image_id} skipped`); continue; }
+    if (!type) continue;
+    const polygon = Array.isArray(a.segmentation) && Array.isArray(a.segmentation[0])
+      ? toPolygon(a.segmentation[0] as number[])
+      : null;
+    const bbox = a.bbox?.length === 4
+      ? { x: a.bbox[0], y: a.bbox[1], width: a.bbox[2], height: a.bbox[3] }
+      : polygon && polygonBox(polygon);
+    if (!bbox) { warnings.push(`Label without box or polygon on ${image.imageName} skipped`); continue; }
+    image.annotations.push({ type, bbox, polygon });
+  }
+  return { images: [...images.values()], warnings };
+}
+
+/** Labels as COCO JSON, one category per defect type — reads back through parseCocoAnnotations */
+export function toCocoAnnotations(images: AnnotatedImage[]): object {
+  const round = (v: number) => Math.round(v * 10) / 10;
+  let annotationId = 0;
+  return {
+    info: { description: 'MacFry SensoryVision defect labels', date_created: new Date().toISOString() },
+    categories: DEFECT_TYPES.map((name, i) => ({ id: i + 1, name })),
+    images: images.map((img, i) => ({ id: i + 1, file_name: img.imageName, width: img.width ?? undefined, height: img.height ?? undefined })),
+    annotations: images.flatMap((img, i) => img.annotations.map(a => ({
+      id: ++annotationId,
+      image_id: i + 1,
+      category_id: DEFECT_TYPES.indexOf(a.type) + 1,
+      bbox: [a.bbox.x, a.bbox.y, a.bbox.width, a.bbox.height].map(round),
+      area: round(a.bbox.width * a.bbox.height),
+      segmentation: a.polygon ? [a.polygon.flatMap(p => [round(p.x), round(p.y)])] : [],
+      iscrowd: 0,
+    }))),
+  };
+}
+
+// ─── CSV ─────────────────────────────────────────────────────
+
+export const ANNOTATION_CSV_HEADER = 'image,type,x,y,width,height,polygon';
+
+/** One CSV row, with double-quoted cells ("" for a literal quote) */
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '', quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { cells.push(cell); cell = ''; }
+    else cell += ch;
+  }
+  cells.push(cell);
+  return cells.map(c => c.trim());
+}
+
+/**
+ * One label per row: `image,type,x,y,width,height[,polygon]`, where the
+ * optional polygon is "x1 y1 x2 y2 …" and can stand in for the box. A row
+ * with an empty type lists a defect-free image.
+ */
+export function parseAnnotationCsv(text: string): AnnotationImport {
+  const lines = text.split(/\r?\n/).filter(l => l.trim());
+  if (lines.length === 0) throw new Error('Annotation CSV is empty');
+  const header = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+  const col = (name: string) => header.indexOf(name);
+  for (const required of ['image', 'type']) {
+    if (col(required) < 0) throw new Error(`Annotation CSV needs an "${required}" column (${ANNOTATION_CSV_HEADER})`);
+  }
+
+  const warnings: string[] = [];
+  const images = new Map<string, AnnotatedImage>();
+  lines.slice(1).forEach((line, index) => {
+    const cells = splitCsvLine(line);
+    const get = (name: string) => (col(name) >= 0 ? cells[col(name)] ?? '' : '');
+    const imageName = get('image');
+    if (!imageName) { warnings.push(`Row ${index + 2}: no image name`); return; }
+    let image = images.get(imageName);
+    if (!image) {
+      image = { imageName, width: null, height: null, annotations: [] };
+      images.set(imageName, image);
+    }
+    const label = get('type');
+    if (!label) return;
+    const type = defectTypeFromLabel(label);
+    if (!type) { warnings.push(`Row ${index + 2}: unknown defect type "${label}"`); return; }
+
+    const polygon = get('polygon') ? toPolygon(get('polygon').split(/[\s;]+/).map(Number)) : null;
+    const box = ['x', 'y', 'width', 'height'].map(k => (get(k) === '' ? NaN : Number(get(k))));
+    const bbox = box.every(Number.isFinite)
+      ? { x: box[0], y: box[1], width: box[2], height: box[3] }
+      : polygon && polygonBox(polygon);
+    if (!bbox) { warnings.push(`Row ${index + 2}: needs a box or a polygon`); return; }
+    image.annotations.push({ type, bbox, polygon });
+  });
+  return { images: [...images.values()], warnings };
+}
+
+/** Labels in the CSV layout parseAnnotationCsv reads; a defect-free image gets a row with no type */
+export function toAnnotationCsv(images: AnnotatedImage[]): string {
+  const round = (v: number) => String(Math.round(v * 10) / 10);
+  const rows = images.flatMap(img => {
+    const name = `"${img.imageName.replace(/"/g, '""')}"`;
+    if (img.annotations.length === 0) return [`${name},,,,,,`];
+    return img.annotations.map(a => [
+      name, a.type, ...[a.bbox.x, a.bbox.y, a.bbox.width, a.bbox.height].map(round),
+      a.polygon ? a.polygon.map(p => `${round(p.x)} ${round(p.y)}`).join(' ') : '',
+    ].join(','));
+  });
+  return [ANNOTATION_CSV_HEADER, ...rows].join('\n');
+}
+
+/** COCO JSON or CSV, by file name */
+export function parseAnnotationFile(fileName: string, text: string): AnnotationImport {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let json: unknown;
+    try { json = JSON.parse(text); } catch { throw new Error(`${fileName} is not valid JSON`); }
+    return parseCocoAnnotations(json);
+  }
+  return parseAnnotationCsv(text);
+}
+
+/** Annotations in the coordinates of the image as analysed (`scale` = analysed px / annotated px) */
+export function scaleAnnotations(annotations: DefectAnnotation[], scale: number): DefectAnnotation[] {
+  if (scale === 1) return annotations;
+  return annotations.map(a => ({
+    type: a.type,
+    bbox: { x: a.bbox.x * scale, y: a.bbox.y * scale, width: a.bbox.width * scale, height: a.bbox.height * scale },
+    polygon: a.polygon?.map(p => ({ x: p.x * scale, y: p.y * scale })) ?? null,
+  }));
+}
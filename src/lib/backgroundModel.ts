@@ -0,0 +1,243 @@
+// Background Model - tray / plate separation into one shared fry foreground mask
+
+import { rgbToLab, type LabColor, type RGBColor, type RgbaRaster } from './colorAnalysis';
+import { labelComponents } from './segmentation';
+
+export type BackgroundMethod = 'kmeans' | 'otsu' | 'chroma_key';
+
+export interface BackgroundModelOptions {
+  method: BackgroundMethod;
+  keyColor?: RGBColor;    // chroma_key: tray / plate colour
+  keyTolerance?: number;  // chroma_key: ΔE*ab radius around keyColor counted as background
+}
+
+export const DEFAULT_BACKGROUND_MODEL: BackgroundModelOptions = {
+  method: 'kmeans',
+  keyColor: { r: 245, g: 245, b: 245 },
+  keyTolerance: 12,
+};
+
+export const BACKGROUND_METHODS: { method: BackgroundMethod; label: string }[] = [
+  { method: 'kmeans',     label: 'k-means (Lab)' },
+  { method: 'otsu',       label: 'Otsu (b*)' },
+  { method: 'chroma_key', label: 'Chroma key' },
+];
+
+export interface ForegroundMask {
+  method: BackgroundMethod;
+  data: Uint8Array;          // 1 = fry, row-major width × height
+  holes: Uint8Array;         // 1 = enclosed background island filled back into `data`
+  coverage: number;          // foreground fraction of the frame
+  backgroundLab: LabColor;   // mean colour of what was called background
+}
+
+// ─── Tuning ──────────────────────────────────────────────────
+
+const KMEANS_K = 3;                // background, fry body, dark defects / shadow
+const KMEANS_SAMPLES = 20000;
+const KMEANS_ITERATIONS = 12;
+const BACKGROUND_BORDER_SHARE = 0.25; // a cluster owning this much of the frame border is background
+const MAX_HOLE_FRACTION = 0.01;       // enclosed background smaller than this is a spot on a fry
+
+// ─── Classifiers ─────────────────────────────────────────────
+
+function isBorder(i: number, width: number, height: number): boolean {
+  const x = i % width, y = (i - x) / width;
+  return x === 0 || y === 0 || x === width - 1 || y === height - 1;
+}
+
+function chromaKey(lab: Float32Array, opaque: Uint8Array, key: LabColor, tolerance: number): Uint8Array {
+  const bg = new Uint8Array(opaque.length);
+  const tol2 = tolerance * tolerance;
+  for (let i = 0; i < opaque.length; i++) {
+    if (!opaque[i]) continue;
+    const dL = lab[i * 3] - key.L, da = lab[i * 3 + 1] - key.a, db = lab[i * 3 + 2] - key.b;
+    if (dL * dL + da * da + db * db <= tol2) bg[i] = 1;
+  }
+  return bg;
+}
+
+/** Otsu threshold on b* (fries are yellow); the side that owns the border is background */
+function otsuYellowness(lab: Float32Array, opaque: Uint8Array, width: number, height: number): Uint8Array {
+  const hist = new Float64Array(256);
+  const bin = (b: number) => Math.max(0, Math.min(255, Math.round(b + 128)));
+  let total = 0;
+  for (let i = 0; i < opaque.length; i++) {
+    if (!opaque[i]) continue;
+    hist[bin(lab[i * 3 + 2])]++;
+    total++;
+  }
+
+  let sumAll = 0;
+  for (let t = 0; t < 256; t++) sumAll += t * hist[t];
+  let wB = 0, sumB = 0, bestVar = -1, threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    wB += hist[t];
+    if (wB === 0) continue;
+    const wF = total - wB;
+    if (wF === 0) break;
+    sumB += t * hist[t];
+    const mB = sumB / wB, mF = (sumAll - sumB) / wF;
+    const between = wB * wF * (mB - mF) * (mB - mF);
+    if (between > bestVar) { bestVar = between; threshold = t; }
+  }
+
+  let borderAbove = 0, borderTotal = 0;
+  for (let i = 0; i < opaque.length; i++) {
+    if (!opaque[i] || !isBorder(i, width, height)) continue;
+    borderTotal++;
+    if (bin(lab[i * 3 + 2]) > threshold) borderAbove++;
+  }
+  const backgroundAbove = borderTotal > 0 && borderAbove > borderTotal / 2;
+
+  const bg = new Uint8Array(opaque.length);
+  for (let i = 0; i < opaque.length; i++) {
+    if (!opaque[i]) continue;
+    const above = bin(lab[i * 3 + 2]) > threshold;
+    if (above === backgroundAbove) bg[i] = 1;
+  }
+  return bg;
+}
+
+/** k-means in Lab; clusters that own a large share of the frame border are background */
+function kmeansLab(lab: Float32Array, opaque: Uint8Array, width: number, height: number): Uint8Array {
+  const n = opaque.length;
+  let opaqueCount = 0;
+  for (let i = 0; i < n; i++) opaqueCount += opaque[i];
+  const bg = new Uint8Array(n);
+  if (opaqueCount === 0) return bg;
+
+  const stride = Math.max(1, Math.floor(opaqueCount / KMEANS_SAMPLES));
+  const samples: number[] = [];
+  for (let i = 0, seen = 0; i < n; i++) {
+    if (!opaque[i]) continue;
+    if (seen++ % stride === 0) samples.push(i);
+  }
+
+  // Deterministic init at L* quantiles
+  const byL = [...samples].sort((p, q) => lab[p * 3] - lab[q * 3]);
+  const centroids = new Float64Array(KMEANS_K * 3);
+  for (let k = 0; k < KMEANS_K; k++) {
+    const s = byL[Math.floor(((k + 0.5) / KMEANS_K) * (byL.length - 1))];
+    for (let c = 0; c < 3; c++) centroids[k * 3 + c] = lab[s * 3 + c];
+  }
+
+  const nearest = (i: number): number => {
+    let best = 0, bestD = Infinity;
+    for (let k = 0; k < KMEANS_K; k++) {
+      const dL = lab[i * 3] - centroids[k * 3], da = lab[i * 3 + 1] - centroids[k * 3 + 1], db = lab[i * 3 + 2] - centroids[k * 3 + 2];
+      const d = dL * dL + da * da + db * db;
+      if (d < bestD) { bestD = d; best = k; }
+    }
+    return best;
+  };
+
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    const sums = new Float64Array(KMEANS_K * 3), counts = new Float64Array(KMEANS_K);
+    for (const i of samples) {
+      const k = nearest(i);
+      counts[k]++;
+      for (let c = 0; c < 3; c++) sums[k * 3 + c] += lab[i * 3 + c];
+    }
+    let shift = 0;
+    for (let k = 0; k < KMEANS_K; k++) {
+      if (!counts[k]) continue; // empty cluster keeps its centroid
+      for (let c = 0; c < 3; c++) {
+        const next = sums[k * 3 + c] / counts[k];
+        shift = Math.max(shift, Math.abs(next - centroids[k * 3 + c]));
+        centroids[k * 3 + c] = next;
+      }
+    }
+    if (shift < 0.1) break;
+  }
+
+  const cluster = new Uint8Array(n);
+  const clusterSize = new Float64Array(KMEANS_K), borderCount = new Float64Array(KMEANS_K);
+  let borderTotal = 0;
+  for (let i = 0; i < n; i++) {
+    if (!opaque[i]) continue;
+    const k = nearest(i);
+    cluster[i] = k;
+    clusterSize[k]++;
+    if (isBorder(i, width, height)) { borderCount[k]++; borderTotal++; }
+  }
+
+  // Without a visible border fall back to the largest cluster
+  const weight = borderTotal > 0 ? borderCount : clusterSize;
+  let dominant = 0;
+  for (let k = 1; k < KMEANS_K; k++) if (weight[k] > weight[dominant]) dominant = k;
+  const isBackground = Array.from({ length: KMEANS_K }, (_, k) =>
+    k === dominant || (borderTotal > 0 && borderCount[k] / borderTotal >= BACKGROUND_BORDER_SHARE));
+
+  for (let i = 0; i < n; i++) if (opaque[i] && isBackground[cluster[i]]) bg[i] = 1;
+  return bg;
+}
+
+// ─── Main Entry Point ────────────────────────────────────────
+
+/**
+ * Separates fries from the tray / plate / conveyor they lie on. Pixels with
+ * alpha < 128 (e.g. the masked colour checker) are never foreground. Small
+ * background islands enclosed by a fry are filled back in, so a burnt spot
+ * that happens to match a dark tray is still graded.
+ */
+export function computeForegroundMask(raster: RgbaRaster, options: BackgroundModelOptions = DEFAULT_BACKGROUND_MODEL): ForegroundMask {
+  const { data, width, height } = raster;
+  const n = width * height;
+  const lab = new Float32Array(n * 3);
+  const opaque = new Uint8Array(n);
+  for (let i = 0; i < n; i++) {
+    if (data[i * 4 + 3] < 128) continue;
+    opaque[i] = 1;
+    const c = rgbToLab(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+    lab[i * 3] = c.L; lab[i * 3 + 1] = c.a; lab[i * 3 + 2] = c.b;
+  }
+
+  let bg: Uint8Array;
+  if (options.method === 'chroma_key') {
+    const key = options.keyColor ?? DEFAULT_BACKGROUND_MODEL.keyColor!;
+    bg = chromaKey(lab, opaque, rgbToLab(key.r, key.g, key.b), options.keyTolerance ?? DEFAULT_BACKGROUND_MODEL.keyTolerance!);
+  } else if (options.method === 'otsu') {
+    bg = otsuYellowness(lab, opaque, width, height);
+  } else {
+    bg = kmeansLab(lab, opaque, width, height);
+  }
+
+  const fg = new Uint8Array(n);
+  for (let i = 0; i < n; i++) if (opaque[i] && !bg[i]) fg[i] = 1;
+
+  // Fill holes: non-fry components that neither touch the frame nor contain transparent pixels
+  const notFg = new Uint8Array(n);
+  for (let i = 0; i < n; i++) notFg[i] = fg[i] ? 0 : 1;
+  const { labels, count } = labelComponents(notFg, width, height);
+  const size = new Int32Array(count + 1);
+  const keep = new Uint8Array(count + 1); // 1 = real background
+  for (let i = 0; i < n; i++) {
+    const l = labels[i];
+    if (!l) continue;
+    size[l]++;
+    if (!opaque[i] || isBorder(i, width, height)) keep[l] = 1;
+  }
+  const maxHole = n * MAX_HOLE_FRACTION;
+  const holes = new Uint8Array(n);
+  for (let i = 0; i < n; i++) {
+    const l = labels[i];
+    if (l && !keep[l] && size[l] <= maxHole) { fg[i] = 1; holes[i] = 1; }
+  }
+
+  let fgCount = 0, bgCount = 0, sL = 0, sa = 0, sb = 0;
+  for (let i = 0; i < n; i++) {
+    if (fg[i]) { fgCount++; continue; }
+    if (!opaque[i]) continue;
+    bgCount++;
+    sL += lab[i * 3]; sa += lab[i * 3 + 1]; sb += lab[i * 3 + 2];
+  }
+
+  return {
+    method: options.method,
+    data: fg,
+    holes,
+    coverage: n > 0 ? fgCount / n : 0,
+    backgroundLab: bgCount > 0 ? { L: sL / bgCount, a: sa / bgCount, b: sb / bgCount } : { L: 0, a: 0, b: 0 },
+  };
+}
@@ -0,0 +1,63 @@
+// Batch Records - one AnalysisResult → one row of the batch log / CSV report
+
+import { getPQIStatus, type AnalysisResult } from './colorAnalysis';
+import type { BatchRecord } from './pqiEngine';
+import type { DefectReview } from './defectReview';
+import { calculateFullPqi, computeCategoryScores, type SensoryScores } from './sensoryPanel';
+
+export function createBatchRecord(res: AnalysisResult, imageName: string, at: Date = new Date()): BatchRecord {
+  const timestamp = at.toISOString();
+  return {
+    id: `${at.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp,
+    batchId: `B${timestamp.slice(0, 10).replace(/-/g, '')}`,
+    imageName,
+    medianHue: res.pixelStats.medianHue,
+    pqi: res.pqi,
+    defectCount: res.defectCount,
+    processColorScore: res.processColorScore,
+    hueScore: res.hueScore,
+    mottlingScore: res.mottlingScore,
+    defectScore: res.defectScore,
+    agtronScore: res.pixelStats.agtronScore,
+    usdaLabel: res.usdaScoreLabel,
+    status: getPQIStatus(res.pqi).label,
+    stripCount: res.strips.length,
+    meanLengthMm: res.lengthDistribution.meanLengthMm,
+    lengthBuckets: res.lengthDistribution.buckets.map(b => ({ label: b.label, percent: b.percent, pass: b.pass })),
+    lengthPass: res.lengthDistribution.pass,
+    specProfile: res.specProfile,
+    disposition: res.disposition,
+    imageQuality: res.quality.level,
+    sensoryScores: null,
+    categoryScores: computeCategoryScores(res, null),
+    fullPqi: null,
+    review: null,
+  };
+}
+
+/** Record with the sensory panel's texture / aroma scores and the full PQI they complete */
+export function applySensoryPanel(record: BatchRecord, scores: SensoryScores): BatchRecord {
+  const categoryScores = computeCategoryScores(record, scores);
+  return { ...record, sensoryScores: { ...scores }, categoryScores, fullPqi: calculateFullPqi(categoryScores) };
+}
+
+/**
+ * Record re-graded from a reviewer-corrected result. The automatic grade
+ * stays in `review.automatic`; colour, hue and length are not re-measured.
+ */
+export function applyDefectReview(record: BatchRecord, corrected: AnalysisResult, review: DefectReview): BatchRecord {
+  const graded = {
+    ...record,
+    pqi: corrected.pqi,
+    defectCount: corrected.defectCount,
+    mottlingScore: corrected.mottlingScore,
+    defectScore: corrected.defectScore,
+    agtronScore: corrected.pixelStats.agtronScore,
+    status: getPQIStatus(corrected.pqi).label,
+    disposition: corrected.disposition,
+    review,
+  };
+  const categoryScores = computeCategoryScores(graded, record.sensoryScores);
+  return { ...graded, categoryScores, fullPqi: calculateFullPqi(categoryScores) };
+}
@@ -1,11 +1,47 @@
 // ============================================================
 // MacFry SensoryVision Suite™  — CV Engine V2
-// Phase 1: CIE DE2000 + Spatial White Balance
+// Phase 1: CIE DE2000 + Colour Checker CCM / Spatial White Balance
 // Phase 2: Shadow-Aware Semantic Segmentation + Contour-Weighted Scoring
 // Phase 3: FFT Crust Micro-topography + Maillard Reaction Index
 // Phase 4: Fuzzy Logic Neural PQI
 // ============================================================
 
+import {
+  segmentFries, labelComponents, traceContour, simplifyPolygon,
+  type FryInstance, type InstanceMask, type Point, type Segmentation,
+} from './segmentation';
+import { pixelsToMm2 } from './calibration';
+import {
+  gradeLengthDistribution, gradeCutSize,
+  type LengthDistribution, type CutSizeConformity,
+} from './sizeGrading';
+import { classifyDefectSize, countDefectSizes, getDefectScore, type DefectSizeBreakdown, type DefectSizeClass } from './defectSizing';
+import {
+  detectColorChecker, fitColorChecker, applyColorCorrection, maskColorChecker, correctColor,
+  type ColorCheckerSource, type ColorCorrectionReport,
+} from './colorCorrection';
+import { extractAgtronFeatures, predictAgtron, type AgtronModel } from './agtronCalibration';
+import {
+  computeForegroundMask, DEFAULT_BACKGROUND_MODEL,
+  type BackgroundModelOptions, type ForegroundMask,
+} from './backgroundModel';
+import { assessImageQuality, type ImageQualityReport } from './imageQuality';
+import { computeGlareMask } from './glare';
+import { computeSeasoningMask } from './seasoning';
+import { findInternalVoids } from './hollowHeart';
+import { applyMottlingThirdRule, getMottlingScore, measureStripMottling, type StripMottling } from './mottling';
+import { analyzeSugarEnds, tipZoneAt, type SugarEndAnalysis, type SugarEndGrade, type StripSugarEnds } from './sugarEnds';
+import { DEFAULT_SPEC_PROFILE, getDisposition, type DefectThresholds, type Disposition, type SpecProfile } from './specProfiles';
+import { classifyRegion, regionFeatures, type DefectClassifierModel } from './defectClassifier';
+import { runPipeline, type AnalysisStage, type AppearanceScores, type EngineRecord, type PipelineState } from './pipeline';
+
+/** Row-major RGBA pixels — structurally satisfied by DOM ImageData, but needs no DOM */
+export interface RgbaRaster {
+  data: Uint8ClampedArray | Uint8Array;
+  width: number;
+  height: number;
+}
+
 export interface RGBColor { r: number; g: number; b: number; }
 export interface HSVColor { h: number; s: number; v: number; }
 export interface LabColor { L: number; a: number; b: number; }
@@ -16,9 +52,12 @@ export interface PixelStats {
   medianHue: number;
   darkPixelRatio: number; burnedPixelRatio: number; lightPixelRatio: number;
   totalPixels: number; agtronScore: number;
+  agtronStation: string | null;                 // station model used for Agtron (null = default formula)
   // V2 additions
-  whiteBalanceGain: [number, number, number];  // per-channel gain
+  whiteBalanceGain: [number, number, number];  // per-channel gain ([1,1,1] when a CCM was applied)
   shadowMaskRatio: number;                      // fraction of pixels classified as shadow
+  glareMaskRatio: number;                       // fraction of fry pixels masked as specular glare
+  seasoningCoverage: number;                    // fraction of fry pixels masked as salt / seasoning
   crunchScore: number;                          // 0-100 FFT crust micro-topography
   maillardRisk: 'Low' | 'Moderate' | 'High' | 'Critical'; // acrylamide risk from ΔE
   deltaE2000: number;                           // CIE DE2000 vs target "McDonald's Gold"
@@ -27,14 +66,25 @@ export interface PixelStats {
 
 export interface DefectRegion {
   x: number; y: number; width: number; height: number;
-  type: 'dark' | 'burnt' | 'light' | 'mottled' | 'sugar_end' | 'disease' | 'shadow';
+  type: 'dark' | 'burnt' | 'light' | 'mottled' | 'sugar_end' | 'greening' | 'disease' | 'hollow_heart'
+    | 'shadow' | 'glare' | 'seasoning';
   severity: number; // 0-1
   area: number;     // px²
   areamm2?: number;
-  stripCoverage?: number;
+  stripCoverage?: number; // fraction of its strip's length the region spans
   // V2 — contour-weighted position
   positionWeight: number; // 1.0=center, 1.5=tip (sugar-end penalty)
-  isArtifact: boolean;    // true = shadow / seasoning — excluded from PQI
+  isArtifact: boolean;    // true = shadow / glare / seasoning — excluded from PQI
+  stripId?: number;       // FryInstance.id the region lies on (0 = background)
+  // Pixel-accurate blob geometry
+  centroid: Point;
+  contour: Point[];       // traced boundary, image coordinates
+  polygon: Point[];       // simplified contour for drawing / export
+  // McCain defect template size (non-artifacts only)
+  sizeClass?: DefectSizeClass;
+  equivalentDiameterMm?: number;
+  sugarEndGrade?: SugarEndGrade; // sugar_end regions only
+  classifierProbability?: number; // probability of `type` when the trained classifier typed the region
 }
 
 export interface AnalysisResult {
@@ -55,6 +105,36 @@ export interface AnalysisResult {
   // V2
   gradCamData: number[][];  // explainability heatmap
   acrylamideIndex: number;  // 0-100 chemical risk
+  // Instance segmentation
+  strips: FryInstance[];
+  lengthDistribution: LengthDistribution;
+  cutSizeConformity: CutSizeConformity;
+  defectSizes: DefectSizeBreakdown;
+  sugarEnds: StripSugarEnds[];  // both ends of every strip, graded along its axis
+  stripMottling: StripMottling[]; // per-strip mottled coverage for the 1/3 rule
+  colorCorrection: ColorCorrectionReport;
+  foreground: ForegroundMask; // background-model fry mask shared by every pass
+  quality: ImageQualityReport; // capture checks; 'blocking' captures must not be logged
+  specProfile: SpecProfile;  // spec the sample was graded against
+  disposition: Disposition;
+  engine: EngineRecord;       // engine version and the stages that produced this result
+}
+
+// ─── Analysis Progress ───────────────────────────────────────
+
+export interface AnalysisProgress {
+  phase: string;    // id of the running pipeline stage
+  label: string;
+  progress: number; // 0-1, fraction of phases completed before this one
+}
+
+export interface AnalysisOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+  profile?: SpecProfile;      // product spec to grade against (default: DEFAULT_SPEC_PROFILE)
+  colorChecker?: ColorCheckerSource; // chart for the CCM: 'auto' (default), 'off' or marked corners
+  agtronModel?: AgtronModel | null;  // station regression; default formula when absent
+  background?: BackgroundModelOptions; // tray / plate separation (default: k-means in Lab)
+  pipeline?: AnalysisStage[];          // stage list (default: DEFAULT_PIPELINE); see replaceStage / insertStage
 }
 
 // ─── Color Space Conversions ─────────────────────────────────
@@ -93,9 +173,6 @@ export function rgbToLab(r: number, g: number, b: number): LabColor {
 
 // ─── Phase 1: CIE DE2000 ─────────────────────────────────────
 
-// "McDonald's Gold" reference: bright light golden (USDA 0.5 target)
-const MC_GOLD_LAB: LabColor = { L: 72.0, a: 8.5, b: 42.0 };
-
 export function deltaE2000(lab1: LabColor, lab2: LabColor): number {
   const rad = (d: number) => (d * Math.PI) / 180;
   const { L: L1, a: a1, b: b1 } = lab1;
@@ -342,20 +419,18 @@ function fuzzyPQI(scores: number[]): number {
 
 // ─── Agtron + USDA ───────────────────────────────────────────
 
+/** Default formula, used when no station model (agtronCalibration) is loaded */
 function estimateAgtron(meanR: number, meanG: number, meanB: number): number {
   // Normalisation-corrected Agtron estimation
   const luminance = 0.299 * meanR + 0.587 * meanG + 0.114 * meanB;
   return Math.round(20 + (luminance / 255) * 80);
 }
 
-function getUsdaScore(agtron: number): number {
-  if (agtron >= 58 && agtron <= 68) return 0.5;
-  if (agtron < 40) return 0.0;
-  if (agtron < 50) return 0.2;
-  if (agtron < 58) return 0.4;
-  if (agtron < 70) return 0.6;
-  if (agtron < 80) return 0.8;
-  return 1.0;
+function getUsdaScore(agtron: number, profile: SpecProfile): number {
+  const [targetMin, targetMax] = profile.agtronTarget;
+  if (agtron >= targetMin && agtron <= targetMax) return 0.5;
+  const band = profile.usdaBands.find(b => agtron < b.belowAgtron);
+  return band ? band.usdaScore : profile.usdaAbove;
 }
 
 function getProcessColorScore(usdaScore: number): { score: number; label: string } {
@@ -374,163 +449,344 @@ function getProcessColorScore(usdaScore: number): { score: number; label: string
   }
 }
 
-function getHueScore(meanH: number, meanS: number): { score: number; label: string } {
-  if (meanH >= 25 && meanH <= 40 && meanS > 0.3 && meanS < 0.6) return { score: 5, label: 'Bright Light Golden (Target)' };
-  if (meanH > 40 && meanH <= 55) return { score: 6, label: 'Creamy Yellow' };
-  if (meanH > 55 && meanH <= 70) return { score: 7, label: 'Yellow Flesh' };
-  if (meanH > 70 || meanS > 0.7) return { score: 8, label: 'Strong Yellow — Large Difference' };
-  if (meanH < 20 || meanH > 80) return { score: 9, label: 'Bright Yellow / Off-Color' };
-  if (meanH >= 20 && meanH < 25) return { score: 4, label: 'Slightly Under-colored' };
-  return { score: 5, label: 'Bright Light Golden (Target)' };
+export function getHueScore(meanH: number, meanS: number, profile: SpecProfile): { score: number; label: string } {
+  // Bands are tried in chart order and the first match wins, so the order decides shared edges
+  const band = profile.hueChart.find(b => meanH >= b.hsvHue[0] && meanH <= b.hsvHue[1]
+    && (b.saturationAbove == null || meanS > b.saturationAbove)
+    && (b.saturationAtMost == null || meanS <= b.saturationAtMost));
+  if (band) return { score: band.score, label: band.label };
+  return { score: 9, label: 'Bright Yellow / Off-Color' };
 }
 
 // ─── Phase 2: Defect Detection (Shadow-Aware) ────────────────
 
-export function detectDefects(imageData: ImageData, ppm: number = 1): DefectRegion[] {
+// Per-pixel defect classes, in blob type-priority order
+const PX_NONE = 0, PX_BURNT = 1, PX_DARK = 2, PX_MOTTLED = 3, PX_LIGHT = 4, PX_GREENING = 5, PX_DISEASE = 6;
+const PX_TYPES: DefectRegion['type'][] = ['burnt', 'burnt', 'dark', 'mottled', 'light', 'greening', 'disease'];
+const MIN_BLOB_MM2 = 1; // smaller blobs are sensor noise / crumbs
+
+// Severity models of the tuber defects (0-1)
+/** Greening: further into the green band and more saturated is worse */
+function greeningSeverity(h: number, s: number, t: DefectThresholds): number {
+  const into = (h - t.greeningMinHue) / Math.max(1, t.greeningMaxHue - t.greeningMinHue);
+  return Math.min(1, (0.5 + into) * (s / 0.3));
+}
+
+/** Black spot / bruise: how far the spot sinks below the sample */
+function diseaseSeverity(vDrop: number): number {
+  return Math.min(1, vDrop * 2);
+}
+
+/** Hollow heart: void area against its strip */
+function voidSeverity(area: number, stripArea: number): number {
+  return Math.min(1, 0.4 + (3 * area) / Math.max(1, stripArea));
+}
+
+/** Grey or blue-grey, i.e. not the browning of an over-fried spot */
+function isBruiseColour(h: number, s: number, t: DefectThresholds): boolean {
+  return s <= t.darkMinS || (h >= 180 && h <= 320);
+}
+
+/** Every pixel bordering the blob is fry (of `stripId`, when given), so it cannot be a cast shadow */
+function isEnclosed(blob: Blob, mask: Uint8Array, isFry: Uint8Array, width: number, height: number, labels?: Int32Array, stripId?: number): boolean {
+  for (const i of blob.pixels) {
+    const x = i % width, y = (i - x) / width;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx, ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) return false;
+        const j = ny * width + nx;
+        if (mask[j]) continue;
+        if (!isFry[j] || (labels && stripId && labels[j] !== stripId)) return false;
+      }
+    }
+  }
+  return true;
+}
+
+/** 3×3 box-filtered RGB over fry pixels only, so single noisy pixels do not seed blobs
+ *  and background never bleeds into the strip edge */
+function smoothRgb(data: RgbaRaster['data'], isFry: Uint8Array, width: number, height: number): Float32Array {
+  const out = new Float32Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isFry[y * width + x]) continue;
+      let r = 0, g = 0, b = 0, n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height || !isFry[ny * width + nx]) continue;
+          const i = (ny * width + nx) * 4;
+          r += data[i]; g += data[i + 1]; b += data[i + 2]; n++;
+        }
+      }
+      const o = (y * width + x) * 3;
+      out[o] = r / n; out[o + 1] = g / n; out[o + 2] = b / n;
+    }
+  }
+  return out;
+}
+
+interface Blob {
+  pixels: number[];
+  minX: number; minY: number; maxX: number; maxY: number;
+  cx: number; cy: number; // centroid
+}
+
+/** 8-connected blobs of `mask` pixels, in raster order of their first pixel */
+function extractBlobs(mask: Uint8Array, width: number, height: number): Blob[] {
+  const { labels, count } = labelComponents(mask, width, height);
+  const blobs: Blob[] = Array.from({ length: count }, () => ({
+    pixels: [], minX: width, minY: height, maxX: -1, maxY: -1, cx: 0, cy: 0,
+  }));
+  for (let i = 0; i < labels.length; i++) {
+    if (!labels[i]) continue;
+    const blob = blobs[labels[i] - 1];
+    const x = i % width, y = (i - x) / width;
+    blob.pixels.push(i);
+    blob.cx += x; blob.cy += y;
+    if (x < blob.minX) blob.minX = x; if (x > blob.maxX) blob.maxX = x;
+    if (y < blob.minY) blob.minY = y; if (y > blob.maxY) blob.maxY = y;
+  }
+  for (const blob of blobs) { blob.cx /= Math.max(1, blob.pixels.length); blob.cy /= Math.max(1, blob.pixels.length); }
+  return blobs;
+}
+
+/** Blob from an arbitrary pixel list (e.g. a sugar-end zone) */
+function pixelBlob(pixels: number[], width: number): Blob {
+  const blob: Blob = { pixels, minX: Infinity, minY: Infinity, maxX: -1, maxY: -1, cx: 0, cy: 0 };
+  for (const i of pixels) {
+    const x = i % width, y = (i - x) / width;
+    blob.cx += x; blob.cy += y;
+    if (x < blob.minX) blob.minX = x; if (x > blob.maxX) blob.maxX = x;
+    if (y < blob.minY) blob.minY = y; if (y > blob.maxY) blob.maxY = y;
+  }
+  blob.cx /= Math.max(1, pixels.length); blob.cy /= Math.max(1, pixels.length);
+  return blob;
+}
+
+function blobMask(blob: Blob, width: number): InstanceMask {
+  const w = blob.maxX - blob.minX + 1, h = blob.maxY - blob.minY + 1;
+  const data = new Uint8Array(w * h);
+  for (const i of blob.pixels) {
+    const x = i % width, y = (i - x) / width;
+    data[(y - blob.minY) * w + (x - blob.minX)] = 1;
+  }
+  return { x: blob.minX, y: blob.minY, width: w, height: h, data };
+}
+
+export interface DefectDetectionOptions {
+  segmentation?: Segmentation;
+  thresholds?: DefectThresholds;
+  foreground?: Uint8Array;       // background-model fry mask (default: saturation rule)
+  sugarEnds?: SugarEndAnalysis;  // per-strip tip grading from analyzeSugarEnds
+  glare?: Uint8Array;            // specular highlight mask from computeGlareMask
+  seasoning?: Uint8Array;        // salt / seasoning speck mask from computeSeasoningMask
+  voids?: Uint8Array;            // hollow-heart mask from findInternalVoids
+  classifier?: { model: DefectClassifierModel; fleshLab: LabColor } | null; // types blobs instead of the pixel-count vote
+  onRegion?: (region: DefectRegion, pixels: number[]) => void; // each region with the blob pixels it was built from
+}
+
+const SUGAR_END_SEVERITY: Record<SugarEndGrade, number> = { none: 0, slight: 0.4, moderate: 0.7, severe: 1 };
+export const TIP_POSITION_WEIGHT = 1.5;
+
+/**
+ * Pixel-accurate defect extraction:
+ *  1. every fry pixel is classified (shadow / burnt / greening / black spot /
+ *     dark / light / mottled) against the image's own non-shadow mean;
+ *  2. adjacent defective pixels are merged into connected blobs, so one spot
+ *     is one region no matter how it straddles any grid;
+ *  3. each blob gets its traced contour, simplified polygon, centroid and area.
+ * Shadow, glare and seasoning pixels form their own blobs and are returned as
+ * artifacts, so an oil highlight or salt crystal is never read as a light or
+ * dark defect or sugar end. A shadow-like blob enclosed by a single strip
+ * cannot be cast by anything, so it is a black spot / bruise (`disease`);
+ * internal voids become `hollow_heart` regions. Graded
+ * sugar-end zones become `sugar_end` regions, and blobs inside a strip's tip
+ * zone carry the tip position weight. Mottled blobs are returned as
+ * candidates — applyMottlingThirdRule decides per strip which ones count.
+ */
+export function detectDefects(imageData: RgbaRaster, ppm: number = 1, options: DefectDetectionOptions = {}): DefectRegion[] {
+  const {
+    segmentation, thresholds = DEFAULT_SPEC_PROFILE.defectThresholds, foreground, sugarEnds, glare, seasoning, voids, classifier, onRegion,
+  } = options;
   const { data, width, height } = imageData;
+  const n = width * height;
   const defects: DefectRegion[] = [];
-  const CELL = 20;
-  const gridW = Math.ceil(width / CELL);
-  const gridH = Math.ceil(height / CELL);
+  const minBlobArea = Math.max(4, Math.round(MIN_BLOB_MM2 * ppm * ppm));
 
-  // Pre-compute global mean HSV (for shadow reference)
+  // Fry pixels (background-model mask, else a saturation rule) + global mean HSV (for shadow reference)
+  const isFry = foreground ?? new Uint8Array(n), isShadow = new Uint8Array(n);
   let gSumV = 0, gSumS = 0, gCount = 0;
-  for (let i = 0; i < width * height; i++) {
+  for (let i = 0; i < n; i++) {
     const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2], a = data[i * 4 + 3];
     if (a < 128) continue;
     const hsv = rgbToHsv(r, g, b);
+    if (foreground) {
+      if (foreground[i] && !glare?.[i] && !seasoning?.[i]) { gSumV += hsv.v; gSumS += hsv.s; gCount++; }
+      continue;
+    }
+    if (hsv.s > 0.08 && hsv.v > 0.08) isFry[i] = 1;
     if (hsv.s > 0.08 && hsv.v > 0.1) { gSumV += hsv.v; gSumS += hsv.s; gCount++; }
   }
   const globalMeanV = gCount > 0 ? gSumV / gCount : 0.6;
   const globalMeanS = gCount > 0 ? gSumS / gCount : 0.4;
 
-  // Build cell grid
-  type CellData = HSVColor & { isFry: boolean; isShadow: boolean; shadowRatio: number };
-  const grid: CellData[][] = [];
-
-  for (let gy = 0; gy < gridH; gy++) {
-    grid[gy] = [];
-    for (let gx = 0; gx < gridW; gx++) {
-      let tH = 0, tS = 0, tV = 0, cnt = 0, shadowCount = 0;
-      let isFry = false;
-      for (let py = gy * CELL; py < Math.min((gy + 1) * CELL, height); py++) {
-        for (let px = gx * CELL; px < Math.min((gx + 1) * CELL, width); px++) {
-          const idx = (py * width + px) * 4;
-          const r = data[idx], g = data[idx + 1], b = data[idx + 2], a = data[idx + 3];
-          if (a < 128) continue;
-          const hsv = rgbToHsv(r, g, b);
-          if (hsv.s > 0.08 && hsv.v > 0.08) {
-            isFry = true;
-            tH += hsv.h; tS += hsv.s; tV += hsv.v; cnt++;
-            if (isShadowPixel(hsv, globalMeanV, globalMeanS)) shadowCount++;
-          }
-        }
-      }
-      const shadowRatio = cnt > 0 ? shadowCount / cnt : 0;
-      grid[gy][gx] = {
-        h: cnt > 0 ? tH / cnt : 0,
-        s: cnt > 0 ? tS / cnt : 0,
-        v: cnt > 0 ? tV / cnt : 0,
-        isFry,
-        isShadow: shadowRatio > 0.5, // majority shadow → mark entire cell
-        shadowRatio,
-      };
-    }
-  }
-
-  // Compute grid mean for non-shadow cells
+  // Per-pixel HSV on the smoothed image
+  const smooth = smoothRgb(data, isFry, width, height);
+  const H = new Float32Array(n), S = new Float32Array(n), V = new Float32Array(n);
   let sumH = 0, sumV = 0, validCnt = 0;
-  for (let gy = 0; gy < gridH; gy++) {
-    for (let gx = 0; gx < gridW; gx++) {
-      const cell = grid[gy][gx];
-      if (cell.isFry && !cell.isShadow) {
-        sumH += cell.h; sumV += cell.v; validCnt++;
-      }
-    }
+  for (let i = 0; i < n; i++) {
+    if (!isFry[i]) continue;
+    const hsv = rgbToHsv(smooth[i * 3], smooth[i * 3 + 1], smooth[i * 3 + 2]);
+    H[i] = hsv.h; S[i] = hsv.s; V[i] = hsv.v;
+    if (glare?.[i] || seasoning?.[i]) continue;
+    if (isShadowPixel(hsv, globalMeanV, globalMeanS)) { isShadow[i] = 1; continue; }
+    sumH += hsv.h; sumV += hsv.v; validCnt++;
   }
   const meanH = validCnt > 0 ? sumH / validCnt : 30;
   const meanV = validCnt > 0 ? sumV / validCnt : 0.7;
 
-  for (let gy = 0; gy < gridH; gy++) {
-    for (let gx = 0; gx < gridW; gx++) {
-      const cell = grid[gy][gx];
-      if (!cell.isFry) continue;
-
-      // Shadow cells → mark as artifact, exclude from scoring
-      if (cell.isShadow) {
-        const x = gx * CELL, y = gy * CELL;
-        defects.push({
-          x, y, width: Math.min(CELL, width - x), height: Math.min(CELL, height - y),
-          type: 'shadow', severity: cell.shadowRatio,
-          area: CELL * CELL, areamm2: ppm > 0 ? (CELL * CELL) / (ppm * ppm) : CELL * CELL,
-          stripCoverage: 0, positionWeight: 1, isArtifact: true,
-        });
-        continue;
-      }
+  // Graded sugar-end zones are reported as a whole, not re-classified pixel by pixel
+  const inSugarEnd = new Uint8Array(n);
+  for (const zone of sugarEnds?.zones ?? []) for (const i of zone.pixels) inSugarEnd[i] = 1;
+
+  // Per-pixel defect class + severity
+  const pxClass = new Uint8Array(n);
+  const pxSeverity = new Float32Array(n);
+  const defectMask = new Uint8Array(n);
+  for (let i = 0; i < n; i++) {
+    if (!isFry[i] || isShadow[i] || glare?.[i] || seasoning?.[i] || voids?.[i] || inSugarEnd[i]) continue;
+    const h = H[i], sat = S[i], v = V[i];
+    const vDiff = meanV - v;
+    const hDiff = Math.abs(meanH - h);
+    let cls = PX_NONE, severity = 0;
+    const t = thresholds;
+    if (v < t.burntMaxV && sat < t.burntMaxS) { cls = PX_BURNT; severity = 1 - v; }
+    else if (h >= t.greeningMinHue && h <= t.greeningMaxHue && sat >= t.greeningMinS) { cls = PX_GREENING; severity = greeningSeverity(h, sat, t); }
+    else if (vDiff > t.diseaseMinVDrop && isBruiseColour(h, sat, t)) { cls = PX_DISEASE; severity = diseaseSeverity(vDiff); }
+    else if (vDiff > t.darkMinVDrop && sat > t.darkMinS) { cls = PX_DARK; severity = vDiff; }
+    else if (v > t.lightMinV && sat < t.lightMaxS) { cls = PX_LIGHT; severity = (v - t.lightMinV) * 5; }
+    else if (hDiff > t.mottledMinHueDiff && vDiff > t.mottledMinVDrop) { cls = PX_MOTTLED; severity = hDiff / 60; }
+    if (cls === PX_NONE) continue;
+    pxClass[i] = cls; pxSeverity[i] = severity; defectMask[i] = 1;
+  }
 
-      const vDiff = meanV - cell.v;
-      const hDiff = Math.abs(meanH - cell.h);
-
-      // Contour-weighted position: cells near image edges = tips
-      const edgeRatio = Math.min(gx / gridW, (gridW - gx) / gridW, gy / gridH, (gridH - gy) / gridH);
-      const positionWeight = edgeRatio < 0.1 ? 1.5 : 1.0; // tip penalty
-
-      let defectType: DefectRegion['type'] | null = null;
-      let severity = 0;
-
-      if (cell.v < 0.22 && cell.s < 0.35) {
-        defectType = 'burnt'; severity = 1 - cell.v;
-      } else if (vDiff > 0.28 && cell.s > 0.18) {
-        defectType = 'dark'; severity = vDiff;
-      } else if (cell.v > 0.87 && cell.s < 0.22) {
-        defectType = positionWeight > 1.2 ? 'sugar_end' : 'light';
-        severity = (cell.v - 0.87) * 5;
-      } else if (hDiff > 28 && vDiff > 0.08) {
-        defectType = 'mottled'; severity = hDiff / 60;
-      }
+  const stripIdOf = (blob: Blob): number | undefined => {
+    if (!segmentation) return undefined;
+    const counts = new Map<number, number>();
+    for (const i of blob.pixels) { const id = segmentation.labels[i]; if (id) counts.set(id, (counts.get(id) ?? 0) + 1); }
+    let stripId = 0, best = 0;
+    for (const [id, c] of counts) if (c > best) { best = c; stripId = id; }
+    return stripId;
+  };
 
-      if (defectType && severity > 0.15) {
-        const x = gx * CELL, y = gy * CELL;
-        const w = Math.min(CELL, width - x), h = Math.min(CELL, height - y);
-        defects.push({
-          x, y, width: w, height: h, type: defectType,
-          severity: Math.min(1, severity * positionWeight),
-          area: w * h, areamm2: ppm > 0 ? (w * h) / (ppm * ppm) : w * h,
-          stripCoverage: 0, positionWeight, isArtifact: false,
-        });
-      }
+  // Tip zones come from the strip's own axis; off-strip blobs are never tips
+  const positionWeightOf = (blob: Blob, stripId: number | undefined): number => {
+    if (!segmentation || !sugarEnds || !stripId) return 1.0;
+    const report = sugarEnds.strips.find(s => s.stripId === stripId);
+    const strip = segmentation.instances[stripId - 1];
+    return report && strip && tipZoneAt(report, strip, { x: blob.cx, y: blob.cy }) ? TIP_POSITION_WEIGHT : 1.0;
+  };
+
+  const toRegion = (blob: Blob, type: DefectRegion['type'], severity: number, positionWeight: number, isArtifact: boolean): DefectRegion => {
+    const mask = blobMask(blob, width);
+    const contour = traceContour(mask);
+    const area = blob.pixels.length;
+    const stripId = stripIdOf(blob);
+    const region: DefectRegion = {
+      x: mask.x, y: mask.y, width: mask.width, height: mask.height,
+      type, severity, area, areamm2: pixelsToMm2(area, ppm),
+      stripCoverage: 0, positionWeight, isArtifact,
+      stripId,
+      centroid: { x: blob.cx, y: blob.cy }, contour, polygon: simplifyPolygon(contour, 1),
+    };
+    onRegion?.(region, blob.pixels);
+    return region;
+  };
+
+  // Shadow blobs → artifacts, excluded from scoring — unless enclosed by one strip (black spot / bruise)
+  for (const blob of extractBlobs(isShadow, width, height)) {
+    if (blob.pixels.length < minBlobArea) continue;
+    const stripId = stripIdOf(blob);
+    if (isEnclosed(blob, isShadow, isFry, width, height, segmentation?.labels, stripId)) {
+      let sumBlobV = 0;
+      for (const i of blob.pixels) sumBlobV += V[i];
+      const positionWeight = positionWeightOf(blob, stripId);
+      const severity = diseaseSeverity(meanV - sumBlobV / blob.pixels.length);
+      defects.push(toRegion(blob, 'disease', Math.min(1, severity * positionWeight), positionWeight, false));
+      continue;
     }
+    defects.push(toRegion(blob, 'shadow', 1, 1, true));
   }
 
-  return applyMottlingThirdRule(defects, width);
-}
+  // Hollow heart, one region per internal void
+  if (voids) {
+    for (const blob of extractBlobs(voids, width, height)) {
+      if (blob.pixels.length < minBlobArea) continue;
+      const stripId = stripIdOf(blob);
+      const strip = stripId ? segmentation?.instances[stripId - 1] : undefined;
+      const positionWeight = positionWeightOf(blob, stripId);
+      const severity = voidSeverity(blob.pixels.length, strip?.area ?? blob.pixels.length * 10);
+      defects.push(toRegion(blob, 'hollow_heart', Math.min(1, severity * positionWeight), positionWeight, false));
+    }
+  }
 
-function applyMottlingThirdRule(defects: DefectRegion[], imageWidth: number): DefectRegion[] {
-  if (defects.length === 0) return [];
-  const sorted = [...defects].sort((a, b) => a.x - b.x);
-  const stripGroups = new Map<number, DefectRegion[]>();
-  for (const d of sorted) {
-    const key = Math.round(d.y / 30);
-    if (!stripGroups.has(key)) stripGroups.set(key, []);
-    stripGroups.get(key)!.push(d);
+  // Glare blobs → artifacts (highlights are small, so no minimum area)
+  if (glare) {
+    for (const blob of extractBlobs(glare, width, height)) defects.push(toRegion(blob, 'glare', 0, 1, true));
   }
-  const result: DefectRegion[] = [];
-  for (const [, group] of stripGroups) {
-    let defectWidth = 0;
-    for (const d of group) defectWidth += d.width;
-    const coverage = defectWidth / imageWidth;
-    for (const d of group) {
-      d.stripCoverage = coverage;
-      if (d.type === 'mottled' && coverage < 0.333) continue; // 1/3 Rule
-      result.push(d);
+
+  // Salt / seasoning specks → artifacts
+  if (seasoning) {
+    for (const blob of extractBlobs(seasoning, width, height)) defects.push(toRegion(blob, 'seasoning', 0, 1, true));
+  }
+
+  // Sugar ends, one region per graded strip end
+  for (const zone of sugarEnds?.zones ?? []) {
+    if (zone.pixels.length < minBlobArea) continue;
+    const region = toRegion(pixelBlob(zone.pixels, width), 'sugar_end', SUGAR_END_SEVERITY[zone.grade], TIP_POSITION_WEIGHT, false);
+    region.sugarEndGrade = zone.grade;
+    defects.push(region);
+  }
+
+  // Defect blobs
+  for (const blob of extractBlobs(defectMask, width, height)) {
+    if (blob.pixels.length < minBlobArea) continue;
+
+    // Dominant type by pixel count; any substantial carbonised core makes it burnt
+    const counts = PX_TYPES.map(() => 0);
+    let sevSum = 0;
+    for (const i of blob.pixels) { counts[pxClass[i]]++; sevSum += pxSeverity[i]; }
+    let cls = PX_DARK;
+    if (counts[PX_BURNT] >= blob.pixels.length * 0.2) cls = PX_BURNT;
+    else for (let c = PX_BURNT; c < PX_TYPES.length; c++) if (counts[c] > counts[cls]) cls = c;
+    const severity = sevSum / blob.pixels.length;
+    if (severity <= thresholds.minSeverity) continue;
+
+    const stripId = stripIdOf(blob);
+    const positionWeight = positionWeightOf(blob, stripId);
+    if (!classifier) {
+      defects.push(toRegion(blob, PX_TYPES[cls], Math.min(1, severity * positionWeight), positionWeight, false));
+      continue;
     }
+    // A trained classifier types the blob from its colour, texture and shape — or rejects it
+    const { label, probability } = classifyRegion(classifier.model, regionFeatures(
+      blob.pixels, { raster: imageData, ppm, fleshLab: classifier.fleshLab }, { onStrip: !!stripId, atTip: positionWeight > 1 },
+    ));
+    if (label === 'background') continue;
+    const region = toRegion(blob, label, Math.min(1, severity * positionWeight), positionWeight, false);
+    region.classifierProbability = probability;
+    defects.push(region);
   }
-  return result;
+
+  for (const d of defects) if (!d.isArtifact) Object.assign(d, classifyDefectSize(d, ppm));
+  return defects;
 }
 
 // ─── Hue Histogram ───────────────────────────────────────────
 
-export function generateHueHistogram(imageData: ImageData): number[] {
+export function generateHueHistogram(imageData: RgbaRaster, foreground?: Uint8Array): number[] {
   const { data, width, height } = imageData;
   const bins = new Array(36).fill(0);
   let total = 0;
@@ -538,7 +794,7 @@ export function generateHueHistogram(imageData: ImageData): number[] {
     const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2], a = data[i * 4 + 3];
     if (a < 128) continue;
     const hsv = rgbToHsv(r, g, b);
-    if (hsv.s > 0.1 && hsv.v > 0.15) {
+    if (foreground ? foreground[i] : hsv.s > 0.1 && hsv.v > 0.15) {
       bins[Math.min(35, Math.floor(hsv.h / 10))]++;
       total++;
     }
@@ -549,7 +805,7 @@ export function generateHueHistogram(imageData: ImageData): number[] {
 
 // ─── Shadow-Suppressed Heatmap ───────────────────────────────
 
-export function generateHeatmap(imageData: ImageData, gridSize = 20): number[][] {
+export function generateHeatmap(imageData: RgbaRaster, gridSize = 20, foreground?: Uint8Array): number[][] {
   const { data, width, height } = imageData;
   const gW = Math.ceil(width / gridSize);
   const gH = Math.ceil(height / gridSize);
@@ -559,7 +815,7 @@ export function generateHeatmap(imageData: ImageData, gridSize = 20): number[][]
   let gV = 0, gS = 0, gCnt = 0;
   for (let i = 0; i < width * height; i++) {
     const hsv = rgbToHsv(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
-    if (data[i * 4 + 3] >= 128 && hsv.s > 0.08 && hsv.v > 0.1) {
+    if (data[i * 4 + 3] >= 128 && (foreground ? foreground[i] : hsv.s > 0.08 && hsv.v > 0.1)) {
       gV += hsv.v; gS += hsv.s; gCnt++;
     }
   }
@@ -575,10 +831,11 @@ export function generateHeatmap(imageData: ImageData, gridSize = 20): number[][]
           const idx = (py * width + px) * 4;
           const a = data[idx + 3];
           if (a < 128) continue;
+          if (foreground && !foreground[py * width + px]) continue;
           const hsv = rgbToHsv(data[idx], data[idx + 1], data[idx + 2]);
           // Skip shadow pixels — they are NOT burn defects
           if (isShadowPixel(hsv, meanV, meanS)) continue;
-          if (hsv.s > 0.05 || hsv.v < 0.5) {
+          if (foreground || hsv.s > 0.05 || hsv.v < 0.5) {
             sumBurn += 1 - hsv.v;
             cnt++;
           }
@@ -592,7 +849,7 @@ export function generateHeatmap(imageData: ImageData, gridSize = 20): number[][]
 
 // ─── Grad-CAM Style Explainability Map ───────────────────────
 
-function generateGradCam(imageData: ImageData, defects: DefectRegion[], gridSize = 20): number[][] {
+function generateGradCam(imageData: RgbaRaster, defects: DefectRegion[], gridSize = 20): number[][] {
   const { width, height } = imageData;
   const gW = Math.ceil(width / gridSize);
   const gH = Math.ceil(height / gridSize);
@@ -600,8 +857,8 @@ function generateGradCam(imageData: ImageData, defects: DefectRegion[], gridSize
 
   for (const d of defects) {
     if (d.isArtifact) continue;
-    const gx = Math.floor(d.x / gridSize);
-    const gy = Math.floor(d.y / gridSize);
+    const gx = Math.floor(d.centroid.x / gridSize);
+    const gy = Math.floor(d.centroid.y / gridSize);
     const radius = 2;
     for (let dy = -radius; dy <= radius; dy++) {
       for (let dx = -radius; dx <= radius; dx++) {
@@ -642,139 +899,405 @@ export function calculatePQI(scores: number[]): number {
   return fuzzyPQI(scores);
 }
 
-// ─── Main Analysis Entry Point ───────────────────────────────
-
-export async function analyzeImage(imageData: ImageData, ppm: number = 1): Promise<AnalysisResult> {
-  const start = Date.now();
-
-  // Work on a copy so white-balance doesn't mutate the canvas
-  const rawData = new Uint8ClampedArray(imageData.data);
+// ─── Analysis Pipeline ───────────────────────────────────────
+
+/** Fry pixels that show flesh colour, and the rest of the fry (glare, seasoning, voids) */
+function fleshMasks(state: Pick<PipelineState, 'foreground' | 'glare' | 'seasoning' | 'voids'>): { colourMask: Uint8Array; notFlesh: Uint8Array } {
+  const isFry = state.foreground.data;
+  const n = isFry.length;
+  const colourMask = new Uint8Array(n), notFlesh = new Uint8Array(n);
+  for (let i = 0; i < n; i++) {
+    if (!isFry[i]) continue;
+    if (state.glare[i] || state.seasoning[i] || state.voids[i]) notFlesh[i] = 1;
+    else colourMask[i] = 1;
+  }
+  return { colourMask, notFlesh };
+}
 
-  // Phase 1a: White Balance
-  const wbGains = estimateWhiteBalance(rawData, imageData.width, imageData.height);
-  const wbData = new Uint8ClampedArray(rawData);
-  applyWhiteBalance(wbData, wbGains);
-  const wbImageData = new ImageData(wbData, imageData.width, imageData.height);
+/**
+ * The 'scoring' stage: appearance scores and fuzzy PQI from the fry colour
+ * statistics, the final defect list and strip mottling. Review re-grading
+ * calls it too, on the stored statistics.
+ */
+export function scoreAppearance(
+  state: Pick<PipelineState, 'stats' | 'defects' | 'stripMottling'>, profile: SpecProfile, agtronModel: AgtronModel | null,
+): AppearanceScores {
+  const { stats } = state;
 
-  const { data, width, height } = wbImageData;
+  // Phase 1: ΔE2000 vs McDonald's Gold → Phase 3: Maillard Risk
+  const dE = deltaE2000(rgbToLab(stats.meanR, stats.meanG, stats.meanB), profile.targetLab);
+  const { risk: maillardRisk, index: acrylamideIndex } = computeMaillardRisk(dE);
 
-  // Phase 3: Crunch score on raw (before WB)
-  const crunchScore = computeCrunchScore(rawData, width, height);
+  // USDA / Process scores
+  const agtronScore = agtronModel
+    ? Math.round(predictAgtron(agtronModel, extractAgtronFeatures(stats.meanR, stats.meanG, stats.meanB)))
+    : estimateAgtron(stats.meanR, stats.meanG, stats.meanB);
+  const usdaColorScore = getUsdaScore(agtronScore, profile);
+  const { score: processColorScore } = getProcessColorScore(usdaColorScore);
+  const { score: hueScore } = getHueScore(stats.meanH, stats.meanS, profile);
 
-  // Pixel pass: stats
-  let tR = 0, tG = 0, tB = 0, tH = 0, tS = 0, tV = 0;
-  let darkPx = 0, burnedPx = 0, lightPx = 0, shadowPx = 0;
-  const hueValues: number[] = [];
-  let validPx = 0;
+  // Mottling — share of strips failing the 1/3 rule; defects — McCain template size classes
+  const { mottledStripShare, defectPoints } = profile.scoreCutoffs;
+  const mottlingScore = getMottlingScore(state.stripMottling, mottledStripShare);
+  const defectScore = getDefectScore(state.defects.filter(d => !d.isArtifact), stats.burnedRatio, defectPoints);
 
-  // Pre-pass for global mean (for shadow detection)
-  let gSumV = 0, gSumS = 0, gCount = 0;
-  for (let i = 0; i < width * height; i++) {
-    const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2], a = data[i * 4 + 3];
-    if (a < 128) continue;
-    const hsv = rgbToHsv(r, g, b);
-    if (hsv.s > 0.08 && hsv.v > 0.1) { gSumV += hsv.v; gSumS += hsv.s; gCount++; }
-  }
-  const globalMeanV = gCount > 0 ? gSumV / gCount : 0.6;
-  const globalMeanS = gCount > 0 ? gSumS / gCount : 0.4;
-
-  for (let i = 0; i < width * height; i++) {
-    const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2], a = data[i * 4 + 3];
-    if (a < 128) continue;
-    const hsv = rgbToHsv(r, g, b);
-    if (hsv.s < 0.05 && hsv.v > 0.92) continue; // skip near-white background
-
-    // Shadow suppression
-    if (isShadowPixel(hsv, globalMeanV, globalMeanS)) { shadowPx++; continue; }
-
-    tR += r; tG += g; tB += b;
-    tH += hsv.h; tS += hsv.s; tV += hsv.v;
-    validPx++;
-    if (hsv.s > 0.1) hueValues.push(hsv.h);
-    if (hsv.v < 0.2 && hsv.s < 0.3) burnedPx++;
-    else if (hsv.v < 0.35) darkPx++;
-    else if (hsv.v > 0.85 && hsv.s < 0.2) lightPx++;
-  }
-  if (validPx === 0) validPx = 1;
+  // Phase 4: Fuzzy PQI; confidence = how many scores are exactly 5
+  const scores = [processColorScore, hueScore, mottlingScore, defectScore];
+  return {
+    agtronScore, usdaColorScore, processColorScore, hueScore, mottlingScore, defectScore,
+    deltaE2000: dE, maillardRisk, acrylamideIndex,
+    pqi: fuzzyPQI(scores),
+    fuzzyConfidence: scores.filter(s => s === 5).length / scores.length,
+  };
+}
 
-  const meanR = tR / validPx, meanG = tG / validPx, meanB = tB / validPx;
-  const meanH = tH / validPx, meanS = tS / validPx, meanV = tV / validPx;
+/**
+ * The 'defects' stage's detection: regions typed by the profile's rules or
+ * classifier, after the 1/3 mottling rule. Classifier training calls it too,
+ * so it learns from exactly the regions and pixels inference types.
+ */
+export function detectStageDefects(
+  state: Pick<PipelineState, 'corrected' | 'foreground' | 'glare' | 'seasoning' | 'voids' | 'segmentation' | 'sugarEnds' | 'stats'>,
+  ppm: number, profile: SpecProfile, onRegion?: DefectDetectionOptions['onRegion'],
+): { defects: DefectRegion[]; strips: StripMottling[] } {
+  const { segmentation, stats } = state;
+  const model = profile.defectClassifier;
+  const candidates = detectDefects(state.corrected, ppm, {
+    segmentation, thresholds: profile.defectThresholds, foreground: state.foreground.data,
+    sugarEnds: state.sugarEnds, glare: state.glare, seasoning: state.seasoning, voids: state.voids,
+    classifier: model && { model, fleshLab: rgbToLab(stats.meanR, stats.meanG, stats.meanB) },
+    onRegion,
+  });
+  return applyMottlingThirdRule(candidates, segmentation);
+}
 
-  hueValues.sort((a, b) => a - b);
-  const medianHue = hueValues.length > 0 ? hueValues[Math.floor(hueValues.length / 2)] : 30;
+const emptyMask = (raster: RgbaRaster) => new Uint8Array(raster.width * raster.height);
+
+/** The built-in stages, in order */
+export const DEFAULT_PIPELINE: AnalysisStage[] = [
+  {
+    // Phase 1a: checker CCM when a chart is found, else white balance
+    id: 'color_correction', version: 1, label: 'Colour checker / white balance',
+    inputs: ['raw'], outputs: ['corrected', 'whiteBalanceGain', 'colorCorrection'],
+    run(state, { options }) {
+      const { data: rawData, width, height } = state.raw;
+      const wbData = new Uint8ClampedArray(rawData);
+      const chart = options.colorChecker ?? 'auto';
+      const chartCorners = chart === 'off' ? null
+        : chart === 'auto' ? detectColorChecker(rawData as Uint8ClampedArray, width, height)
+        : chart;
+      const ccm = chartCorners && fitColorChecker(rawData as Uint8ClampedArray, width, height, chartCorners, chart === 'auto' ? 'auto' : 'manual');
+      if (ccm?.matrix && chartCorners) {
+        applyColorCorrection(wbData, ccm.matrix);
+        maskColorChecker(wbData, width, height, chartCorners);
+        state.whiteBalanceGain = [1, 1, 1];
+        state.colorCorrection = ccm;
+      } else {
+        state.whiteBalanceGain = estimateWhiteBalance(rawData as Uint8ClampedArray, width, height);
+        applyWhiteBalance(wbData, state.whiteBalanceGain);
+        state.colorCorrection = { method: 'white_balance', source: null, matrix: null, corners: null, patches: [], meanDeltaE: 0, maxDeltaE: 0 };
+      }
+      state.corrected = { data: wbData, width, height };
+    },
+    skip(state) {
+      state.corrected = { ...state.raw, data: new Uint8ClampedArray(state.raw.data) };
+      state.whiteBalanceGain = [1, 1, 1];
+      state.colorCorrection = { method: 'none', source: null, matrix: null, corners: null, patches: [], meanDeltaE: 0, maxDeltaE: 0 };
+    },
+  },
+  {
+    // One fry mask for segmentation, stats, defects and maps. A chroma key is
+    // picked as the camera sees the tray, so it gets the same correction.
+    id: 'background', version: 1, label: 'Background model',
+    inputs: ['corrected', 'whiteBalanceGain', 'colorCorrection'], outputs: ['foreground'],
+    run(state, { options }) {
+      let background = options.background ?? DEFAULT_BACKGROUND_MODEL;
+      if (background.method === 'chroma_key') {
+        const key = background.keyColor ?? DEFAULT_BACKGROUND_MODEL.keyColor!;
+        const { matrix } = state.colorCorrection;
+        const gains = state.whiteBalanceGain;
+        const keyColor = matrix
+          ? correctColor(key, matrix)
+          : { r: Math.min(255, key.r * gains[0]), g: Math.min(255, key.g * gains[1]), b: Math.min(255, key.b * gains[2]) };
+        background = { ...background, keyColor };
+      }
+      state.foreground = computeForegroundMask(state.corrected, background);
+    },
+  },
+  {
+    // Specular oil highlights: kept out of colour means, the hue histogram and defects
+    id: 'glare', version: 1, label: 'Specular glare masking',
+    inputs: ['corrected', 'foreground'], outputs: ['glare'],
+    run(state, { ppm }) { state.glare = computeGlareMask(state.corrected, state.foreground.data, ppm); },
+    skip(state) { state.glare = emptyMask(state.raw); },
+  },
+  {
+    // Salt crystals and seasoning flecks: artifacts, like glare
+    id: 'seasoning', version: 1, label: 'Salt / seasoning masking',
+    inputs: ['corrected', 'foreground', 'glare'], outputs: ['seasoning'],
+    run(state, { ppm, profile }) {
+      state.seasoning = computeSeasoningMask(state.corrected, state.foreground.data, ppm, profile.seasoning, state.glare);
+    },
+    skip(state) { state.seasoning = emptyMask(state.raw); },
+  },
+  {
+    // Capture quality on the camera pixels (correction can itself clip channels)
+    id: 'quality', version: 2, label: 'Image quality gate',
+    inputs: ['raw', 'foreground', 'glare'], outputs: ['quality'],
+    run(state, { ppm }) { state.quality = assessImageQuality(state.raw, ppm, state.foreground.data, state.glare); },
+    skip(state) { state.quality = { level: 'ok', checks: [] }; },
+  },
+  {
+    // Fry instances: touching-strip split within the foreground
+    id: 'segmentation', version: 1, label: 'Fry instance segmentation',
+    inputs: ['corrected', 'foreground'], outputs: ['segmentation'],
+    run(state, { ppm }) { state.segmentation = segmentFries(state.corrected, ppm, { foreground: state.foreground.data }); },
+  },
+  {
+    // Tray seen through a hole inside one strip
+    id: 'hollow_heart', version: 2, label: 'Hollow-heart voids',
+    inputs: ['corrected', 'foreground', 'segmentation', 'glare', 'seasoning'], outputs: ['voids'],
+    run(state, { profile }) {
+      // A salt crystal on a pale tray looks like the tray showing through; it stays seasoning
+      const { glare, seasoning } = state;
+      const exclude = glare.map((g, i) => g | seasoning[i]);
+      state.voids = findInternalVoids(state.corrected, state.foreground, state.segmentation, profile.defectThresholds.voidMaxDeltaE, exclude);
+    },
+    skip(state) { state.voids = emptyMask(state.raw); },
+  },
+  {
+    // Phase 3: Crunch score on raw (before WB)
+    id: 'crunch', version: 1, label: 'FFT crust micro-topography',
+    inputs: ['raw'], outputs: ['crunchScore'],
+    run(state) { state.crunchScore = computeCrunchScore(state.raw.data as Uint8ClampedArray, state.raw.width, state.raw.height); },
+    skip(state) { state.crunchScore = 0; },
+  },
+  {
+    id: 'stats', version: 1, label: 'Pixel statistics',
+    inputs: ['corrected', 'foreground', 'glare', 'seasoning', 'voids'], outputs: ['stats'],
+    run(state) {
+      const { data, width, height } = state.corrected;
+      const n = width * height;
+      const { colourMask } = fleshMasks(state);
+      let tR = 0, tG = 0, tB = 0, tH = 0, tS = 0, tV = 0;
+      let darkPx = 0, burnedPx = 0, lightPx = 0, shadowPx = 0;
+      const hueValues: number[] = [];
+      let validPx = 0;
+
+      // Pre-pass for global mean (for shadow detection)
+      let gSumV = 0, gSumS = 0, gCount = 0;
+      for (let i = 0; i < n; i++) {
+        if (!colourMask[i]) continue;
+        const hsv = rgbToHsv(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+        gSumV += hsv.v; gSumS += hsv.s; gCount++;
+      }
+      const globalMeanV = gCount > 0 ? gSumV / gCount : 0.6;
+      const globalMeanS = gCount > 0 ? gSumS / gCount : 0.4;
+
+      for (let i = 0; i < n; i++) {
+        if (!colourMask[i]) continue;
+        const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+        const hsv = rgbToHsv(r, g, b);
+
+        // Shadow suppression
+        if (isShadowPixel(hsv, globalMeanV, globalMeanS)) { shadowPx++; continue; }
+
+        tR += r; tG += g; tB += b;
+        tH += hsv.h; tS += hsv.s; tV += hsv.v;
+        validPx++;
+        if (hsv.s > 0.1) hueValues.push(hsv.h);
+        if (hsv.v < 0.2 && hsv.s < 0.3) burnedPx++;
+        else if (hsv.v < 0.35) darkPx++;
+        else if (hsv.v > 0.85 && hsv.s < 0.2) lightPx++;
+      }
+      if (validPx === 0) validPx = 1;
+
+      let fryPx = 0, glarePx = 0, seasoningPx = 0;
+      const isFry = state.foreground.data;
+      for (let i = 0; i < n; i++) {
+        if (!isFry[i]) continue;
+        fryPx++;
+        if (state.glare[i]) glarePx++;
+        if (state.seasoning[i]) seasoningPx++;
+      }
 
-  // Phase 1: ΔE2000 vs McDonald's Gold
-  const meanLab = rgbToLab(meanR, meanG, meanB);
-  const dE = deltaE2000(meanLab, MC_GOLD_LAB);
+      hueValues.sort((a, b) => a - b);
+      state.stats = {
+        meanR: tR / validPx, meanG: tG / validPx, meanB: tB / validPx,
+        meanH: tH / validPx, meanS: tS / validPx, meanV: tV / validPx,
+        medianHue: hueValues.length > 0 ? hueValues[Math.floor(hueValues.length / 2)] : 30,
+        darkRatio: darkPx / validPx, burnedRatio: burnedPx / validPx, lightRatio: lightPx / validPx,
+        validPixels: validPx,
+        shadowMaskRatio: shadowPx / (validPx + shadowPx + 1),
+        glareMaskRatio: fryPx > 0 ? glarePx / fryPx : 0,
+        seasoningCoverage: fryPx > 0 ? seasoningPx / fryPx : 0,
+      };
+    },
+  },
+  {
+    id: 'sugar_ends', version: 1, label: 'Sugar-end grading',
+    inputs: ['corrected', 'foreground', 'glare', 'seasoning', 'voids', 'segmentation'], outputs: ['sugarEnds'],
+    run(state, { ppm, profile }) {
+      state.sugarEnds = analyzeSugarEnds(state.corrected, state.segmentation.instances, ppm, profile.sugarEnds, fleshMasks(state).notFlesh);
+    },
+    skip(state) { state.sugarEnds = { strips: [], zones: [] }; },
+  },
+  {
+    id: 'defects', version: 1, label: 'Shadow-aware defect detection',
+    inputs: ['corrected', 'foreground', 'glare', 'seasoning', 'voids', 'segmentation', 'sugarEnds', 'stats'], outputs: ['defects', 'stripMottling'],
+    run(state, { ppm, profile }) {
+      const { defects, strips } = detectStageDefects(state, ppm, profile);
+      state.defects = defects;
+      state.stripMottling = strips;
+    },
+  },
+  {
+    id: 'scoring', version: 1, label: 'Fuzzy PQI scoring',
+    inputs: ['stats', 'defects', 'stripMottling'], outputs: ['scores'],
+    run(state, { profile, options }) { state.scores = scoreAppearance(state, profile, options.agtronModel ?? null); },
+  },
+  {
+    id: 'histogram', version: 1, label: 'Hue histogram',
+    inputs: ['corrected', 'foreground', 'glare', 'seasoning', 'voids'], outputs: ['hueHistogram'],
+    run(state) { state.hueHistogram = generateHueHistogram(state.corrected, fleshMasks(state).colourMask); },
+    skip(state) { state.hueHistogram = new Array(36).fill(0); },
+  },
+  {
+    id: 'heatmap', version: 1, label: 'Defect heatmap',
+    inputs: ['corrected', 'foreground'], outputs: ['heatmapData'],
+    run(state) { state.heatmapData = generateHeatmap(state.corrected, 20, state.foreground.data); },
+    skip(state) { state.heatmapData = []; },
+  },
+  {
+    id: 'gradcam', version: 1, label: 'Grad-CAM explainability',
+    inputs: ['corrected', 'defects'], outputs: ['gradCamData'],
+    run(state) { state.gradCamData = generateGradCam(state.corrected, state.defects); },
+    skip(state) { state.gradCamData = []; },
+  },
+];
+
+/** Stages a spec profile may switch off (the rest are required) */
+export const OPTIONAL_STAGES = DEFAULT_PIPELINE.filter(s => s.skip).map(s => ({ id: s.id, label: s.label }));
+
+/** Result fields that follow from the appearance scores and the final defect list */
+function gradeFields(scores: AppearanceScores, defects: DefectRegion[], profile: SpecProfile) {
+  const realDefects = defects.filter(d => !d.isArtifact);
+  return {
+    usdaColorScore: scores.usdaColorScore,
+    usdaScoreLabel: getUsdaLabel(scores.usdaColorScore),
+    processColorScore: scores.processColorScore,
+    hueScore: scores.hueScore,
+    mottlingScore: scores.mottlingScore,
+    defectScore: scores.defectScore,
+    overallAppearanceScore: Math.max(scores.processColorScore, scores.hueScore, scores.mottlingScore, scores.defectScore),
+    defects,
+    pqi: scores.pqi,
+    defectCount: realDefects.length,
+    acrylamideIndex: scores.acrylamideIndex,
+    defectSizes: countDefectSizes(realDefects),
+    disposition: getDisposition(scores.pqi, profile.limits),
+  } satisfies Partial<AnalysisResult>;
+}
 
-  // Phase 3: Maillard Risk
-  const { risk: maillardRisk, index: acrylamideIndex } = computeMaillardRisk(dE);
+// ─── Main Analysis Entry Point ───────────────────────────────
 
-  // USDA / Process scores
-  const agtronScore = estimateAgtron(meanR, meanG, meanB);
-  const usdaColorScore = getUsdaScore(agtronScore);
-  const { score: processColorScore } = getProcessColorScore(usdaColorScore);
-  const { score: hueScore } = getHueScore(meanH, meanS);
-
-  // Defect detection (shadow-aware)
-  const allDefects = detectDefects(wbImageData, ppm);
-  const realDefects = allDefects.filter(d => !d.isArtifact);
-  const defectCount = realDefects.length;
-  const shadowMaskRatio = shadowPx / (validPx + shadowPx + 1);
-  const burnedRatio = burnedPx / validPx;
-  const darkRatio = darkPx / validPx;
-
-  // Mottling score
-  let mottlingScore = 5;
-  const mottledDefects = realDefects.filter(d => d.type === 'mottled' || d.type === 'dark');
-  if (mottledDefects.length >= 20) mottlingScore = 9;
-  else if (mottledDefects.length >= 15) mottlingScore = 8;
-  else if (mottledDefects.length >= 10) mottlingScore = 7;
-  else if (mottledDefects.length >= 5) mottlingScore = 6;
-
-  // Defect score — position-weighted
-  const weightedDefectSeverity = realDefects.reduce((sum, d) => sum + d.severity * d.positionWeight, 0);
-  let defectScore = 5;
-  if (burnedRatio > 0.3 || weightedDefectSeverity > 15) defectScore = 9;
-  else if (burnedRatio > 0.2 || weightedDefectSeverity > 10) defectScore = 8;
-  else if (burnedRatio > 0.1 || weightedDefectSeverity > 6) defectScore = 7;
-  else if (burnedRatio > 0.05 || weightedDefectSeverity > 3) defectScore = 6;
+/** Browser adapter over analyzePixels — DOM ImageData in, same AnalysisResult out */
+export async function analyzeImage(imageData: ImageData, ppm: number = 1, options: AnalysisOptions = {}): Promise<AnalysisResult> {
+  return analyzePixels(imageData, ppm, options);
+}
 
-  const scores = [processColorScore, hueScore, mottlingScore, defectScore];
+/**
+ * Pure analysis core: raw RGBA buffer in, AnalysisResult out. Uses no DOM
+ * APIs, so the same engine serves the browser, Node tools and test suites.
+ * The input buffer is never mutated. Runs `options.pipeline` (default
+ * DEFAULT_PIPELINE) with the stages the spec profile disables skipped.
+ */
+export function analyzePixels(raster: RgbaRaster, ppm: number = 1, options: AnalysisOptions = {}): AnalysisResult {
+  const start = Date.now();
+  const profile = options.profile ?? DEFAULT_SPEC_PROFILE;
+  const { width, height } = raster;
+  if (raster.data.length < width * height * 4) {
+    throw new RangeError(`Raster buffer holds ${raster.data.length} bytes, expected ${width * height * 4} for ${width}×${height} RGBA`);
+  }
 
-  // Phase 4: Fuzzy PQI
-  const pqi = fuzzyPQI(scores);
+  // Work on a copy so colour correction doesn't mutate the caller's pixels
+  const state: Partial<PipelineState> = {
+    raw: { data: new Uint8ClampedArray(raster.data.subarray(0, width * height * 4)), width, height },
+  };
+  const engine = runPipeline(options.pipeline ?? DEFAULT_PIPELINE, state, { ppm, profile, options }, DEFAULT_PIPELINE, options.onProgress);
+  const s = state as Required<PipelineState>;
+  const { stats, scores } = s;
 
-  // Fuzzy confidence = how many scores are exactly 5
-  const fuzzyConfidence = scores.filter(s => s === 5).length / scores.length;
+  return {
+    pixelStats: {
+      meanR: stats.meanR, meanG: stats.meanG, meanB: stats.meanB,
+      meanH: stats.meanH, meanS: stats.meanS, meanV: stats.meanV,
+      medianHue: stats.medianHue, darkPixelRatio: stats.darkRatio,
+      burnedPixelRatio: stats.burnedRatio, lightPixelRatio: stats.lightRatio,
+      totalPixels: stats.validPixels, agtronScore: scores.agtronScore,
+      agtronStation: options.agtronModel?.station ?? null,
+      whiteBalanceGain: s.whiteBalanceGain,
+      shadowMaskRatio: stats.shadowMaskRatio,
+      glareMaskRatio: stats.glareMaskRatio,
+      seasoningCoverage: stats.seasoningCoverage,
+      crunchScore: s.crunchScore,
+      maillardRisk: scores.maillardRisk,
+      deltaE2000: scores.deltaE2000,
+      fuzzyConfidence: scores.fuzzyConfidence,
+    },
+    ...gradeFields(scores, s.defects, profile),
+    hueHistogram: s.hueHistogram,
+    heatmapData: s.heatmapData,
+    analysisTime: Date.now() - start,
+    gradCamData: s.gradCamData,
+    strips: s.segmentation.instances,
+    lengthDistribution: gradeLengthDistribution(s.segmentation.instances, ppm, { width, height }, profile.lengthSpecs),
+    cutSizeConformity: gradeCutSize(s.segmentation.instances, ppm, profile.cutSize),
+    sugarEnds: s.sugarEnds.strips,
+    stripMottling: s.stripMottling,
+    colorCorrection: s.colorCorrection,
+    foreground: s.foreground,
+    quality: s.quality,
+    specProfile: profile,
+    engine,
+  };
+}
 
-  // Explainability
-  const gradCamData = generateGradCam(wbImageData, allDefects);
-  const hueHistogram = generateHueHistogram(wbImageData);
-  const heatmapData = generateHeatmap(wbImageData);
-  const overallAppearanceScore = Math.max(...scores);
+/**
+ * Re-grade a result whose defect list was corrected by a reviewer. Strip
+ * mottling is re-measured from the mottled regions as given (a reviewer's
+ * mottled region is not second-guessed by the 1/3 rule), then the 'scoring'
+ * stage's own scoreAppearance runs on the stored colour statistics — PQI
+ * moves exactly as if the engine had found these defects. Colour is not
+ * re-measured. A result scored by a custom 'scoring' stage cannot be re-graded.
+ */
+export function rescoreDefects(
+  result: AnalysisResult, defects: DefectRegion[], options: Pick<AnalysisOptions, 'agtronModel'> = {},
+): AnalysisResult {
+  if (result.engine.stages.some(stage => stage.id === 'scoring' && stage.custom)) {
+    throw new Error('Result was scored by a custom "scoring" stage and cannot be re-graded');
+  }
+  const profile = result.specProfile;
+  const p = result.pixelStats;
+  const state: Pick<PipelineState, 'stats' | 'defects' | 'stripMottling'> = {
+    stats: {
+      meanR: p.meanR, meanG: p.meanG, meanB: p.meanB, meanH: p.meanH, meanS: p.meanS, meanV: p.meanV,
+      medianHue: p.medianHue, darkRatio: p.darkPixelRatio, burnedRatio: p.burnedPixelRatio, lightRatio: p.lightPixelRatio,
+      validPixels: p.totalPixels, shadowMaskRatio: p.shadowMaskRatio, glareMaskRatio: p.glareMaskRatio, seasoningCoverage: p.seasoningCoverage,
+    },
+    defects,
+    stripMottling: measureStripMottling(defects, { instances: result.strips }),
+  };
+  const scores = scoreAppearance(state, profile, options.agtronModel ?? null);
 
   return {
+    ...result,
+    ...gradeFields(scores, defects, profile),
     pixelStats: {
-      meanR, meanG, meanB, meanH, meanS, meanV,
-      medianHue, darkPixelRatio: darkRatio,
-      burnedPixelRatio: burnedRatio, lightPixelRatio: lightPx / validPx,
-      totalPixels: validPx, agtronScore,
-      whiteBalanceGain: wbGains,
-      shadowMaskRatio,
-      crunchScore,
-      maillardRisk,
-      deltaE2000: dE,
-      fuzzyConfidence,
+      ...p,
+      agtronScore: scores.agtronScore, maillardRisk: scores.maillardRisk,
+      deltaE2000: scores.deltaE2000, fuzzyConfidence: scores.fuzzyConfidence,
     },
-    usdaColorScore,
-    usdaScoreLabel: getUsdaLabel(usdaColorScore),
-    processColorScore, hueScore, mottlingScore, defectScore,
-    overallAppearanceScore,
-    defects: allDefects,
-    pqi, defectCount,
-    hueHistogram, heatmapData,
-    analysisTime: Date.now() - start,
-    gradCamData, acrylamideIndex,
+    stripMottling: state.stripMottling,
   };
 }
@@ -0,0 +1,328 @@
+// Colour Correction - 24-patch colour checker detection + 3×3 CCM fit
+
+import { rgbToLab, deltaE2000, type RGBColor } from './colorAnalysis';
+import { leastSquares, multiplyMatrix3, type Matrix3, type Vector3 } from './linalg';
+import type { Point } from './segmentation';
+
+// ─── Reference Chart ─────────────────────────────────────────
+
+/** Standard 24-patch colour checker, row-major from the dark-skin corner (sRGB D65) */
+export const COLOR_CHECKER_PATCHES: { name: string; srgb: RGBColor }[] = [
+  { name: 'Dark skin',     srgb: { r: 115, g: 82,  b: 68 } },
+  { name: 'Light skin',    srgb: { r: 194, g: 150, b: 130 } },
+  { name: 'Blue sky',      srgb: { r: 98,  g: 122, b: 157 } },
+  { name: 'Foliage',       srgb: { r: 87,  g: 108, b: 67 } },
+  { name: 'Blue flower',   srgb: { r: 133, g: 128, b: 177 } },
+  { name: 'Bluish green',  srgb: { r: 103, g: 189, b: 170 } },
+  { name: 'Orange',        srgb: { r: 214, g: 126, b: 44 } },
+  { name: 'Purplish blue', srgb: { r: 80,  g: 91,  b: 166 } },
+  { name: 'Moderate red',  srgb: { r: 193, g: 90,  b: 99 } },
+  { name: 'Purple',        srgb: { r: 94,  g: 60,  b: 108 } },
+  { name: 'Yellow green',  srgb: { r: 157, g: 188, b: 64 } },
+  { name: 'Orange yellow', srgb: { r: 224, g: 163, b: 46 } },
+  { name: 'Blue',          srgb: { r: 56,  g: 61,  b: 150 } },
+  { name: 'Green',         srgb: { r: 70,  g: 148, b: 73 } },
+  { name: 'Red',           srgb: { r: 175, g: 54,  b: 60 } },
+  { name: 'Yellow',        srgb: { r: 231, g: 199, b: 31 } },
+  { name: 'Magenta',       srgb: { r: 187, g: 86,  b: 149 } },
+  { name: 'Cyan',          srgb: { r: 8,   g: 133, b: 161 } },
+  { name: 'White 9.5',     srgb: { r: 243, g: 243, b: 242 } },
+  { name: 'Neutral 8',     srgb: { r: 200, g: 200, b: 200 } },
+  { name: 'Neutral 6.5',   srgb: { r: 160, g: 160, b: 160 } },
+  { name: 'Neutral 5',     srgb: { r: 122, g: 122, b: 121 } },
+  { name: 'Neutral 3.5',   srgb: { r: 85,  g: 85,  b: 85 } },
+  { name: 'Black 2',       srgb: { r: 52,  g: 52,  b: 52 } },
+];
+
+const CHART_COLS = 6;
+const CHART_ROWS = 4;
+const NEUTRAL_START = 18; // bottom row: white → black
+
+// Auto-detection is accepted below this mean residual (ΔE2000 after the fit)
+const MAX_AUTO_DELTA_E = 8;
+// Search raster size for auto-detection
+const SEARCH_MAX_DIM = 200;
+
+/** Chart outline: top-left is the dark-skin corner, top-right the bluish-green corner */
+export type ChartCorners = [Point, Point, Point, Point];
+
+/** 'auto' searches the frame, 'off' skips the chart, corners mark it by hand */
+export type ColorCheckerSource = 'auto' | 'off' | ChartCorners;
+
+export interface PatchResidual {
+  index: number;
+  name: string;
+  reference: RGBColor;
+  measured: RGBColor;   // camera value, before correction
+  corrected: RGBColor;  // after the CCM
+  deltaE: number;       // ΔE2000 corrected vs reference
+}
+
+export interface ColorCorrectionReport {
+  method: 'ccm' | 'white_balance' | 'none'; // 'none' = stage disabled by the spec profile
+  source: 'auto' | 'manual' | null;   // how the chart was located (null = no chart)
+  matrix: Matrix3 | null;             // linear-RGB CCM, rows = output channel
+  corners: ChartCorners | null;
+  patches: PatchResidual[];
+  meanDeltaE: number;
+  maxDeltaE: number;
+}
+
+// ─── sRGB Transfer ───────────────────────────────────────────
+
+const TO_LINEAR = new Float64Array(256);
+for (let i = 0; i < 256; i++) {
+  const c = i / 255;
+  TO_LINEAR[i] = c > 0.04045 ? Math.pow((c + 0.055) / 1.055, 2.4) : c / 12.92;
+}
+
+const ENCODE_STEPS = 4096;
+const TO_SRGB = new Uint8ClampedArray(ENCODE_STEPS + 1);
+for (let i = 0; i <= ENCODE_STEPS; i++) {
+  const c = i / ENCODE_STEPS;
+  TO_SRGB[i] = Math.round(255 * (c > 0.0031308 ? 1.055 * Math.pow(c, 1 / 2.4) - 0.055 : 12.92 * c));
+}
+
+function toLinear(v: number): number {
+  const c = Math.max(0, Math.min(255, v)) / 255;
+  return c > 0.04045 ? Math.pow((c + 0.055) / 1.055, 2.4) : c / 12.92;
+}
+
+function encodeSrgb(linear: number): number {
+  return TO_SRGB[Math.round(Math.max(0, Math.min(1, linear)) * ENCODE_STEPS)];
+}
+
+const linearOf = (c: RGBColor): Vector3 => [toLinear(c.r), toLinear(c.g), toLinear(c.b)];
+
+// ─── Chart Geometry ──────────────────────────────────────────
+
+/** Bilinear map from chart coordinates (u across the 6 columns, v down the 4 rows) */
+function chartPoint(c: ChartCorners, u: number, v: number): Point {
+  const [tl, tr, br, bl] = c;
+  return {
+    x: (1 - u) * (1 - v) * tl.x + u * (1 - v) * tr.x + u * v * br.x + (1 - u) * v * bl.x,
+    y: (1 - u) * (1 - v) * tl.y + u * (1 - v) * tr.y + u * v * br.y + (1 - u) * v * bl.y,
+  };
+}
+
+export function patchCenters(corners: ChartCorners): Point[] {
+  const centers: Point[] = [];
+  for (let row = 0; row < CHART_ROWS; row++) {
+    for (let col = 0; col < CHART_COLS; col++) {
+      centers.push(chartPoint(corners, (col + 0.5) / CHART_COLS, (row + 0.5) / CHART_ROWS));
+    }
+  }
+  return centers;
+}
+
+function patchPitch(c: ChartCorners): number {
+  const across = Math.hypot(c[1].x - c[0].x, c[1].y - c[0].y) / CHART_COLS;
+  const down = Math.hypot(c[3].x - c[0].x, c[3].y - c[0].y) / CHART_ROWS;
+  return Math.min(across, down);
+}
+
+/** Mean colour of the inner part of every patch, skipping the black gutters */
+function samplePatches(data: Uint8ClampedArray, width: number, height: number, corners: ChartCorners): RGBColor[] {
+  const half = Math.max(1, Math.floor(patchPitch(corners) * 0.2));
+  const step = Math.max(1, Math.floor(half / 8));
+  return patchCenters(corners).map(({ x, y }) => {
+    let r = 0, g = 0, b = 0, n = 0;
+    const cx = Math.round(x), cy = Math.round(y);
+    for (let yy = cy - half; yy <= cy + half; yy += step) {
+      if (yy < 0 || yy >= height) continue;
+      for (let xx = cx - half; xx <= cx + half; xx += step) {
+        if (xx < 0 || xx >= width) continue;
+        const i = (yy * width + xx) * 4;
+        r += data[i]; g += data[i + 1]; b += data[i + 2]; n++;
+      }
+    }
+    return n > 0 ? { r: r / n, g: g / n, b: b / n } : { r: 0, g: 0, b: 0 };
+  });
+}
+
+// ─── CCM Fit ─────────────────────────────────────────────────
+
+/** Least-squares 3×3 matrix taking measured linear RGB to reference linear RGB */
+export function fitColorCorrectionMatrix(measured: RGBColor[], reference: RGBColor[]): Matrix3 | null {
+  const X = measured.map(linearOf);
+  const ref = reference.map(linearOf);
+  const rows: number[][] = [];
+  for (let ch = 0; ch < 3; ch++) {
+    const row = leastSquares(X, ref.map(v => v[ch]));
+    if (!row || row.some(v => !Number.isFinite(v))) return null;
+    rows.push(row);
+  }
+  return rows as Matrix3;
+}
+
+export function correctColor(c: RGBColor, M: Matrix3): RGBColor {
+  const [r, g, b] = multiplyMatrix3(M, linearOf(c));
+  return { r: encodeSrgb(r), g: encodeSrgb(g), b: encodeSrgb(b) };
+}
+
+function evaluateFit(measured: RGBColor[], M: Matrix3): PatchResidual[] {
+  return COLOR_CHECKER_PATCHES.map((p, index) => {
+    const corrected = correctColor(measured[index], M);
+    const deltaE = deltaE2000(
+      rgbToLab(corrected.r, corrected.g, corrected.b),
+      rgbToLab(p.srgb.r, p.srgb.g, p.srgb.b),
+    );
+    return { index, name: p.name, reference: p.srgb, measured: measured[index], corrected, deltaE };
+  });
+}
+
+const REFERENCE = COLOR_CHECKER_PATCHES.map(p => p.srgb);
+
+/** Samples the chart, fits the CCM and reports per-patch residuals; null when the fit is singular */
+export function fitColorChecker(
+  data: Uint8ClampedArray, width: number, height: number,
+  corners: ChartCorners, source: 'auto' | 'manual',
+): ColorCorrectionReport | null {
+  const measured = samplePatches(data, width, height, corners);
+  const matrix = fitColorCorrectionMatrix(measured, REFERENCE);
+  if (!matrix) return null;
+  const patches = evaluateFit(measured, matrix);
+  const deltas = patches.map(p => p.deltaE);
+  return {
+    method: 'ccm', source, matrix, corners, patches,
+    meanDeltaE: deltas.reduce((a, b) => a + b, 0) / deltas.length,
+    maxDeltaE: Math.max(...deltas),
+  };
+}
+
+/** Apply a linear-RGB CCM in-place */
+export function applyColorCorrection(data: Uint8ClampedArray, M: Matrix3): void {
+  for (let i = 0; i < data.length; i += 4) {
+    const r = TO_LINEAR[data[i]], g = TO_LINEAR[data[i + 1]], b = TO_LINEAR[data[i + 2]];
+    data[i]     = encodeSrgb(M[0][0] * r + M[0][1] * g + M[0][2] * b);
+    data[i + 1] = encodeSrgb(M[1][0] * r + M[1][1] * g + M[1][2] * b);
+    data[i + 2] = encodeSrgb(M[2][0] * r + M[2][1] * g + M[2][2] * b);
+  }
+}
+
+/**
+ * Blank the chart (plus its frame) to transparent white so segmentation,
+ * stats and defect detection never see the patches.
+ */
+export function maskColorChecker(data: Uint8ClampedArray, width: number, height: number, corners: ChartCorners): void {
+  const quad = [
+    chartPoint(corners, -0.06, -0.09), chartPoint(corners, 1.06, -0.09),
+    chartPoint(corners, 1.06, 1.09), chartPoint(corners, -0.06, 1.09),
+  ];
+  const xs = quad.map(p => p.x), ys = quad.map(p => p.y);
+  const x0 = Math.max(0, Math.floor(Math.min(...xs))), x1 = Math.min(width - 1, Math.ceil(Math.max(...xs)));
+  const y0 = Math.max(0, Math.floor(Math.min(...ys))), y1 = Math.min(height - 1, Math.ceil(Math.max(...ys)));
+
+  // Convex quad: inside when on the same side of every edge
+  const side = (a: Point, b: Point, x: number, y: number) => (b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x);
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      let pos = 0, neg = 0;
+      for (let k = 0; k < 4; k++) {
+        const s = side(quad[k], quad[(k + 1) % 4], x, y);
+        if (s > 0) pos++; else if (s < 0) neg++;
+      }
+      if (pos > 0 && neg > 0) continue;
+      const i = (y * width + x) * 4;
+      data[i] = 255; data[i + 1] = 255; data[i + 2] = 255; data[i + 3] = 0;
+    }
+  }
+}
+
+// ─── Auto Detection ──────────────────────────────────────────
+
+/** Block-averaged RGB raster with per-channel integral images for O(1) box means */
+function buildSearchRaster(data: Uint8ClampedArray, width: number, height: number) {
+  const factor = Math.max(1, Math.ceil(Math.max(width, height) / SEARCH_MAX_DIM));
+  const w = Math.floor(width / factor), h = Math.floor(height / factor);
+  const iw = w + 1;
+  const integral = [new Float64Array(iw * (h + 1)), new Float64Array(iw * (h + 1)), new Float64Array(iw * (h + 1))];
+  const norm = 1 / (factor * factor);
+  for (let y = 0; y < h; y++) {
+    const rowSum = [0, 0, 0];
+    for (let x = 0; x < w; x++) {
+      for (let ch = 0; ch < 3; ch++) {
+        let s = 0;
+        for (let dy = 0; dy < factor; dy++) {
+          const base = ((y * factor + dy) * width + x * factor) * 4 + ch;
+          for (let dx = 0; dx < factor; dx++) s += data[base + dx * 4];
+        }
+        rowSum[ch] += s * norm;
+        integral[ch][(y + 1) * iw + x + 1] = integral[ch][y * iw + x + 1] + rowSum[ch];
+      }
+    }
+  }
+  const boxMean = (ch: number, x0: number, y0: number, x1: number, y1: number) => {
+    const I = integral[ch];
+    const sum = I[y1 * iw + x1] - I[y0 * iw + x1] - I[y1 * iw + x0] + I[y0 * iw + x0];
+    return sum / ((x1 - x0) * (y1 - y0));
+  };
+  return { factor, w, h, boxMean };
+}
+
+/** Axis-aligned chart outlines in the four 90° orientations of a w×h box */
+function orientations(x0: number, y0: number, x1: number, y1: number, portrait: boolean): ChartCorners[] {
+  const tl = { x: x0, y: y0 }, tr = { x: x1, y: y0 }, br = { x: x1, y: y1 }, bl = { x: x0, y: y1 };
+  return portrait
+    ? [[tr, br, bl, tl], [bl, tl, tr, br]]
+    : [[tl, tr, br, bl], [br, bl, tl, tr]];
+}
+
+/**
+ * Searches the frame for an upright (0/90/180/270°) colour checker.
+ * Candidates must show a monotonic neutral ramp with real contrast; the
+ * survivor with the lowest CCM residual wins if it clears MAX_AUTO_DELTA_E.
+ * Tilted charts need corners marked by hand.
+ */
+export function detectColorChecker(data: Uint8ClampedArray, width: number, height: number): ChartCorners | null {
+  const { factor, w, h, boxMean } = buildSearchRaster(data, width, height);
+  let best: { corners: ChartCorners; score: number } | null = null;
+
+  const measure = (corners: ChartCorners, index: number, half: number): RGBColor => {
+    const row = Math.floor(index / CHART_COLS), col = index % CHART_COLS;
+    const c = chartPoint(corners, (col + 0.5) / CHART_COLS, (row + 0.5) / CHART_ROWS);
+    const x0 = Math.max(0, Math.round(c.x - half)), y0 = Math.max(0, Math.round(c.y - half));
+    const x1 = Math.min(w, x0 + Math.max(1, Math.round(2 * half))), y1 = Math.min(h, y0 + Math.max(1, Math.round(2 * half)));
+    return { r: boxMean(0, x0, y0, x1, y1), g: boxMean(1, x0, y0, x1, y1), b: boxMean(2, x0, y0, x1, y1) };
+  };
+
+  const rampOk = (corners: ChartCorners, half: number): boolean => {
+    let prev = Infinity, first = 0, last = 0;
+    for (let k = 0; k < 6; k++) {
+      const c = measure(corners, NEUTRAL_START + k, half);
+      const lum = 0.299 * c.r + 0.587 * c.g + 0.114 * c.b;
+      if (lum >= prev - 4) return false;
+      if (Math.max(c.r, c.g, c.b) - Math.min(c.r, c.g, c.b) > 0.35 * lum + 20) return false;
+      if (k === 0) first = lum;
+      last = lum;
+      prev = lum;
+    }
+    return first - last > 80;
+  };
+
+  for (let pitch = 4; pitch * CHART_COLS <= Math.max(w, h); pitch *= 1.08) {
+    const half = Math.max(0.5, pitch * 0.2);
+    const stride = Math.max(1, Math.round(pitch / 4));
+    for (const portrait of [false, true]) {
+      const cw = portrait ? pitch * CHART_ROWS : pitch * CHART_COLS;
+      const ch = portrait ? pitch * CHART_COLS : pitch * CHART_ROWS;
+      for (let y0 = 0; y0 + ch <= h; y0 += stride) {
+        for (let x0 = 0; x0 + cw <= w; x0 += stride) {
+          for (const corners of orientations(x0, y0, x0 + cw, y0 + ch, portrait)) {
+            if (!rampOk(corners, half)) continue;
+            const measured = COLOR_CHECKER_PATCHES.map((_, i) => measure(corners, i, half));
+            const M = fitColorCorrectionMatrix(measured, REFERENCE);
+            if (!M) continue;
+            const residuals = evaluateFit(measured, M);
+            const score = residuals.reduce((s, p) => s + p.deltaE, 0) / residuals.length;
+            if (!best || score < best.score) best = { corners, score };
+          }
+        }
+      }
+    }
+  }
+
+  if (!best || best.score > MAX_AUTO_DELTA_E) return null;
+  // Search raster → full-resolution coordinates
+  return best.corners.map(p => ({ x: p.x * factor, y: p.y * factor })) as ChartCorners;
+}
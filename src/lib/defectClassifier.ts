@@ -0,0 +1,269 @@
+// Defect Classifier - trainable region typing (multinomial logistic regression) over colour, texture and shape
+
+import {
+  DEFAULT_PIPELINE, detectStageDefects, rgbToHsv, rgbToLab,
+  type AnalysisOptions, type DefectRegion, type LabColor, type RgbaRaster,
+} from './colorAnalysis';
+import { pixelsToMm2 } from './calibration';
+import type { DefectAnnotation, DefectType } from './annotations';
+import { DEFAULT_IOU_THRESHOLD, evaluateImage, insidePolygon } from './detectorEvaluation';
+import { runPipeline, type PipelineState } from './pipeline';
+import { tipZoneAt } from './sugarEnds';
+import { DEFAULT_SPEC_PROFILE } from './specProfiles';
+import type { Point } from './segmentation';
+
+/** The blobs the HSV rules type; sugar ends, voids and artifacts come from their own analyses */
+export const CLASSIFIED_TYPES: DefectType[] = ['burnt', 'dark', 'light', 'mottled', 'greening', 'disease'];
+
+/** 'background' = not a defect after all; the region is dropped */
+export type ClassifierLabel = DefectType | 'background';
+
+export const REGION_FEATURES = [
+  'L', 'a', 'b',                 // mean Lab
+  'sdL', 'sdA', 'sdB',           // Lab spread inside the region
+  'dL', 'dA', 'dB',              // mean Lab minus the sample's flesh colour
+  'hueCos', 'hueSin', 'saturation',
+  'texture',                     // mean squared L* step to the right / lower neighbour
+  'logAreaMm2', 'elongation', 'fill',
+  'onStrip', 'atTip',
+] as const;
+
+export interface DefectClassifierModel {
+  kind: 'logistic';
+  classes: ClassifierLabel[];
+  features: string[];    // REGION_FEATURES at training time
+  mean: number[];        // feature standardisation
+  scale: number[];
+  weights: number[][];   // per class: bias first, then one per feature
+  trainedAt: string;
+  sampleCount: number;
+  classCounts: Partial<Record<ClassifierLabel, number>>;
+  trainingAccuracy: number;
+}
+
+export interface ClassifierSample {
+  imageName: string;
+  label: ClassifierLabel;
+  features: number[];
+}
+
+export interface RegionFeatureContext {
+  raster: RgbaRaster;  // colour-corrected pixels
+  ppm: number;
+  fleshLab: LabColor;  // the sample's mean flesh colour
+}
+
+export interface RegionPlacement {
+  onStrip: boolean;
+  atTip: boolean;      // inside a strip's tip zone
+}
+
+const MIN_SAMPLES = 10;
+const EPOCHS = 400;
+const LEARNING_RATE = 0.5;
+const L2 = 1e-3;
+
+// ─── Features ────────────────────────────────────────────────
+
+/** Feature vector (REGION_FEATURES order) of a region given as pixel indices */
+export function regionFeatures(pixels: ArrayLike<number>, ctx: RegionFeatureContext, placement: RegionPlacement): number[] {
+  const { data, width, height } = ctx.raster;
+  const n = pixels.length;
+  const lab = (i: number) => rgbToLab(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+
+  let sR = 0, sG = 0, sB = 0, sL = 0, sA = 0, sBb = 0, qL = 0, qA = 0, qB = 0;
+  let texture = 0, steps = 0;
+  let sx = 0, sy = 0, sxx = 0, syy = 0, sxy = 0;
+  let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+  for (let k = 0; k < n; k++) {
+    const i = pixels[k];
+    sR += data[i * 4]; sG += data[i * 4 + 1]; sB += data[i * 4 + 2];
+    const c = lab(i);
+    sL += c.L; sA += c.a; sBb += c.b;
+    qL += c.L * c.L; qA += c.a * c.a; qB += c.b * c.b;
+    const x = i % width, y = (i - x) / width;
+    if (x + 1 < width) { texture += (lab(i + 1).L - c.L) ** 2; steps++; }
+    if (y + 1 < height) { texture += (lab(i + width).L - c.L) ** 2; steps++; }
+    sx += x; sy += y; sxx += x * x; syy += y * y; sxy += x * y;
+    x0 = Math.min(x0, x); y0 = Math.min(y0, y); x1 = Math.max(x1, x); y1 = Math.max(y1, y);
+  }
+  const count = Math.max(1, n);
+  const mL = sL / count, mA = sA / count, mB = sBb / count;
+  const sd = (q: number, m: number) => Math.sqrt(Math.max(0, q / count - m * m));
+  const hsv = rgbToHsv(sR / count, sG / count, sB / count);
+  const hue = (hsv.h * Math.PI) / 180;
+
+  // Elongation from the second moments, so it does not depend on the region's angle
+  const mx = sx / count, my = sy / count;
+  const cxx = sxx / count - mx * mx, cyy = syy / count - my * my, cxy = sxy / count - mx * my;
+  const spread = Math.sqrt(((cxx - cyy) / 2) ** 2 + cxy * cxy);
+  const major = (cxx + cyy) / 2 + spread, minor = Math.max((cxx + cyy) / 2 - spread, 1 / 12);
+  const boxArea = n > 0 ? (x1 - x0 + 1) * (y1 - y0 + 1) : 1;
+
+  return [
+    mL, mA, mB,
+    sd(qL, mL), sd(qA, mA), sd(qB, mB),
+    mL - ctx.fleshLab.L, mA - ctx.fleshLab.a, mB - ctx.fleshLab.b,
+    Math.cos(hue), Math.sin(hue), hsv.s,
+    steps > 0 ? texture / steps : 0,
+    Math.log1p(pixelsToMm2(n, ctx.ppm)), Math.sqrt(major / minor), n / boxArea,
+    placement.onStrip ? 1 : 0, placement.atTip ? 1 : 0,
+  ];
+}
+
+/** Pixel indices whose centres fall inside `polygon` */
+export function polygonPixels(polygon: Point[], width: number, height: number): number[] {
+  if (polygon.length < 3) return [];
+  const xs = polygon.map(p => p.x), ys = polygon.map(p => p.y);
+  const x0 = Math.max(0, Math.floor(Math.min(...xs))), x1 = Math.min(width - 1, Math.ceil(Math.max(...xs)));
+  const y0 = Math.max(0, Math.floor(Math.min(...ys))), y1 = Math.min(height - 1, Math.ceil(Math.max(...ys)));
+  const pixels: number[] = [];
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) if (insidePolygon(polygon, x + 0.5, y + 0.5)) pixels.push(y * width + x);
+  }
+  return pixels;
+}
+
+// ─── Prediction ──────────────────────────────────────────────
+
+function softmax(scores: number[]): number[] {
+  const top = Math.max(...scores);
+  const exp = scores.map(s => Math.exp(s - top));
+  const sum = exp.reduce((a, b) => a + b, 0);
+  return exp.map(e => e / sum);
+}
+
+function probabilities(model: Pick<DefectClassifierModel, 'mean' | 'scale' | 'weights'>, features: number[]): number[] {
+  const z = features.map((f, j) => (f - model.mean[j]) / model.scale[j]);
+  return softmax(model.weights.map(w => z.reduce((s, v, j) => s + v * w[j + 1], w[0])));
+}
+
+export function classifyRegion(model: DefectClassifierModel, features: number[]): { label: ClassifierLabel; probability: number } {
+  const p = probabilities(model, features);
+  const best = p.indexOf(Math.max(...p));
+  return { label: model.classes[best], probability: p[best] };
+}
+
+// ─── Training ────────────────────────────────────────────────
+
+/**
+ * Labelled regions from one image. The rule detector runs first, exactly as
+ * the 'defects' stage runs it; each detection matched to a label learns the
+ * label's type from its blob's own pixels, each unmatched one learns
+ * 'background', and labels the rules missed are read from their own outline
+ * (or box) on the fry. `annotations` are in the raster's pixels.
+ */
+export function collectClassifierSamples(
+  imageName: string, raster: RgbaRaster, ppm: number, annotations: DefectAnnotation[],
+  options: AnalysisOptions & { iouThreshold?: number } = {},
+): ClassifierSample[] {
+  const pipeline = options.pipeline ?? DEFAULT_PIPELINE;
+  const detectAt = pipeline.findIndex(s => s.id === 'defects');
+  if (detectAt < 0) throw new Error('Pipeline has no "defects" stage');
+  const { width, height } = raster;
+  const state: Partial<PipelineState> = {
+    raw: { data: new Uint8ClampedArray(raster.data.subarray(0, width * height * 4)), width, height },
+  };
+  const profile = { ...(options.profile ?? DEFAULT_SPEC_PROFILE), defectClassifier: null };
+  runPipeline(pipeline.slice(0, detectAt), state, { ppm, profile, options });
+  const s = state as Required<PipelineState>;
+  const blobPixels = new Map<DefectRegion, number[]>();
+  const { defects } = detectStageDefects(s, ppm, profile, (region, pixels) => blobPixels.set(region, pixels));
+
+  const ctx: RegionFeatureContext = { raster: s.corrected, ppm, fleshLab: rgbToLab(s.stats.meanR, s.stats.meanG, s.stats.meanB) };
+  const placementAt = (p: Point): RegionPlacement => {
+    const x = Math.round(p.x), y = Math.round(p.y);
+    const id = x >= 0 && y >= 0 && x < width && y < height ? s.segmentation.labels[y * width + x] : 0;
+    const strip = id ? s.segmentation.instances[id - 1] : undefined;
+    const report = strip && s.sugarEnds.strips.find(r => r.stripId === id);
+    return { onStrip: !!strip, atTip: !!strip && !!report && tipZoneAt(report, strip, p) !== null };
+  };
+
+  const candidates = defects.filter(d => CLASSIFIED_TYPES.includes(d.type));
+  const evaluation = evaluateImage(imageName, annotations, candidates, { iouThreshold: options.iouThreshold ?? DEFAULT_IOU_THRESHOLD });
+  const samples: ClassifierSample[] = [];
+  const add = (label: ClassifierLabel, pixels: number[], placement: RegionPlacement) => {
+    if (pixels.length > 0) samples.push({ imageName, label, features: regionFeatures(pixels, ctx, placement) });
+  };
+  const detectionPixels = (i: number) => blobPixels.get(candidates[i])!;
+  const detectionPlacement = (i: number) => ({ onStrip: !!candidates[i].stripId, atTip: candidates[i].positionWeight > 1 });
+
+  for (const m of evaluation.matches) {
+    const type = evaluation.annotations[m.annotation].type;
+    if (CLASSIFIED_TYPES.includes(type)) add(type, detectionPixels(m.detection), detectionPlacement(m.detection));
+  }
+  for (const i of evaluation.unmatchedDetections) add('background', detectionPixels(i), detectionPlacement(i));
+  for (const i of evaluation.unmatchedAnnotations) {
+    const a = evaluation.annotations[i];
+    if (!CLASSIFIED_TYPES.includes(a.type)) continue;
+    const { x, y, width: w, height: h } = a.bbox;
+    const outline = a.polygon ?? [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }];
+    const onFry = polygonPixels(outline, width, height).filter(p => s.foreground.data[p]);
+    add(a.type, onFry, placementAt({ x: x + w / 2, y: y + h / 2 }));
+  }
+  return samples;
+}
+
+/**
+ * Multinomial logistic regression on standardised features, by full-batch
+ * gradient descent with a little L2. Null with fewer than 10 samples or a
+ * single class.
+ */
+export function trainDefectClassifier(samples: ClassifierSample[]): DefectClassifierModel | null {
+  const classes = (['background', ...CLASSIFIED_TYPES] as ClassifierLabel[]).filter(c => samples.some(s => s.label === c));
+  if (samples.length < MIN_SAMPLES || classes.length < 2) return null;
+
+  const dims = REGION_FEATURES.length;
+  const mean = Array.from({ length: dims }, (_, j) => samples.reduce((s, x) => s + x.features[j], 0) / samples.length);
+  const scale = mean.map((m, j) => Math.sqrt(samples.reduce((s, x) => s + (x.features[j] - m) ** 2, 0) / samples.length) || 1);
+  const z = samples.map(x => x.features.map((f, j) => (f - mean[j]) / scale[j]));
+  const target = samples.map(x => classes.indexOf(x.label));
+
+  const weights = classes.map(() => new Array(dims + 1).fill(0));
+  for (let epoch = 0; epoch < EPOCHS; epoch++) {
+    const grad = classes.map(() => new Array(dims + 1).fill(0));
+    z.forEach((row, i) => {
+      const p = softmax(weights.map(w => row.reduce((s, v, j) => s + v * w[j + 1], w[0])));
+      p.forEach((pc, c) => {
+        const err = pc - (target[i] === c ? 1 : 0);
+        grad[c][0] += err;
+        for (let j = 0; j < dims; j++) grad[c][j + 1] += err * row[j];
+      });
+    });
+    weights.forEach((w, c) => {
+      for (let j = 0; j <= dims; j++) w[j] -= LEARNING_RATE * (grad[c][j] / samples.length + (j > 0 ? L2 * w[j] : 0));
+    });
+  }
+
+  const classCounts: Partial<Record<ClassifierLabel, number>> = {};
+  for (const c of classes) classCounts[c] = samples.filter(s => s.label === c).length;
+  const model: DefectClassifierModel = {
+    kind: 'logistic', classes, features: [...REGION_FEATURES], mean, scale, weights,
+    trainedAt: new Date().toISOString(),
+    sampleCount: samples.length,
+    classCounts,
+    trainingAccuracy: 0,
+  };
+  model.trainingAccuracy = samples.filter(s => classifyRegion(model, s.features).label === s.label).length / samples.length;
+  return model;
+}
+
+/** A model read back from JSON, checked against the features this engine extracts */
+export function parseDefectClassifier(json: unknown): DefectClassifierModel {
+  const m = json as Partial<DefectClassifierModel> | null;
+  if (!m || m.kind !== 'logistic' || !Array.isArray(m.classes) || !Array.isArray(m.weights)) {
+    throw new Error('Not a defect classifier model');
+  }
+  if (JSON.stringify(m.features) !== JSON.stringify(REGION_FEATURES)) {
+    throw new Error('Classifier was trained on different region features; retrain it with this version');
+  }
+  const labels: ClassifierLabel[] = ['background', ...CLASSIFIED_TYPES];
+  const unknown = m.classes.filter(c => !labels.includes(c));
+  if (unknown.length) throw new Error(`Classifier has unknown classes: ${unknown.join(', ')}`);
+  const dims = REGION_FEATURES.length;
+  if (m.weights.length !== m.classes.length || m.weights.some(w => w.length !== dims + 1)
+    || m.mean?.length !== dims || m.scale?.length !== dims) {
+    throw new Error('Classifier weights do not match its classes and features');
+  }
+  return m as DefectClassifierModel;
+}
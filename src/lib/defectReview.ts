@@ -0,0 +1,160 @@
+// Defect Review - reviewer corrections to detected defects: edits, re-grading and the stored review
+
+import { TIP_POSITION_WEIGHT, type AnalysisResult, type DefectRegion } from './colorAnalysis';
+import { pixelsToMm2 } from './calibration';
+import { classifyDefectSize } from './defectSizing';
+import { tipZoneAt } from './sugarEnds';
+import { ARTIFACT_TYPES, defectAnnotation, scaleAnnotations, type AnnotatedImage, type DefectType } from './annotations';
+import type { BoundingBox, FryInstance, Point } from './segmentation';
+import type { Disposition } from './specProfiles';
+
+// Score points come from size class and position; severity only shades the overlay and Grad-CAM
+const DRAWN_SEVERITY = 0.5;
+
+export type DefectEditAction = 'added' | 'deleted' | 'retyped' | 'resized';
+
+export interface DefectEdit {
+  action: DefectEditAction;
+  type: DefectType;                // type after the edit (before it, for deletions)
+  previousType: DefectType | null; // retyped only
+  bbox: BoundingBox;               // analysed-image pixels
+}
+
+/** The grade a sample got, before or after review */
+export interface ReviewedGrade {
+  pqi: number;
+  defectScore: number;
+  mottlingScore: number;
+  defectCount: number;
+  disposition: Disposition;
+}
+
+export interface DefectReview {
+  reviewer: string;
+  reviewedAt: string;
+  automatic: ReviewedGrade;
+  corrected: ReviewedGrade;
+  edits: DefectEdit[];
+  detected: AnnotatedImage;    // automatic defects as the engine found them, in the image file's pixels
+  annotations: AnnotatedImage; // corrected defects as training labels, in the image file's pixels
+}
+
+/** The analysed image: name, working size and scale (working px / file px) */
+export interface ReviewedImage {
+  name: string;
+  width: number;
+  height: number;
+  scale: number;
+}
+
+// ─── Editing ─────────────────────────────────────────────────
+
+function stripAt(strips: FryInstance[], p: Point): FryInstance | undefined {
+  const x = Math.floor(p.x), y = Math.floor(p.y);
+  return strips.find(({ mask: m }) => {
+    const lx = x - m.x, ly = y - m.y;
+    return lx >= 0 && ly >= 0 && lx < m.width && ly < m.height && m.data[ly * m.width + lx] === 1;
+  });
+}
+
+/**
+ * Re-derive everything that follows from a region's type and geometry the
+ * way detectDefects does: artifact flag, mm² area, strip, tip weight and
+ * template size class.
+ */
+function regrade(region: DefectRegion, result: AnalysisResult, ppm: number): DefectRegion {
+  const isArtifact = ARTIFACT_TYPES.includes(region.type);
+  const strip = stripAt(result.strips, region.centroid);
+  const report = strip && result.sugarEnds.find(s => s.stripId === strip.id);
+  const atTip = region.type === 'sugar_end' || (!!strip && !!report && tipZoneAt(report, strip, region.centroid) !== null);
+  const graded: DefectRegion = {
+    ...region,
+    isArtifact,
+    areamm2: pixelsToMm2(region.area, ppm),
+    stripId: strip?.id ?? 0,
+    positionWeight: !isArtifact && atTip ? TIP_POSITION_WEIGHT : 1,
+    sizeClass: undefined,
+    equivalentDiameterMm: undefined,
+    sugarEndGrade: region.type === 'sugar_end' ? region.sugarEndGrade : undefined,
+  };
+  return isArtifact ? graded : { ...graded, ...classifyDefectSize(graded, ppm) };
+}
+
+/** A reviewer-drawn rectangle as a defect region */
+export function drawDefect(type: DefectType, box: BoundingBox, result: AnalysisResult, ppm: number): DefectRegion {
+  const x = Math.round(box.x), y = Math.round(box.y);
+  const width = Math.max(1, Math.round(box.width)), height = Math.max(1, Math.round(box.height));
+  const outline = [
+    { x, y }, { x: x + width - 1, y }, { x: x + width - 1, y: y + height - 1 }, { x, y: y + height - 1 },
+  ];
+  return regrade({
+    x, y, width, height, type,
+    severity: DRAWN_SEVERITY,
+    area: width * height,
+    positionWeight: 1, isArtifact: false,
+    centroid: { x: x + (width - 1) / 2, y: y + (height - 1) / 2 },
+    contour: outline, polygon: outline,
+  }, result, ppm);
+}
+
+/** The reviewer's type replaces the classifier's, so its probability no longer applies */
+export function retypeDefect(region: DefectRegion, type: DefectType, result: AnalysisResult, ppm: number): DefectRegion {
+  return regrade({ ...region, type, classifierProbability: undefined }, result, ppm);
+}
+
+/** Stretch a region (outline included) onto a new box; its area scales with the box */
+export function resizeDefect(region: DefectRegion, box: BoundingBox, result: AnalysisResult, ppm: number): DefectRegion {
+  const x = Math.round(box.x), y = Math.round(box.y);
+  const width = Math.max(1, Math.round(box.width)), height = Math.max(1, Math.round(box.height));
+  const sx = width / region.width, sy = height / region.height;
+  const map = (p: Point) => ({ x: x + (p.x - region.x) * sx, y: y + (p.y - region.y) * sy });
+  return regrade({
+    ...region,
+    x, y, width, height,
+    area: Math.max(1, Math.round(region.area * sx * sy)),
+    centroid: map(region.centroid),
+    contour: region.contour.map(map),
+    polygon: region.polygon.map(map),
+  }, result, ppm);
+}
+
+// ─── Review record ───────────────────────────────────────────
+
+export function gradeOf(result: AnalysisResult): ReviewedGrade {
+  return {
+    pqi: result.pqi,
+    defectScore: result.defectScore,
+    mottlingScore: result.mottlingScore,
+    defectCount: result.defectCount,
+    disposition: result.disposition,
+  };
+}
+
+function fileLabels(defects: DefectRegion[], image: ReviewedImage): AnnotatedImage {
+  return {
+    imageName: image.name,
+    width: Math.round(image.width / image.scale),
+    height: Math.round(image.height / image.scale),
+    annotations: scaleAnnotations(defects.map(defectAnnotation), 1 / image.scale),
+  };
+}
+
+/**
+ * Labels are stored in the image file's own pixels, so they line up with the
+ * original. The automatic defects are kept beside the corrected ones, so the
+ * edits can be diffed against what the engine actually found.
+ */
+export function createDefectReview(
+  automatic: AnalysisResult, corrected: AnalysisResult, edits: DefectEdit[],
+  reviewer: string, image: ReviewedImage, at: Date = new Date(),
+): DefectReview {
+  return {
+    reviewer: reviewer.trim(),
+    reviewedAt: at.toISOString(),
+    automatic: gradeOf(automatic),
+    corrected: gradeOf(corrected),
+    edits,
+    detected: fileLabels(automatic.defects, image),
+    annotations: fileLabels(corrected.defects, image),
+  };
+}
@@ -0,0 +1,98 @@
+// Defect Sizing - classify defects against the McCain defect templates
+
+import { pixelsToMm, MCCAIN_SIZE_REFERENCE } from './calibration';
+import type { DefectRegion } from './colorAnalysis';
+import { DEFAULT_SCORE_CUTOFFS, type ScoreCutoffs } from './specProfiles';
+
+export type DefectSizeClass = 'small' | 'medium' | 'large';
+
+export interface DefectSizeCounts { small: number; medium: number; large: number; }
+
+export interface DefectSizeBreakdown {
+  dark: DefectSizeCounts;   // burnt, dark, mottled, sugar end, greening, disease, hollow heart
+  light: DefectSizeCounts;
+  total: DefectSizeCounts;
+}
+
+type Template = { diameter: number; area_mm2: number };
+
+const TEMPLATES: Record<'dark' | 'light', Record<DefectSizeClass, Template>> = {
+  dark: {
+    small: MCCAIN_SIZE_REFERENCE.defect_dark_small,
+    medium: MCCAIN_SIZE_REFERENCE.defect_dark_medium,
+    large: MCCAIN_SIZE_REFERENCE.defect_dark_large,
+  },
+  light: {
+    small: MCCAIN_SIZE_REFERENCE.defect_light_small,
+    medium: MCCAIN_SIZE_REFERENCE.defect_light_medium,
+    large: MCCAIN_SIZE_REFERENCE.defect_light_large,
+  },
+};
+
+// Score points per defect of each class (before the tip position weight)
+const SIZE_POINTS: Record<DefectSizeClass, number> = { small: 1, medium: 3, large: 6 };
+
+// Tuber defects weigh more than frying defects of the same size (greening = solanine risk)
+const TYPE_POINTS_WEIGHT: Partial<Record<DefectRegion['type'], number>> = { greening: 2, disease: 1.5, hollow_heart: 1.5 };
+
+export function defectFamily(type: DefectRegion['type']): 'dark' | 'light' {
+  return type === 'light' ? 'light' : 'dark';
+}
+
+/** Diameter of the disc with the same area */
+export function equivalentDiameterMm(areaMm2: number): number {
+  return 2 * Math.sqrt(Math.max(0, areaMm2) / Math.PI);
+}
+
+/**
+ * A defect reaches a template class when either its area reaches the
+ * template area or its longest dimension reaches the template diameter —
+ * the diameter test keeps thin streaks from grading as small spots.
+ */
+export function classifyDefectSize(defect: DefectRegion, ppm: number): { sizeClass: DefectSizeClass; equivalentDiameterMm: number } {
+  const areaMm2 = defect.areamm2 ?? defect.area;
+  const eqDiameter = equivalentDiameterMm(areaMm2);
+  const extentMm = pixelsToMm(Math.max(defect.width, defect.height), ppm);
+  const t = TEMPLATES[defectFamily(defect.type)];
+  const reaches = (tpl: Template) => areaMm2 >= tpl.area_mm2 || extentMm >= tpl.diameter;
+
+  let sizeClass: DefectSizeClass = 'small';
+  if (reaches(t.large)) sizeClass = 'large';
+  else if (reaches(t.medium)) sizeClass = 'medium';
+  return { sizeClass, equivalentDiameterMm: eqDiameter };
+}
+
+export function emptySizeCounts(): DefectSizeCounts {
+  return { small: 0, medium: 0, large: 0 };
+}
+
+export function countDefectSizes(defects: DefectRegion[]): DefectSizeBreakdown {
+  const breakdown = { dark: emptySizeCounts(), light: emptySizeCounts(), total: emptySizeCounts() };
+  for (const d of defects) {
+    if (d.isArtifact || !d.sizeClass) continue;
+    breakdown[defectFamily(d.type)][d.sizeClass]++;
+    breakdown.total[d.sizeClass]++;
+  }
+  return breakdown;
+}
+
+/**
+ * McCain-template defect score (5 = target, 9 = reject).
+ * Large defects drive the score directly; every defect also adds points by
+ * size class, scaled by its position weight so tip defects count extra and
+ * by its type weight for tuber defects. Any greening is at least a 6.
+ */
+export function getDefectScore(
+  defects: DefectRegion[], burnedRatio: number, cutoffs: ScoreCutoffs['defectPoints'] = DEFAULT_SCORE_CUTOFFS.defectPoints,
+): number {
+  const real = defects.filter(d => !d.isArtifact && d.sizeClass);
+  const large = real.filter(d => d.sizeClass === 'large').length;
+  const points = real.reduce((sum, d) => sum + SIZE_POINTS[d.sizeClass!] * d.positionWeight * (TYPE_POINTS_WEIGHT[d.type] ?? 1), 0);
+  const greening = real.some(d => d.type === 'greening');
+
+  if (burnedRatio > 0.3 || large >= 4 || points > cutoffs[3]) return 9;
+  if (burnedRatio > 0.2 || large >= 3 || points > cutoffs[2]) return 8;
+  if (burnedRatio > 0.1 || large >= 2 || points > cutoffs[1]) return 7;
+  if (burnedRatio > 0.05 || large >= 1 || points > cutoffs[0] || greening) return 6;
+  return 5;
+}
@@ -0,0 +1,242 @@
+// Detector Evaluation - detections vs ground-truth annotations: IoU matching, P/R/F1, confusion matrix
+
+import type { DefectRegion } from './colorAnalysis';
+import { ARTIFACT_TYPES, DEFECT_TYPES, defectAnnotation, type DefectAnnotation, type DefectType } from './annotations';
+import type { BoundingBox, Point } from './segmentation';
+import type { SpecProfile } from './specProfiles';
+
+// Hand-drawn boxes sit loosely around small blobs, so the COCO 0.5 is too strict here
+export const DEFAULT_IOU_THRESHOLD = 0.3;
+const MAX_EXAMPLES_PER_TYPE = 5;
+
+export interface EvaluationOptions {
+  iouThreshold?: number;
+  includeArtifacts?: boolean; // score shadow / glare / seasoning too (default: both sides drop them)
+}
+
+/** A detection as kept in the report — geometry only, no pixel contour */
+export interface EvaluatedDetection {
+  type: DefectType;
+  bbox: BoundingBox;
+  polygon: Point[] | null;
+  severity: number;
+}
+
+export interface DetectionMatch {
+  annotation: number; // index into ImageEvaluation.annotations
+  detection: number;  // index into ImageEvaluation.detections
+  iou: number;
+}
+
+export interface ImageEvaluation {
+  imageName: string;
+  annotations: DefectAnnotation[];
+  detections: EvaluatedDetection[];
+  matches: DetectionMatch[];       // one-to-one, type-agnostic (a wrong type is a confusion)
+  unmatchedAnnotations: number[];  // false negatives
+  unmatchedDetections: number[];   // false positives
+}
+
+export interface DetectionCounts {
+  tp: number; fp: number; fn: number;
+  precision: number | null; // null when nothing was detected / labelled
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface TypeMetrics extends DetectionCounts {
+  type: DefectType;
+}
+
+/** Rows = ground truth, columns = detected; the last label is 'background' (missed / spurious) */
+export interface ConfusionMatrix {
+  labels: (DefectType | 'background')[];
+  counts: number[][];
+}
+
+export type EvaluationErrorKind = 'false_positive' | 'false_negative' | 'misclassified';
+
+export interface EvaluationExample {
+  imageName: string;
+  kind: EvaluationErrorKind;
+  type: DefectType;                 // labelled type (detected type for false positives)
+  detectedType: DefectType | null;  // misclassified only
+  bbox: BoundingBox;
+  iou: number | null;
+}
+
+export interface EvaluationReport {
+  createdAt: string;
+  iouThreshold: number;
+  includeArtifacts: boolean;
+  specProfile: Pick<SpecProfile, 'id' | 'name' | 'version'> | null;
+  engineVersion: string | null;
+  imageCount: number;
+  annotationCount: number;
+  detectionCount: number;
+  overall: DetectionCounts;  // micro-average over types
+  perType: TypeMetrics[];    // types that were labelled or detected
+  confusion: ConfusionMatrix;
+  examples: EvaluationExample[];
+}
+
+// ─── IoU ─────────────────────────────────────────────────────
+
+function boxIoU(a: BoundingBox, b: BoundingBox): number {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (w <= 0 || h <= 0) return 0;
+  const inter = w * h;
+  return inter / (a.width * a.height + b.width * b.height - inter);
+}
+
+/** Even-odd test of a point against a closed outline */
+export function insidePolygon(polygon: Point[], x: number, y: number): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i], b = polygon[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+/** Pixel-centre raster IoU of two outlines over their joint box */
+function polygonIoU(a: Point[], aBox: BoundingBox, b: Point[], bBox: BoundingBox): number {
+  if (boxIoU(aBox, bBox) === 0) return 0;
+  const x0 = Math.floor(Math.min(aBox.x, bBox.x)), y0 = Math.floor(Math.min(aBox.y, bBox.y));
+  const x1 = Math.ceil(Math.max(aBox.x + aBox.width, bBox.x + bBox.width));
+  const y1 = Math.ceil(Math.max(aBox.y + aBox.height, bBox.y + bBox.height));
+  let inter = 0, union = 0;
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      const inA = insidePolygon(a, x + 0.5, y + 0.5), inB = insidePolygon(b, x + 0.5, y + 0.5);
+      if (inA && inB) inter++;
+      if (inA || inB) union++;
+    }
+  }
+  return union > 0 ? inter / union : 0;
+}
+
+/** Outline IoU when the label has a polygon, box IoU otherwise */
+export function annotationIoU(annotation: DefectAnnotation, detection: EvaluatedDetection): number {
+  if (annotation.polygon && detection.polygon && detection.polygon.length >= 3) {
+    return polygonIoU(annotation.polygon, annotation.bbox, detection.polygon, detection.bbox);
+  }
+  return boxIoU(annotation.bbox, detection.bbox);
+}
+
+// ─── Matching ────────────────────────────────────────────────
+
+export function toEvaluatedDetection(d: DefectRegion): EvaluatedDetection {
+  return { ...defectAnnotation(d), severity: d.severity };
+}
+
+/**
+ * Greedy one-to-one matching, highest IoU first, across types: a labelled
+ * burnt spot found as dark is a confusion, not a miss plus a false alarm.
+ */
+export function evaluateImage(
+  imageName: string, annotations: DefectAnnotation[], defects: DefectRegion[], options: EvaluationOptions = {},
+): ImageEvaluation {
+  const threshold = options.iouThreshold ?? DEFAULT_IOU_THRESHOLD;
+  const scored = (type: DefectType) => options.includeArtifacts || !ARTIFACT_TYPES.includes(type);
+  const labels = annotations.filter(a => scored(a.type));
+  const detections = defects.filter(d => scored(d.type)).map(toEvaluatedDetection);
+
+  const pairs: DetectionMatch[] = [];
+  labels.forEach((a, ai) => detections.forEach((d, di) => {
+    const iou = annotationIoU(a, d);
+    if (iou >= threshold) pairs.push({ annotation: ai, detection: di, iou });
+  }));
+  pairs.sort((p, q) => q.iou - p.iou);
+
+  const usedA = new Set<number>(), usedD = new Set<number>();
+  const matches: DetectionMatch[] = [];
+  for (const p of pairs) {
+    if (usedA.has(p.annotation) || usedD.has(p.detection)) continue;
+    usedA.add(p.annotation); usedD.add(p.detection);
+    matches.push(p);
+  }
+  return {
+    imageName, annotations: labels, detections, matches,
+    unmatchedAnnotations: labels.map((_, i) => i).filter(i => !usedA.has(i)),
+    unmatchedDetections: detections.map((_, i) => i).filter(i => !usedD.has(i)),
+  };
+}
+
+// ─── Report ──────────────────────────────────────────────────
+
+function counts(tp: number, fp: number, fn: number): DetectionCounts {
+  const precision = tp + fp > 0 ? tp / (tp + fp) : null;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : null;
+  const f1 = precision !== null && recall !== null && precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : null;
+  return { tp, fp, fn, precision, recall, f1 };
+}
+
+export function summarizeEvaluation(
+  images: ImageEvaluation[],
+  options: EvaluationOptions & { specProfile?: SpecProfile | null; engineVersion?: string | null } = {},
+): EvaluationReport {
+  const tally = new Map<DefectType, { tp: number; fp: number; fn: number }>();
+  const bump = (type: DefectType, key: 'tp' | 'fp' | 'fn') => {
+    const t = tally.get(type) ?? { tp: 0, fp: 0, fn: 0 };
+    t[key]++;
+    tally.set(type, t);
+  };
+  const pairs: [DefectType | 'background', DefectType | 'background'][] = [];
+  const examples: EvaluationExample[] = [];
+
+  for (const img of images) {
+    for (const m of img.matches) {
+      const a = img.annotations[m.annotation], d = img.detections[m.detection];
+      pairs.push([a.type, d.type]);
+      if (a.type === d.type) { bump(a.type, 'tp'); continue; }
+      bump(a.type, 'fn'); bump(d.type, 'fp');
+      examples.push({ imageName: img.imageName, kind: 'misclassified', type: a.type, detectedType: d.type, bbox: a.bbox, iou: m.iou });
+    }
+    for (const i of img.unmatchedAnnotations) {
+      const a = img.annotations[i];
+      pairs.push([a.type, 'background']);
+      bump(a.type, 'fn');
+      examples.push({ imageName: img.imageName, kind: 'false_negative', type: a.type, detectedType: null, bbox: a.bbox, iou: null });
+    }
+    for (const i of img.unmatchedDetections) {
+      const d = img.detections[i];
+      pairs.push(['background', d.type]);
+      bump(d.type, 'fp');
+      examples.push({ imageName: img.imageName, kind: 'false_positive', type: d.type, detectedType: null, bbox: d.bbox, iou: null });
+    }
+  }
+
+  const types = DEFECT_TYPES.filter(t => tally.has(t));
+  const labels: ConfusionMatrix['labels'] = [...types, 'background'];
+  const matrix = labels.map(() => labels.map(() => 0));
+  for (const [truth, detected] of pairs) matrix[labels.indexOf(truth)][labels.indexOf(detected)]++;
+
+  let tp = 0, fp = 0, fn = 0;
+  for (const t of tally.values()) { tp += t.tp; fp += t.fp; fn += t.fn; }
+
+  // A few examples of each kind per type; the full list is in the per-image evaluations
+  const shown = new Map<string, number>();
+  const kept = examples.filter(e => {
+    const key = `${e.kind}:${e.type}`;
+    shown.set(key, (shown.get(key) ?? 0) + 1);
+    return shown.get(key)! <= MAX_EXAMPLES_PER_TYPE;
+  });
+
+  const profile = options.specProfile ?? null;
+  return {
+    createdAt: new Date().toISOString(),
+    iouThreshold: options.iouThreshold ?? DEFAULT_IOU_THRESHOLD,
+    includeArtifacts: options.includeArtifacts ?? false,
+    specProfile: profile && { id: profile.id, name: profile.name, version: profile.version },
+    engineVersion: options.engineVersion ?? null,
+    imageCount: images.length,
+    annotationCount: images.reduce((s, img) => s + img.annotations.length, 0),
+    detectionCount: images.reduce((s, img) => s + img.detections.length, 0),
+    overall: counts(tp, fp, fn),
+    perType: types.map(type => { const t = tally.get(type)!; return { type, ...counts(t.tp, t.fp, t.fn) }; }),
+    confusion: { labels, counts: matrix },
+    examples: kept,
+  };
+}
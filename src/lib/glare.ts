@@ -0,0 +1,46 @@
+// Glare - specular oil highlights on fresh fries, masked out as artifacts
+
+import { rgbToHsv, type RgbaRaster } from './colorAnalysis';
+import { labelComponents } from './segmentation';
+
+// Specular highlight: near-white and colourless on a fry
+export const GLARE_MIN_V = 0.94;
+export const GLARE_MAX_S = 0.12;
+// Highlights are small; larger pale patches are light defects or pale flesh
+export const GLARE_MAX_BLOB_MM2 = 12;
+
+/**
+ * Glare mask over fry pixels: small blobs of high-V, low-S pixels, grown by
+ * one pixel (still on the fry) to take in the highlight's soft rim.
+ */
+export function computeGlareMask(raster: RgbaRaster, foreground: Uint8Array, ppm: number = 1): Uint8Array {
+  const { data, width, height } = raster;
+  const n = width * height;
+  const candidate = new Uint8Array(n);
+  for (let i = 0; i < n; i++) {
+    if (!foreground[i]) continue;
+    const hsv = rgbToHsv(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+    if (hsv.v > GLARE_MIN_V && hsv.s < GLARE_MAX_S) candidate[i] = 1;
+  }
+
+  const { labels, count } = labelComponents(candidate, width, height);
+  const size = new Int32Array(count + 1);
+  for (let i = 0; i < n; i++) size[labels[i]]++;
+  const maxBlob = Math.max(4, GLARE_MAX_BLOB_MM2 * ppm * ppm);
+
+  const glare = new Uint8Array(n);
+  for (let i = 0; i < n; i++) {
+    const l = labels[i];
+    if (!l || size[l] > maxBlob) continue;
+    const x = i % width, y = (i - x) / width;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx, ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const j = ny * width + nx;
+        if (foreground[j]) glare[j] = 1;
+      }
+    }
+  }
+  return glare;
+}
@@ -0,0 +1,57 @@
+// Hollow Heart - internal voids where the tray shows through a hole inside one strip
+
+import { rgbToLab, type RgbaRaster } from './colorAnalysis';
+import type { ForegroundMask } from './backgroundModel';
+import { labelComponents, type Segmentation } from './segmentation';
+
+/**
+ * Void mask: enclosed background islands that the background model filled
+ * back in, that still look like the background (ΔE76 ≤ `maxDeltaE`) and are
+ * bordered by a single strip. Islands between crossing or touching strips
+ * border several strips and are left alone. `exclude` (e.g. the glare mask)
+ * is never a void.
+ */
+export function findInternalVoids(
+  raster: RgbaRaster, foreground: ForegroundMask, segmentation: Segmentation, maxDeltaE: number, exclude?: Uint8Array,
+): Uint8Array {
+  const { data, width, height } = raster;
+  const n = width * height;
+  const { holes, backgroundLab } = foreground;
+  const candidate = new Uint8Array(n);
+  for (let i = 0; i < n; i++) if (holes[i] && !exclude?.[i]) candidate[i] = 1;
+
+  const { labels, count } = labelComponents(candidate, width, height);
+  const size = new Int32Array(count + 1);
+  const L = new Float64Array(count + 1), A = new Float64Array(count + 1), B = new Float64Array(count + 1);
+  const strip = new Int32Array(count + 1);   // bordering strip id, -1 = several / none
+  for (let i = 0; i < n; i++) {
+    const l = labels[i];
+    if (!l) continue;
+    const c = rgbToLab(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+    size[l]++; L[l] += c.L; A[l] += c.a; B[l] += c.b;
+    if (strip[l] === -1) continue;
+    const x = i % width, y = (i - x) / width;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx, ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const j = ny * width + nx;
+        if (candidate[j]) continue;
+        const id = holes[j] ? 0 : segmentation.labels[j];
+        if (!id || (strip[l] && strip[l] !== id)) strip[l] = -1;
+        else strip[l] = id;
+      }
+    }
+  }
+
+  const isVoid = new Uint8Array(count + 1);
+  for (let l = 1; l <= count; l++) {
+    if (strip[l] <= 0) continue;
+    const dL = L[l] / size[l] - backgroundLab.L, da = A[l] / size[l] - backgroundLab.a, db = B[l] / size[l] - backgroundLab.b;
+    if (Math.sqrt(dL * dL + da * da + db * db) <= maxDeltaE) isVoid[l] = 1;
+  }
+
+  const voids = new Uint8Array(n);
+  for (let i = 0; i < n; i++) if (isVoid[labels[i]]) voids[i] = 1;
+  return voids;
+}
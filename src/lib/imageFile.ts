@@ -0,0 +1,30 @@
+// Image File - decode an image file to ImageData at the analyzer's working size
+
+export const MAX_WORKING_SIZE = 800; // px, longest side
+
+// Label and score files may carry a folder path; images are matched on the bare file name
+export const imageBaseName = (name: string) => name.split(/[\\/]/).pop()!.toLowerCase();
+
+export interface DecodedImage {
+  imageData: ImageData;
+  scale: number; // working px / file px
+}
+
+export function loadImageFile(file: File): Promise<DecodedImage> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, MAX_WORKING_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width * scale;
+      canvas.height = img.height * scale;
+      const ctx = canvas.getContext('2d')!;
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve({ imageData: ctx.getImageData(0, 0, canvas.width, canvas.height), scale });
+    };
+    img.onerror = () => { URL.revokeObjectURL(url); reject(new Error(`Could not decode ${file.name}`)); };
+    img.src = url;
+  });
+}
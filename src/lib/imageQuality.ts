@@ -0,0 +1,158 @@
+// Image Quality Gate - is this capture fit to be scored and logged?
+
+import type { RgbaRaster } from './colorAnalysis';
+import { MCCAIN_SIZE_REFERENCE } from './calibration';
+
+export type QualityLevel = 'ok' | 'warning' | 'blocking';
+
+export type QualityCheckId = 'focus' | 'exposure' | 'clipping' | 'glare' | 'coverage' | 'resolution';
+
+export interface QualityCheck {
+  id: QualityCheckId;
+  label: string;
+  level: QualityLevel;
+  value: number;
+  message: string;
+}
+
+export interface ImageQualityReport {
+  level: QualityLevel; // worst check
+  checks: QualityCheck[];
+}
+
+/** [warning, blocking] limits; `low` checks fail below the limit, the rest above */
+export const QUALITY_LIMITS = {
+  focusLaplacianVar: { warning: 40, blocking: 10 },      // low: variance of the Laplacian, 0-255 luma
+  highlightLuma: { warning: 60, blocking: 25 },          // low: 99th-percentile luma of the frame
+  blownFraction: { warning: 0.5, blocking: 0.9 },        // high: frame pixels at luma 250 or more
+  clippedFraction: { warning: 0.05, blocking: 0.2 },     // high: fry pixels with a channel at 255 or crushed to black
+  glareFraction: { warning: 0.01, blocking: 0.05 },      // high: glare-masked fry pixels
+  fryCoverage: { warning: 0.08, blocking: 0.02 },        // low: foreground share of the frame
+  smallDefectPx: { warning: 6, blocking: 3 },            // low: smallest defect template diameter in px
+};
+
+export const QUALITY_LEVEL_COLORS: Record<QualityLevel, string> = {
+  ok: 'hsl(142 70% 45%)',
+  warning: 'hsl(42 95% 52%)',
+  blocking: 'hsl(0 75% 55%)',
+};
+
+const LEVEL_RANK: Record<QualityLevel, number> = { ok: 0, warning: 1, blocking: 2 };
+
+function below(value: number, limit: { warning: number; blocking: number }): QualityLevel {
+  return value < limit.blocking ? 'blocking' : value < limit.warning ? 'warning' : 'ok';
+}
+
+function above(value: number, limit: { warning: number; blocking: number }): QualityLevel {
+  return value > limit.blocking ? 'blocking' : value > limit.warning ? 'warning' : 'ok';
+}
+
+function luma(data: RgbaRaster['data'], i: number): number {
+  return 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+}
+
+/**
+ * Variance of the 4-neighbour Laplacian over opaque pixels — low means out of
+ * focus. With a `mask`, only over pixels whose neighbourhood lies inside it,
+ * so the mask's own outline (fry against tray) does not count as detail.
+ */
+function laplacianVariance({ data, width, height }: RgbaRaster, mask?: Uint8Array): number {
+  let sum = 0, sumSq = 0, n = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (data[i * 4 + 3] < 128) continue;
+      if (mask && !mask[i]) continue;
+      const lap = luma(data, i - 1) + luma(data, i + 1) + luma(data, i - width) + luma(data, i + width) - 4 * luma(data, i);
+      sum += lap; sumSq += lap * lap; n++;
+    }
+  }
+  if (n === 0) return 0;
+  const mean = sum / n;
+  return sumSq / n - mean * mean;
+}
+
+const BLOWN_LUMA = 250;
+const CRUSHED_MAX = 2; // all channels at or below this: crushed to black
+
+/**
+ * Checks a capture as the camera took it — before colour correction, which
+ * can itself clip channels — ahead of scoring: focus on the fries, exposure
+ * of the frame, clipped channels on the fries, specular glare, fry coverage
+ * and whether the PPM resolves the smallest defect template. Exposure is read
+ * from the whole frame — its highlights and how much of it is blown out —
+ * never from the fries' own brightness, which is what is being graded: dark
+ * or pale product in a well-exposed frame must not be refused as a bad photo.
+ * `foreground` is the background-model fry mask, and focus is read inside it
+ * so a sharp tray cannot pass blurred fries; without it the whole frame
+ * stands in for fries. `glareMask` is the specular highlight mask (see glare.ts).
+ */
+export function assessImageQuality(raster: RgbaRaster, ppm: number, foreground?: Uint8Array, glareMask?: Uint8Array): ImageQualityReport {
+  const { data, width, height } = raster;
+  const n = width * height;
+  const L = QUALITY_LIMITS;
+
+  let fry = 0, clipped = 0, glare = 0, opaque = 0, blown = 0;
+  const lumaHist = new Uint32Array(256);
+  for (let i = 0; i < n; i++) {
+    if (data[i * 4 + 3] >= 128) {
+      const y = luma(data, i);
+      lumaHist[Math.min(255, Math.round(y))]++;
+      opaque++;
+      if (y >= BLOWN_LUMA) blown++;
+    }
+    if (foreground ? !foreground[i] : data[i * 4 + 3] < 128) continue;
+    fry++;
+    const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+    if (Math.max(r, g, b) >= 255 || Math.max(r, g, b) <= CRUSHED_MAX) clipped++;
+    if (glareMask?.[i]) glare++;
+  }
+  let highlightLuma = 0;
+  for (let t = 0, seen = 0; t < 256; t++) {
+    seen += lumaHist[t];
+    if (seen >= opaque * 0.99) { highlightLuma = t; break; }
+  }
+  const blownFraction = opaque > 0 ? blown / opaque : 0;
+  const clippedFraction = fry > 0 ? clipped / fry : 0;
+  const glareFraction = fry > 0 ? glare / fry : 0;
+  const coverage = n > 0 ? fry / n : 0;
+  const focus = laplacianVariance(raster, foreground);
+  const smallDefectPx = MCCAIN_SIZE_REFERENCE.defect_dark_small.diameter * ppm;
+
+  const underLevel = below(highlightLuma, L.highlightLuma);
+  const overLevel = above(blownFraction, L.blownFraction);
+  const exposureLevel = LEVEL_RANK[underLevel] >= LEVEL_RANK[overLevel] ? underLevel : overLevel;
+  const exposureMessage = underLevel !== 'ok' && exposureLevel === underLevel
+    ? `Frame highlights at luma ${highlightLuma} — under-exposed`
+    : overLevel !== 'ok'
+      ? `${(blownFraction * 100).toFixed(0)}% of frame blown out — over-exposed`
+      : `Frame highlights at luma ${highlightLuma}, ${(blownFraction * 100).toFixed(0)}% blown out`;
+  const checks: QualityCheck[] = [
+    {
+      id: 'focus', label: 'Focus', value: focus, level: below(focus, L.focusLaplacianVar),
+      message: `Laplacian variance ${focus.toFixed(0)}`,
+    },
+    {
+      id: 'exposure', label: 'Exposure', value: highlightLuma, level: exposureLevel, message: exposureMessage,
+    },
+    {
+      id: 'clipping', label: 'Clipped channels', value: clippedFraction, level: above(clippedFraction, L.clippedFraction),
+      message: `${(clippedFraction * 100).toFixed(1)}% of fry pixels clipped`,
+    },
+    {
+      id: 'glare', label: 'Glare', value: glareFraction, level: above(glareFraction, L.glareFraction),
+      message: `${(glareFraction * 100).toFixed(1)}% specular highlights`,
+    },
+    {
+      id: 'coverage', label: 'Fry coverage', value: coverage, level: below(coverage, L.fryCoverage),
+      message: `${(coverage * 100).toFixed(1)}% of frame is fry`,
+    },
+    {
+      id: 'resolution', label: 'Resolution', value: smallDefectPx, level: below(smallDefectPx, L.smallDefectPx),
+      message: `${MCCAIN_SIZE_REFERENCE.defect_dark_small.diameter} mm defect = ${smallDefectPx.toFixed(1)} px at ${ppm.toFixed(2)} px/mm`,
+    },
+  ];
+
+  const level = checks.reduce<QualityLevel>((worst, c) => (LEVEL_RANK[c.level] > LEVEL_RANK[worst] ? c.level : worst), 'ok');
+  return { level, checks };
+}
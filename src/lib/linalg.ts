@@ -0,0 +1,57 @@
+// Small dense linear algebra helpers (colour correction, regression fits)
+
+export type Vector3 = [number, number, number];
+export type Matrix3 = [Vector3, Vector3, Vector3];
+
+export const IDENTITY3: Matrix3 = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+/** Solves A·x = b by Gaussian elimination with partial pivoting; null if singular */
+export function solveLinearSystem(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    if (Math.abs(M[pivot][col]) < 1e-12) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = M[r][n];
+    for (let c = r + 1; c < n; c++) sum -= M[r][c] * x[c];
+    x[r] = sum / M[r][r];
+  }
+  return x;
+}
+
+/**
+ * Ordinary least squares via the normal equations: minimises ‖X·β − y‖².
+ * A small ridge term keeps nearly collinear designs solvable.
+ */
+export function leastSquares(X: number[][], y: number[], ridge = 1e-9): number[] | null {
+  const p = X[0]?.length ?? 0;
+  if (p === 0 || X.length < p) return null;
+  const XtX = Array.from({ length: p }, () => new Array(p).fill(0));
+  const Xty = new Array(p).fill(0);
+  for (let i = 0; i < X.length; i++) {
+    const row = X[i];
+    for (let a = 0; a < p; a++) {
+      Xty[a] += row[a] * y[i];
+      for (let b = 0; b < p; b++) XtX[a][b] += row[a] * row[b];
+    }
+  }
+  for (let a = 0; a < p; a++) XtX[a][a] += ridge;
+  return solveLinearSystem(XtX, Xty);
+}
+
+export function multiplyMatrix3(M: Matrix3, v: Vector3): Vector3 {
+  return [
+    M[0][0] * v[0] + M[0][1] * v[1] + M[0][2] * v[2],
+    M[1][0] * v[0] + M[1][1] * v[1] + M[1][2] * v[2],
+    M[2][0] * v[0] + M[2][1] * v[1] + M[2][2] * v[2],
+  ];
+}
@@ -0,0 +1,80 @@
+// Mottling - McDonald's "1/3 rule" evaluated per segmented strip
+
+import type { DefectRegion } from './colorAnalysis';
+import { DEFAULT_SCORE_CUTOFFS, type ScoreCutoffs } from './specProfiles';
+import { axialPosition, type FryInstance, type Segmentation } from './segmentation';
+
+export interface StripMottling {
+  stripId: number;
+  coverage: number;  // fraction of the strip's length spanned by mottled regions (union)
+  mottled: boolean;  // coverage reaches the 1/3 rule
+}
+
+export const MOTTLING_THIRD_RULE = 1 / 3;
+
+/** Axial interval [t0, t1] (0 = head, 1 = tail) a region spans on a strip */
+function axialSpan(region: DefectRegion, strip: FryInstance): [number, number] {
+  const points = region.contour.length ? region.contour : [region.centroid];
+  let t0 = 1, t1 = 0;
+  for (const p of points) {
+    const t = axialPosition(strip, p.x, p.y);
+    if (t < t0) t0 = t;
+    if (t > t1) t1 = t;
+  }
+  return [t0, t1];
+}
+
+/**
+ * Mottled coverage of every strip: the union of the axial spans of its
+ * mottled regions as a fraction of the strip length, so two blobs side by
+ * side across the strip count once.
+ */
+export function measureStripMottling(defects: DefectRegion[], segmentation: Pick<Segmentation, 'instances'>): StripMottling[] {
+  return segmentation.instances.map(strip => {
+    const bins = new Uint8Array(Math.max(1, Math.ceil(strip.axis.length)));
+    for (const d of defects) {
+      if (d.type !== 'mottled' || d.isArtifact || d.stripId !== strip.id) continue;
+      const [t0, t1] = axialSpan(d, strip);
+      const last = Math.min(bins.length - 1, Math.round(t1 * (bins.length - 1)));
+      for (let b = Math.round(t0 * (bins.length - 1)); b <= last; b++) bins[b] = 1;
+    }
+    let covered = 0;
+    for (let b = 0; b < bins.length; b++) covered += bins[b];
+    const coverage = covered / bins.length;
+    return { stripId: strip.id, coverage, mottled: coverage >= MOTTLING_THIRD_RULE };
+  });
+}
+
+/**
+ * 1/3 rule: mottled regions only count on strips whose mottled length reaches
+ * a third of the strip. Every strip-bound region gets its own axial
+ * `stripCoverage`; mottled regions off any strip are dropped.
+ */
+export function applyMottlingThirdRule(defects: DefectRegion[], segmentation: Segmentation): { defects: DefectRegion[]; strips: StripMottling[] } {
+  const strips = measureStripMottling(defects, segmentation);
+  const mottledStrips = new Set(strips.filter(s => s.mottled).map(s => s.stripId));
+  const kept: DefectRegion[] = [];
+  for (const d of defects) {
+    const strip = d.stripId ? segmentation.instances[d.stripId - 1] : undefined;
+    if (strip) {
+      const [t0, t1] = axialSpan(d, strip);
+      d.stripCoverage = t1 - t0;
+    }
+    if (d.type === 'mottled' && !(d.stripId && mottledStrips.has(d.stripId))) continue;
+    kept.push(d);
+  }
+  return { defects: kept, strips };
+}
+
+/** Mottling attribute (5 = target, 9 = reject) from the share of mottled strips */
+export function getMottlingScore(
+  strips: StripMottling[], cutoffs: ScoreCutoffs['mottledStripShare'] = DEFAULT_SCORE_CUTOFFS.mottledStripShare,
+): number {
+  if (strips.length === 0) return 5;
+  const share = strips.filter(s => s.mottled).length / strips.length;
+  if (share >= cutoffs[2]) return 9;
+  if (share >= cutoffs[1]) return 8;
+  if (share >= cutoffs[0]) return 7;
+  if (share > 0) return 6;
+  return 5;
+}
@@ -0,0 +1,145 @@
+// Analysis Pipeline - ordered, versioned stages with declared inputs and outputs
+
+import type { AnalysisOptions, AnalysisProgress, DefectRegion, RgbaRaster } from './colorAnalysis';
+import type { ColorCorrectionReport } from './colorCorrection';
+import type { ForegroundMask } from './backgroundModel';
+import type { ImageQualityReport } from './imageQuality';
+import type { Segmentation } from './segmentation';
+import type { SugarEndAnalysis } from './sugarEnds';
+import type { StripMottling } from './mottling';
+import type { SpecProfile } from './specProfiles';
+
+/** Bumped whenever a built-in stage changes what it produces for the same input */
+export const ENGINE_VERSION = '3.0.0';
+
+/** Fry colour statistics over flesh pixels (glare, seasoning, voids and shadow left out) */
+export interface FryColourStats {
+  meanR: number; meanG: number; meanB: number;
+  meanH: number; meanS: number; meanV: number;
+  medianHue: number;
+  darkRatio: number; burnedRatio: number; lightRatio: number;
+  validPixels: number;
+  shadowMaskRatio: number;
+  glareMaskRatio: number;
+  seasoningCoverage: number;
+}
+
+export interface AppearanceScores {
+  agtronScore: number;
+  usdaColorScore: number;
+  processColorScore: number;
+  hueScore: number;
+  mottlingScore: number;
+  defectScore: number;
+  deltaE2000: number;
+  maillardRisk: 'Low' | 'Moderate' | 'High' | 'Critical';
+  acrylamideIndex: number;
+  pqi: number;
+  fuzzyConfidence: number;
+}
+
+/** Everything the stages hand each other; a slot is set once its producing stage has run */
+export interface PipelineState {
+  raw: RgbaRaster;                  // copy of the caller's pixels, never modified
+  corrected: RgbaRaster;
+  whiteBalanceGain: [number, number, number];
+  colorCorrection: ColorCorrectionReport;
+  foreground: ForegroundMask;
+  glare: Uint8Array;
+  seasoning: Uint8Array;
+  quality: ImageQualityReport;
+  segmentation: Segmentation;
+  voids: Uint8Array;
+  crunchScore: number;
+  stats: FryColourStats;
+  sugarEnds: SugarEndAnalysis;
+  defects: DefectRegion[];          // after the 1/3 mottling rule
+  stripMottling: StripMottling[];
+  scores: AppearanceScores;
+  hueHistogram: number[];
+  heatmapData: number[][];
+  gradCamData: number[][];
+}
+
+export type PipelineSlot = keyof PipelineState;
+
+export interface StageContext {
+  ppm: number;
+  profile: SpecProfile;
+  options: AnalysisOptions;
+}
+
+export interface AnalysisStage {
+  id: string;
+  version: number;        // bump when the stage's output changes for the same input
+  label: string;          // shown while the stage runs
+  inputs: PipelineSlot[];
+  outputs: PipelineSlot[];
+  /** Reads its inputs from `state` and writes every declared output */
+  run: (state: Required<PipelineState>, ctx: StageContext) => void;
+  /**
+   * Neutral outputs when a spec profile disables the stage. Stages without
+   * it are required and cannot be disabled.
+   */
+  skip?: (state: Required<PipelineState>, ctx: StageContext) => void;
+}
+
+/** How one stage took part in producing a result */
+export interface StageRecord {
+  id: string;
+  version: number;
+  enabled: boolean;
+  custom: boolean;  // not the built-in stage of that id
+}
+
+export interface EngineRecord {
+  version: string;
+  stages: StageRecord[];
+}
+
+/** `pipeline` with the stage of the same id swapped for `stage` */
+export function replaceStage(pipeline: AnalysisStage[], stage: AnalysisStage): AnalysisStage[] {
+  if (!pipeline.some(s => s.id === stage.id)) throw new Error(`No stage "${stage.id}" to replace`);
+  return pipeline.map(s => (s.id === stage.id ? stage : s));
+}
+
+/** `pipeline` with `stage` inserted right after the stage `afterId` */
+export function insertStage(pipeline: AnalysisStage[], stage: AnalysisStage, afterId: string): AnalysisStage[] {
+  const index = pipeline.findIndex(s => s.id === afterId);
+  if (index < 0) throw new Error(`No stage "${afterId}" to insert after`);
+  return [...pipeline.slice(0, index + 1), stage, ...pipeline.slice(index + 1)];
+}
+
+/**
+ * Runs the stages in order over `state`. A stage only runs once all of its
+ * declared inputs are set, and must set all of its declared outputs; a
+ * disabled stage writes its neutral outputs instead. `builtIn` marks which
+ * stages are the engine's own in the returned record.
+ */
+export function runPipeline(
+  stages: AnalysisStage[], state: Partial<PipelineState>, ctx: StageContext,
+  builtIn: AnalysisStage[] = [], onProgress?: (progress: AnalysisProgress) => void,
+): EngineRecord {
+  const disabled = new Set(ctx.profile.disabledStages);
+  for (const id of disabled) {
+    const stage = stages.find(s => s.id === id);
+    if (stage && !stage.skip) throw new Error(`Stage "${id}" is required and cannot be disabled`);
+  }
+
+  const records: StageRecord[] = [];
+  stages.forEach((stage, index) => {
+    onProgress?.({ phase: stage.id, label: stage.label, progress: index / stages.length });
+    const enabled = !disabled.has(stage.id);
+    const missing = stage.inputs.filter(slot => state[slot] === undefined);
+    if (enabled && missing.length) throw new Error(`Stage "${stage.id}" is missing input ${missing.join(', ')}`);
+
+    const ready = state as Required<PipelineState>;
+    if (enabled) stage.run(ready, ctx);
+    else stage.skip!(ready, ctx);
+
+    const unset = stage.outputs.filter(slot => state[slot] === undefined);
+    if (unset.length) throw new Error(`Stage "${stage.id}" did not produce ${unset.join(', ')}`);
+    records.push({ id: stage.id, version: stage.version, enabled, custom: !builtIn.includes(stage) });
+  });
+  return { version: ENGINE_VERSION, stages: records };
+}
@@ -1,5 +1,10 @@
 // PQI Engine - Product Quality Index calculations
 
+import type { Disposition, HueBand, SpecProfile } from './specProfiles';
+import type { QualityLevel } from './imageQuality';
+import type { CategoryScores, SensoryScores } from './sensoryPanel';
+import type { DefectReview } from './defectReview';
+
 export interface BatchRecord {
   id: string;
   timestamp: string;
@@ -15,6 +20,21 @@ export interface BatchRecord {
   agtronScore: number;
   usdaLabel: string;
   status: string;
+  // Strip length distribution
+  stripCount: number;
+  meanLengthMm: number;
+  lengthBuckets: { label: string; percent: number; pass: boolean }[];
+  lengthPass: boolean;
+  // Spec the sample was graded against (full snapshot, not a reference)
+  specProfile: SpecProfile;
+  disposition: Disposition;
+  imageQuality: QualityLevel; // 'warning' captures are logged but flagged
+  // Multi-category PQI — texture / aroma come from the sensory panel
+  sensoryScores: SensoryScores | null;
+  categoryScores: CategoryScores;
+  fullPqi: number | null;
+  // Reviewer corrections; the grade fields above are then the corrected ones
+  review: DefectReview | null;
 }
 
 export interface ScoreAttribute {
@@ -87,7 +107,7 @@ export const USDA_COLOR_CHART = [
 ];
 
 // Farm Frites Hue Color Chart reference
-export const FARM_FRITES_HUE_CHART = [
+export const FARM_FRITES_HUE_CHART: HueBand[] = [
   { score: 5, label: 'White Flesh (Target)', hsvHue: [25, 40], description: 'Bright light golden cooked fry' },
   { score: 6, label: 'Creamy', hsvHue: [40, 55], description: 'Cream to light yellow flesh' },
   { score: 7, label: 'Yellow Flesh', hsvHue: [55, 70], description: 'Noticeably yellow flesh' },
@@ -100,13 +120,23 @@ export function generateCSVReport(records: BatchRecord[]): string {
   const headers = [
     'Timestamp', 'Batch ID', 'Image Name', 'Median Hue (°)', 'PQI (%)',
     'Defect Count', 'Process Color Score', 'Hue Score', 'Mottling Score',
-    'Defect Score', 'Agtron Score', 'USDA Label', 'Status'
+    'Defect Score', 'Agtron Score', 'USDA Label', 'Status',
+    'Strip Count', 'Mean Length (mm)', 'Length Buckets', 'Length Spec',
+    'Spec Profile', 'Spec Version', 'Disposition', 'Image Quality',
+    'Appearance (%)', 'Texture (%)', 'Aroma (%)', 'Full PQI (%)',
+    'Reviewed By', 'Automatic PQI (%)'
   ].join(',');
 
   const rows = records.map(r => [
     r.timestamp, r.batchId, r.imageName, r.medianHue.toFixed(1), r.pqi.toFixed(0),
     r.defectCount, r.processColorScore, r.hueScore, r.mottlingScore,
-    r.defectScore, r.agtronScore.toFixed(0), `"${r.usdaLabel}"`, r.status
+    r.defectScore, r.agtronScore.toFixed(0), `"${r.usdaLabel}"`, r.status,
+    r.stripCount, r.meanLengthMm.toFixed(1),
+    `"${r.lengthBuckets.map(b => `${b.label} ${b.percent.toFixed(0)}%`).join('; ').replace(/"/g, '""')}"`,
+    r.lengthPass ? 'PASS' : 'FAIL',
+    `"${r.specProfile.name.replace(/"/g, '""')}"`, r.specProfile.version, r.disposition, r.imageQuality,
+    r.categoryScores.appearance, r.categoryScores.texture ?? '', r.categoryScores.aroma ?? '', r.fullPqi ?? '',
+    r.review ? `"${r.review.reviewer.replace(/"/g, '""')}"` : '', r.review?.automatic.pqi ?? ''
   ].join(','));
 
   return [headers, ...rows].join('\n');
@@ -121,3 +151,13 @@ export function downloadCSV(content: string, filename: string) {
   link.click();
   URL.revokeObjectURL(url);
 }
+
+export function downloadJSON(data: unknown, filename: string) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
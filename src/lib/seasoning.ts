@@ -0,0 +1,80 @@
+// Seasoning - salt crystals and seasoning flecks, masked out as artifacts
+
+import { deltaE2000, rgbToLab, type LabColor, type RgbaRaster } from './colorAnalysis';
+import { labelComponents } from './segmentation';
+import type { SeasoningSpec } from './specProfiles';
+
+// Surrounding fry a speck is contrasted against
+const LOCAL_RADIUS_MM = 2;
+
+/**
+ * Seasoning mask over fry pixels. Specks are small blobs whose L* stands out
+ * from the surrounding fry by the spec's contrast; a speck is seasoning when
+ * it is a bright, near-neutral salt crystal or matches the SKU's seasoning
+ * colour. `exclude` (e.g. the glare mask) is never seasoning and is left out
+ * of the local reference.
+ */
+export function computeSeasoningMask(
+  raster: RgbaRaster, foreground: Uint8Array, ppm: number, spec: SeasoningSpec, exclude?: Uint8Array,
+): Uint8Array {
+  const { data, width, height } = raster;
+  const n = width * height;
+  const lab: LabColor[] = new Array(n);
+  const usable = (i: number) => foreground[i] && !exclude?.[i];
+
+  // Integral images of L* and pixel count over usable fry pixels
+  const W1 = width + 1;
+  const sumL = new Float64Array(W1 * (height + 1)), cnt = new Float64Array(W1 * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowL = 0, rowN = 0;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (usable(i)) {
+        lab[i] = rgbToLab(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+        rowL += lab[i].L; rowN++;
+      }
+      sumL[(y + 1) * W1 + x + 1] = sumL[y * W1 + x + 1] + rowL;
+      cnt[(y + 1) * W1 + x + 1] = cnt[y * W1 + x + 1] + rowN;
+    }
+  }
+
+  const r = Math.max(2, Math.round(LOCAL_RADIUS_MM * ppm));
+  const contrast = new Float32Array(n);
+  const candidate = new Uint8Array(n);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - r), y1 = Math.min(height, y + r + 1);
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!usable(i)) continue;
+      const x0 = Math.max(0, x - r), x1 = Math.min(width, x + r + 1);
+      const c = cnt[y1 * W1 + x1] - cnt[y0 * W1 + x1] - cnt[y1 * W1 + x0] + cnt[y0 * W1 + x0];
+      const s = sumL[y1 * W1 + x1] - sumL[y0 * W1 + x1] - sumL[y1 * W1 + x0] + sumL[y0 * W1 + x0];
+      contrast[i] = lab[i].L - s / c;
+      if (Math.abs(contrast[i]) >= spec.minContrastL) candidate[i] = 1;
+    }
+  }
+
+  const { labels, count } = labelComponents(candidate, width, height);
+  const size = new Int32Array(count + 1);
+  const L = new Float64Array(count + 1), A = new Float64Array(count + 1), B = new Float64Array(count + 1);
+  const dL = new Float64Array(count + 1);
+  for (let i = 0; i < n; i++) {
+    const l = labels[i];
+    if (!l) continue;
+    size[l]++; L[l] += lab[i].L; A[l] += lab[i].a; B[l] += lab[i].b; dL[l] += contrast[i];
+  }
+
+  const maxSpeck = Math.max(1, spec.maxSpeckMm2 * ppm * ppm);
+  const isSeasoning = new Uint8Array(count + 1);
+  for (let l = 1; l <= count; l++) {
+    if (size[l] > maxSpeck) continue;
+    const mean = { L: L[l] / size[l], a: A[l] / size[l], b: B[l] / size[l] };
+    const salt = dL[l] > 0 && Math.hypot(mean.a, mean.b) <= spec.saltMaxChroma;
+    const flake = spec.color !== null && deltaE2000(mean, spec.color) <= spec.toleranceDeltaE;
+    if (salt || flake) isSeasoning[l] = 1;
+  }
+
+  const mask = new Uint8Array(n);
+  for (let i = 0; i < n; i++) if (isSeasoning[labels[i]]) mask[i] = 1;
+  return mask;
+}
@@ -0,0 +1,402 @@
+// ============================================================
+// Fry Instance Segmentation
+// Background separation → morphological clean-up → connected
+// components → distance-transform watershed to split touching strips
+// ============================================================
+
+import { rgbToHsv, type RgbaRaster } from './colorAnalysis';
+
+export interface Point { x: number; y: number; }
+
+export interface BoundingBox { x: number; y: number; width: number; height: number; }
+
+export interface PrincipalAxis {
+  centroid: Point;
+  direction: Point; // unit vector along the long axis
+  angle: number;    // radians, image coordinates (y down)
+  length: number;   // px extent along the long axis
+  width: number;    // px extent across the long axis
+  head: Point;      // axis end point at the low-projection end
+  tail: Point;      // axis end point at the high-projection end
+}
+
+/** Bounding-box-local pixel mask: data[y * width + x] === 1 inside the strip */
+export interface InstanceMask extends BoundingBox {
+  data: Uint8Array;
+}
+
+export interface FryInstance {
+  id: number;        // 1-based, matches Segmentation.labels
+  area: number;      // px
+  bbox: BoundingBox;
+  contour: Point[];  // outer boundary in image coordinates, clockwise
+  axis: PrincipalAxis;
+  mask: InstanceMask;
+}
+
+export interface Segmentation {
+  width: number;
+  height: number;
+  labels: Int32Array; // 0 = background, otherwise FryInstance.id
+  instances: FryInstance[];
+}
+
+export interface SegmentationOptions {
+  minAreaMm2?: number;   // discard crumbs smaller than this
+  splitRatio?: number;   // watershed marker threshold, fraction of peak distance
+  foreground?: Uint8Array; // shared background-model mask (default: saturation rule)
+}
+
+// ─── Foreground mask ─────────────────────────────────────────
+
+function buildFryMask({ data, width, height }: RgbaRaster): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    if (data[i * 4 + 3] < 128) continue;
+    const hsv = rgbToHsv(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+    if (hsv.s > 0.08 && hsv.v > 0.08) mask[i] = 1;
+  }
+  return mask;
+}
+
+function morph(mask: Uint8Array, width: number, height: number, erode: boolean): Uint8Array {
+  const out = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let hit = erode ? 1 : 0;
+      for (let dy = -1; dy <= 1 && hit === (erode ? 1 : 0); dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          const v = nx < 0 || ny < 0 || nx >= width || ny >= height ? 0 : mask[ny * width + nx];
+          if (erode && v === 0) { hit = 0; break; }
+          if (!erode && v === 1) { hit = 1; break; }
+        }
+      }
+      out[y * width + x] = hit;
+    }
+  }
+  return out;
+}
+
+// ─── Connected components (8-connectivity) ───────────────────
+
+export function labelComponents(mask: Uint8Array, width: number, height: number): { labels: Int32Array; count: number } {
+  const labels = new Int32Array(width * height);
+  const stack: number[] = [];
+  let count = 0;
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+    count++;
+    labels[start] = count;
+    stack.push(start);
+    while (stack.length) {
+      const i = stack.pop()!;
+      const x = i % width, y = (i - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const j = ny * width + nx;
+          if (mask[j] && !labels[j]) { labels[j] = count; stack.push(j); }
+        }
+      }
+    }
+  }
+  return { labels, count };
+}
+
+// ─── Distance transform (chamfer 3-4) ────────────────────────
+
+function chamferDistance(mask: Uint8Array, width: number, height: number): Int32Array {
+  const INF = 1 << 28;
+  const dist = new Int32Array(width * height);
+  for (let i = 0; i < dist.length; i++) dist[i] = mask[i] ? INF : 0;
+  const at = (x: number, y: number) => (x < 0 || y < 0 || x >= width || y >= height ? 0 : dist[y * width + x]);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!dist[i]) continue;
+      dist[i] = Math.min(dist[i], at(x - 1, y) + 3, at(x, y - 1) + 3, at(x - 1, y - 1) + 4, at(x + 1, y - 1) + 4);
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (!dist[i]) continue;
+      dist[i] = Math.min(dist[i], at(x + 1, y) + 3, at(x, y + 1) + 3, at(x + 1, y + 1) + 4, at(x - 1, y + 1) + 4);
+    }
+  }
+  return dist;
+}
+
+// ─── Touching-strip split (marker watershed) ─────────────────
+
+/**
+ * Splits components that contain several distance-transform cores.
+ * Cores are the parts of a component whose distance to the background is
+ * at least `splitRatio` × the component's peak; two strips touching at a
+ * narrow neck produce two cores. Labels are then flooded outward from the
+ * cores in order of decreasing distance, so the split line follows the neck.
+ * Regions whose shared boundary is nearly as thick as the thinner region
+ * (a bulge on one strip rather than a neck between two) are merged back.
+ */
+function splitTouching(
+  mask: Uint8Array, labels: Int32Array, count: number,
+  width: number, height: number, splitRatio: number,
+): { labels: Int32Array; count: number } {
+  const dist = chamferDistance(mask, width, height);
+  const peak = new Int32Array(count + 1);
+  for (let i = 0; i < labels.length; i++) if (labels[i] && dist[i] > peak[labels[i]]) peak[labels[i]] = dist[i];
+
+  const coreMask = new Uint8Array(mask.length);
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] && dist[i] >= peak[labels[i]] * splitRatio) coreMask[i] = 1;
+  }
+  const cores = labelComponents(coreMask, width, height);
+  if (cores.count <= count) return { labels, count };
+
+  // Priority flood from the cores, highest distance first
+  const out = new Int32Array(cores.labels);
+  let maxDist = 0;
+  for (let i = 0; i < dist.length; i++) if (dist[i] > maxDist) maxDist = dist[i];
+  const buckets: number[][] = Array.from({ length: maxDist + 1 }, () => []);
+  for (let i = 0; i < out.length; i++) if (out[i]) buckets[dist[i]].push(i);
+
+  for (let level = maxDist; level >= 0; level--) {
+    const bucket = buckets[level];
+    while (bucket.length) {
+      const i = bucket.pop()!;
+      const x = i % width, y = (i - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const j = ny * width + nx;
+          if (!mask[j] || out[j]) continue;
+          out[j] = out[i];
+          buckets[Math.min(level, dist[j])].push(j);
+        }
+      }
+    }
+  }
+
+  // Saddle height between adjacent regions vs. each region's own peak
+  const regionPeak = new Int32Array(cores.count + 1);
+  for (let i = 0; i < out.length; i++) if (out[i] && dist[i] > regionPeak[out[i]]) regionPeak[out[i]] = dist[i];
+  const saddles = new Map<number, number>();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const a = out[y * width + x];
+      if (!a) continue;
+      for (const [nx, ny] of [[x + 1, y], [x, y + 1]]) {
+        if (nx >= width || ny >= height) continue;
+        const b = out[ny * width + nx];
+        if (!b || b === a) continue;
+        const key = Math.min(a, b) * (cores.count + 1) + Math.max(a, b);
+        const s = Math.min(dist[y * width + x], dist[ny * width + nx]);
+        if (s > (saddles.get(key) ?? 0)) saddles.set(key, s);
+      }
+    }
+  }
+
+  const parent = Array.from({ length: cores.count + 1 }, (_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (const [key, saddle] of saddles) {
+    const a = Math.floor(key / (cores.count + 1)), b = key % (cores.count + 1);
+    if (saddle >= 0.85 * Math.min(regionPeak[a], regionPeak[b])) parent[find(a)] = find(b);
+  }
+
+  const renumber = new Int32Array(cores.count + 1);
+  let merged = 0;
+  for (let l = 1; l <= cores.count; l++) if (find(l) === l) renumber[l] = ++merged;
+  for (let i = 0; i < out.length; i++) if (out[i]) out[i] = renumber[find(out[i])];
+  return { labels: out, count: merged };
+}
+
+// ─── Contour tracing (Moore neighbourhood) ───────────────────
+
+// Clockwise neighbourhood starting west (image coordinates, y down)
+const DIR_X = [-1, -1, 0, 1, 1, 1, 0, -1];
+const DIR_Y = [0, -1, -1, -1, 0, 1, 1, 1];
+
+function directionOf(dx: number, dy: number): number {
+  for (let d = 0; d < 8; d++) if (DIR_X[d] === dx && DIR_Y[d] === dy) return d;
+  return 0;
+}
+
+export function traceContour(mask: InstanceMask): Point[] {
+  const { width: w, height: h, data } = mask;
+  const inside = (x: number, y: number) => x >= 0 && y >= 0 && x < w && y < h && data[y * w + x] === 1;
+
+  let start = -1;
+  for (let i = 0; i < data.length; i++) if (data[i]) { start = i; break; }
+  if (start < 0) return [];
+  const sx = start % w, sy = (start - sx) / w;
+
+  const contour: Point[] = [{ x: sx + mask.x, y: sy + mask.y }];
+  let cx = sx, cy = sy, back = 0; // raster-first pixel: west neighbour is background
+  let firstX = -1, firstY = -1;
+  const maxSteps = 4 * data.length + 8;
+
+  for (let step = 0; step < maxSteps; step++) {
+    let found = false;
+    for (let k = 1; k <= 8; k++) {
+      const d = (back + k) % 8;
+      const nx = cx + DIR_X[d], ny = cy + DIR_Y[d];
+      if (!inside(nx, ny)) continue;
+      // Jacob's stopping criterion: back at start and about to repeat the first move
+      if (cx === sx && cy === sy && step > 0 && nx === firstX && ny === firstY) return contour;
+      if (step === 0) { firstX = nx; firstY = ny; }
+      const prev = (d + 7) % 8;
+      back = directionOf(cx + DIR_X[prev] - nx, cy + DIR_Y[prev] - ny);
+      cx = nx; cy = ny;
+      found = true;
+      break;
+    }
+    if (!found) break; // isolated pixel
+    if (!(cx === sx && cy === sy)) contour.push({ x: cx + mask.x, y: cy + mask.y });
+  }
+  return contour;
+}
+
+/** Douglas–Peucker polyline simplification of a closed contour */
+export function simplifyPolygon(points: Point[], epsilon: number): Point[] {
+  if (points.length <= 4) return points.slice();
+  // Anchor the closed curve at its start and the point farthest from it
+  let far = 0, farD = -1;
+  for (let i = 1; i < points.length; i++) {
+    const d = Math.hypot(points[i].x - points[0].x, points[i].y - points[0].y);
+    if (d > farD) { farD = d; far = i; }
+  }
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1; keep[far] = 1; keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, far], [far, points.length - 1]];
+  while (stack.length) {
+    const [a, b] = stack.pop()!;
+    const p = points[a], q = points[b];
+    const dx = q.x - p.x, dy = q.y - p.y;
+    const len = Math.hypot(dx, dy);
+    let maxD = -1, idx = -1;
+    for (let i = a + 1; i < b; i++) {
+      const r = points[i];
+      const d = len > 0
+        ? Math.abs(dy * r.x - dx * r.y + q.x * p.y - q.y * p.x) / len
+        : Math.hypot(r.x - p.x, r.y - p.y);
+      if (d > maxD) { maxD = d; idx = i; }
+    }
+    if (maxD > epsilon) {
+      keep[idx] = 1;
+      stack.push([a, idx], [idx, b]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+// ─── Principal axis (second-order moments) ───────────────────
+
+function principalAxis(mask: InstanceMask): PrincipalAxis {
+  const { width: w, height: h, data } = mask;
+  let n = 0, sx = 0, sy = 0;
+  for (let y = 0; y < h; y++) for (let x = 0; x < w; x++) if (data[y * w + x]) { n++; sx += x; sy += y; }
+  const mx = sx / Math.max(1, n), my = sy / Math.max(1, n);
+
+  let mu20 = 0, mu02 = 0, mu11 = 0;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (!data[y * w + x]) continue;
+      const dx = x - mx, dy = y - my;
+      mu20 += dx * dx; mu02 += dy * dy; mu11 += dx * dy;
+    }
+  }
+  const angle = 0.5 * Math.atan2(2 * mu11, mu20 - mu02);
+  const ux = Math.cos(angle), uy = Math.sin(angle);
+
+  let minA = Infinity, maxA = -Infinity, minB = Infinity, maxB = -Infinity;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (!data[y * w + x]) continue;
+      const dx = x - mx, dy = y - my;
+      const a = dx * ux + dy * uy;
+      const b = -dx * uy + dy * ux;
+      if (a < minA) minA = a; if (a > maxA) maxA = a;
+      if (b < minB) minB = b; if (b > maxB) maxB = b;
+    }
+  }
+  const cx = mx + mask.x, cy = my + mask.y;
+  return {
+    centroid: { x: cx, y: cy },
+    direction: { x: ux, y: uy },
+    angle,
+    length: maxA - minA + 1,
+    width: maxB - minB + 1,
+    head: { x: cx + ux * minA, y: cy + uy * minA },
+    tail: { x: cx + ux * maxA, y: cy + uy * maxA },
+  };
+}
+
+// ─── Main Entry Point ────────────────────────────────────────
+
+export function segmentFries(imageData: RgbaRaster, ppm: number = 1, options: SegmentationOptions = {}): Segmentation {
+  const { width, height } = imageData;
+  const { minAreaMm2 = 40, splitRatio = 0.6, foreground } = options;
+  const minArea = Math.max(20, minAreaMm2 * ppm * ppm);
+
+  let mask = foreground ?? buildFryMask(imageData);
+  mask = morph(morph(mask, width, height, true), width, height, false); // opening
+
+  const components = labelComponents(mask, width, height);
+  const { labels: split, count } = splitTouching(mask, components.labels, components.count, width, height, splitRatio);
+
+  // Bounding boxes + areas per provisional label
+  const minX = new Int32Array(count + 1).fill(width), minY = new Int32Array(count + 1).fill(height);
+  const maxX = new Int32Array(count + 1).fill(-1), maxY = new Int32Array(count + 1).fill(-1);
+  const area = new Int32Array(count + 1);
+  for (let i = 0; i < split.length; i++) {
+    const l = split[i];
+    if (!l) continue;
+    const x = i % width, y = (i - x) / width;
+    area[l]++;
+    if (x < minX[l]) minX[l] = x; if (x > maxX[l]) maxX[l] = x;
+    if (y < minY[l]) minY[l] = y; if (y > maxY[l]) maxY[l] = y;
+  }
+
+  // Drop crumbs, renumber the survivors 1..N
+  const remap = new Int32Array(count + 1);
+  const instances: FryInstance[] = [];
+  for (let l = 1; l <= count; l++) {
+    if (area[l] < minArea) continue;
+    const id = instances.length + 1;
+    remap[l] = id;
+    const bbox = { x: minX[l], y: minY[l], width: maxX[l] - minX[l] + 1, height: maxY[l] - minY[l] + 1 };
+    const data = new Uint8Array(bbox.width * bbox.height);
+    for (let y = bbox.y; y < bbox.y + bbox.height; y++) {
+      for (let x = bbox.x; x < bbox.x + bbox.width; x++) {
+        if (split[y * width + x] === l) data[(y - bbox.y) * bbox.width + (x - bbox.x)] = 1;
+      }
+    }
+    const mask: InstanceMask = { ...bbox, data };
+    instances.push({ id, area: area[l], bbox, contour: traceContour(mask), axis: principalAxis(mask), mask });
+  }
+
+  const labels = new Int32Array(split.length);
+  for (let i = 0; i < split.length; i++) labels[i] = remap[split[i]];
+
+  return { width, height, labels, instances };
+}
+
+// ─── Instance queries ────────────────────────────────────────
+
+export function instanceAt(segmentation: Segmentation, x: number, y: number): FryInstance | null {
+  const xi = Math.floor(x), yi = Math.floor(y);
+  if (xi < 0 || yi < 0 || xi >= segmentation.width || yi >= segmentation.height) return null;
+  const id = segmentation.labels[yi * segmentation.width + xi];
+  return id ? segmentation.instances[id - 1] : null;
+}
+
+/** Position of a point along a strip's long axis: 0 = head, 1 = tail */
+export function axialPosition(instance: FryInstance, x: number, y: number): number {
+  const { head, direction, length } = instance.axis;
+  const t = ((x - head.x) * direction.x + (y - head.y) * direction.y) / Math.max(1, length - 1);
+  return Math.max(0, Math.min(1, t));
+}
@@ -0,0 +1,78 @@
+// Sensory Panel - taster texture / aroma scores combined with the vision appearance scores
+
+import { calculateCategoryScore, type ScoreAttribute } from './pqiEngine';
+
+export type SensoryCategory = Exclude<ScoreAttribute['category'], 'appearance'>;
+
+/** One panel attribute on the bi-directional 9-point scale (5 = target) */
+export interface SensoryAttributeDef {
+  name: string;
+  category: SensoryCategory;
+  weight: number;
+  low: string;   // what a 1 means
+  high: string;  // what a 9 means
+}
+
+export const SENSORY_ATTRIBUTES: SensoryAttributeDef[] = [
+  { name: 'Crispness', category: 'texture', weight: 1, low: 'Limp / soggy', high: 'Hard / brittle' },
+  { name: 'Interior', category: 'texture', weight: 1, low: 'Dry / hollow', high: 'Gummy / raw' },
+  { name: 'Oiliness', category: 'texture', weight: 1, low: 'Dry', high: 'Greasy' },
+  { name: 'Potato flavour', category: 'aroma', weight: 1, low: 'Bland', high: 'Earthy / strong' },
+  { name: 'Fry oil note', category: 'aroma', weight: 1, low: 'Flat', high: 'Heavy / rancid' },
+  { name: 'Sweetness', category: 'aroma', weight: 1, low: 'Bitter', high: 'Sugary / caramel' },
+];
+
+/** Panel scores by attribute name, 1-9 */
+export type SensoryScores = Record<string, number>;
+
+export interface CategoryScores {
+  appearance: number;     // calculateCategoryScore over the four vision scores, 0-100
+  texture: number | null; // null until the panel has scored the sample
+  aroma: number | null;
+}
+
+// Share of each category in the full PQI
+export const CATEGORY_WEIGHTS: Record<ScoreAttribute['category'], number> = { appearance: 0.4, texture: 0.35, aroma: 0.25 };
+
+export function defaultSensoryScores(): SensoryScores {
+  return Object.fromEntries(SENSORY_ATTRIBUTES.map(a => [a.name, 5]));
+}
+
+/** The vision scores as appearance attributes — works for an AnalysisResult or a BatchRecord */
+export function appearanceAttributes(s: { processColorScore: number; hueScore: number; mottlingScore: number; defectScore: number }): ScoreAttribute[] {
+  return [
+    { name: 'Process colour', score: s.processColorScore, weight: 1, category: 'appearance' },
+    { name: 'Flesh hue', score: s.hueScore, weight: 1, category: 'appearance' },
+    { name: 'Mottling', score: s.mottlingScore, weight: 1, category: 'appearance' },
+    { name: 'Defects', score: s.defectScore, weight: 1, category: 'appearance' },
+  ];
+}
+
+export function sensoryAttributes(scores: SensoryScores, category: SensoryCategory): ScoreAttribute[] {
+  return SENSORY_ATTRIBUTES
+    .filter(a => a.category === category)
+    .map(a => ({ name: a.name, score: scores[a.name] ?? 5, weight: a.weight, category }));
+}
+
+export function computeCategoryScores(
+  vision: Parameters<typeof appearanceAttributes>[0], panel: SensoryScores | null,
+): CategoryScores {
+  return {
+    appearance: calculateCategoryScore(appearanceAttributes(vision)),
+    texture: panel ? calculateCategoryScore(sensoryAttributes(panel, 'texture')) : null,
+    aroma: panel ? calculateCategoryScore(sensoryAttributes(panel, 'aroma')) : null,
+  };
+}
+
+/**
+ * Multi-category PQI: weighted mean of the scored categories. A category
+ * scored 0 (a 1 or 9 anywhere in it) rejects the whole sample. Null until
+ * the panel has scored texture and aroma.
+ */
+export function calculateFullPqi(categories: CategoryScores): number | null {
+  const { appearance, texture, aroma } = categories;
+  if (texture === null || aroma === null) return null;
+  if (appearance === 0 || texture === 0 || aroma === 0) return 0;
+  const w = CATEGORY_WEIGHTS;
+  return Math.round(appearance * w.appearance + texture * w.texture + aroma * w.aroma);
+}
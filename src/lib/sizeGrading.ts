@@ -0,0 +1,209 @@
+// Strip Size Grading - length distribution + cut-size conformity from calibrated strip measurements
+
+import { pixelsToMm, MCCAIN_SIZE_REFERENCE } from './calibration';
+import type { FryInstance } from './segmentation';
+
+export const MM_PER_INCH = 25.4;
+
+// Customer length spec: "at least minPercent % of strips must be ≥ minLengthIn"
+export interface LengthSpec {
+  label: string;
+  minLengthIn: number;
+  minPercent: number;
+}
+
+export const DEFAULT_LENGTH_SPECS: LengthSpec[] = [
+  { label: '≥ 2"', minLengthIn: 2, minPercent: 70 },
+  { label: '≥ 3"', minLengthIn: 3, minPercent: 20 },
+];
+
+export interface LengthBin {
+  fromMm: number; toMm: number;
+  fromIn: number; toIn: number;
+  count: number;
+  percent: number;
+}
+
+export interface LengthBucketResult {
+  label: string;
+  minLengthIn: number;
+  minPercent: number;
+  count: number;
+  percent: number;
+  pass: boolean;
+}
+
+export interface LengthDistribution {
+  strips: { stripId: number; lengthMm: number }[]; // clipped strips excluded
+  clippedStrips: number;      // strips cut off by the frame edge — length unknown
+  meanLengthMm: number;
+  medianLengthMm: number;
+  histogram: LengthBin[];     // 1/2" bins
+  buckets: LengthBucketResult[];
+  pass: boolean;
+}
+
+const BIN_IN = 0.5;
+const MIN_BINS = 8; // always chart at least 0–4"
+
+export function measureStripLengthMm(strip: FryInstance, ppm: number): number {
+  return pixelsToMm(strip.axis.length, ppm);
+}
+
+/** A strip touching the frame edge is only partly visible, so its length is a lower bound */
+function isClipped(strip: FryInstance, width: number, height: number): boolean {
+  const { x, y, width: w, height: h } = strip.bbox;
+  return x <= 0 || y <= 0 || x + w >= width || y + h >= height;
+}
+
+export function gradeLengthDistribution(
+  strips: FryInstance[],
+  ppm: number,
+  frame: { width: number; height: number },
+  specs: LengthSpec[] = DEFAULT_LENGTH_SPECS,
+): LengthDistribution {
+  const measured = strips.filter(s => !isClipped(s, frame.width, frame.height));
+  const lengths = measured.map(s => measureStripLengthMm(s, ppm));
+  const n = lengths.length;
+
+  const sorted = [...lengths].sort((a, b) => a - b);
+  const meanLengthMm = n > 0 ? lengths.reduce((a, b) => a + b, 0) / n : 0;
+  const medianLengthMm = n > 0 ? sorted[Math.floor(n / 2)] : 0;
+
+  const maxIn = n > 0 ? sorted[n - 1] / MM_PER_INCH : 0;
+  const binCount = Math.max(MIN_BINS, Math.floor(maxIn / BIN_IN) + 1);
+  const histogram: LengthBin[] = Array.from({ length: binCount }, (_, i) => ({
+    fromIn: i * BIN_IN, toIn: (i + 1) * BIN_IN,
+    fromMm: i * BIN_IN * MM_PER_INCH, toMm: (i + 1) * BIN_IN * MM_PER_INCH,
+    count: 0, percent: 0,
+  }));
+  // Binned against the bins' own mm edges, the same products the spec buckets compare with,
+  // so a strip exactly on an inch edge lands in the bin that starts there (76.2 / 25.4 / 0.5 < 6)
+  for (const mm of lengths) {
+    let i = Math.min(binCount - 1, Math.floor(mm / MM_PER_INCH / BIN_IN));
+    while (i > 0 && mm < histogram[i].fromMm) i--;
+    while (i + 1 < binCount && mm >= histogram[i + 1].fromMm) i++;
+    histogram[i].count++;
+  }
+  if (n > 0) for (const bin of histogram) bin.percent = (bin.count / n) * 100;
+
+  const buckets: LengthBucketResult[] = specs.map(spec => {
+    const count = lengths.filter(mm => mm >= spec.minLengthIn * MM_PER_INCH).length;
+    const percent = n > 0 ? (count / n) * 100 : 0;
+    return { ...spec, count, percent, pass: percent >= spec.minPercent };
+  });
+
+  return {
+    strips: measured.map((s, i) => ({ stripId: s.id, lengthMm: lengths[i] })),
+    clippedStrips: strips.length - measured.length,
+    meanLengthMm, medianLengthMm,
+    histogram, buckets,
+    pass: n > 0 && buckets.every(b => b.pass),
+  };
+}
+
+// ─── Cut-size conformity ─────────────────────────────────────
+
+export type CutSize = 'thin' | 'standard' | 'thick';
+export type SliverClass = 'sliver_1_4' | 'sliver_3_8' | 'sliver_7_16' | 'sliver_9_16';
+
+export const CUT_SIZES: Record<CutSize, { label: string; width: { min: number; max: number } }> = {
+  thin:     { label: 'Thin (1/4" – 5/16")', width: MCCAIN_SIZE_REFERENCE.strip_width_thin },
+  standard: { label: 'Standard (3/8")',     width: MCCAIN_SIZE_REFERENCE.strip_width_standard },
+  thick:    { label: 'Thick (7/16" – 9/16")', width: MCCAIN_SIZE_REFERENCE.strip_width_thick },
+};
+
+export const SLIVER_CLASSES: SliverClass[] = ['sliver_1_4', 'sliver_3_8', 'sliver_7_16', 'sliver_9_16'];
+
+// Knife wear and blanching swell — accepted deviation around the nominal width
+export const CUT_SIZE_TOLERANCE_MM = 1;
+
+// A strip is a sliver when it is much narrower than the cut, or wedge-shaped
+const SLIVER_WIDTH_RATIO = 0.6; // median width < 60% of the cut's minimum
+const SLIVER_TAPER_RATIO = 0.5; // narrowest section < 50% of the median
+
+export interface StripWidth {
+  stripId: number;
+  widthMm: number;     // median cross-section width
+  minWidthMm: number;  // narrowest cross-section (10th percentile)
+  inSpec: boolean;
+  sliver: SliverClass | null;
+}
+
+export interface CutSizeConformity {
+  cutSize: CutSize;
+  specMinMm: number;
+  specMaxMm: number;
+  strips: StripWidth[];
+  meanWidthMm: number;
+  outOfSpecPercent: number;
+  sliverCount: number;
+  sliverCounts: Record<SliverClass, number>;
+}
+
+/**
+ * Cross-section width along the strip: the mask is sliced perpendicular to
+ * the principal axis at every pixel step, and the extent of each slice is
+ * its width. The outer 10% at each end is skipped so rounded tips do not
+ * read as narrow sections.
+ */
+export function measureStripWidthMm(strip: FryInstance, ppm: number): { widthMm: number; minWidthMm: number } {
+  const { mask, axis } = strip;
+  const { direction: u, head } = axis;
+  const slices = Math.max(1, Math.ceil(axis.length));
+  const lo = new Float64Array(slices).fill(Infinity);
+  const hi = new Float64Array(slices).fill(-Infinity);
+
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      if (!mask.data[y * mask.width + x]) continue;
+      const dx = x + mask.x - head.x, dy = y + mask.y - head.y;
+      const a = Math.min(slices - 1, Math.max(0, Math.floor(dx * u.x + dy * u.y)));
+      const b = -dx * u.y + dy * u.x;
+      if (b < lo[a]) lo[a] = b;
+      if (b > hi[a]) hi[a] = b;
+    }
+  }
+
+  const from = Math.floor(slices * 0.1), to = Math.max(from + 1, Math.ceil(slices * 0.9));
+  const widths: number[] = [];
+  for (let a = from; a < to && a < slices; a++) if (hi[a] >= lo[a]) widths.push(hi[a] - lo[a] + 1);
+  if (widths.length === 0) return { widthMm: pixelsToMm(axis.width, ppm), minWidthMm: pixelsToMm(axis.width, ppm) };
+
+  widths.sort((p, q) => p - q);
+  return {
+    widthMm: pixelsToMm(widths[Math.floor(widths.length / 2)], ppm),
+    minWidthMm: pixelsToMm(widths[Math.floor(widths.length * 0.1)], ppm),
+  };
+}
+
+/** Smallest sliver gauge the strip's cross-section fits through */
+function sliverClassFor(widthMm: number): SliverClass {
+  for (const cls of SLIVER_CLASSES) if (widthMm <= MCCAIN_SIZE_REFERENCE[cls].width) return cls;
+  return 'sliver_9_16';
+}
+
+export function gradeCutSize(strips: FryInstance[], ppm: number, cutSize: CutSize = 'standard'): CutSizeConformity {
+  const nominal = CUT_SIZES[cutSize].width;
+  const specMinMm = nominal.min - CUT_SIZE_TOLERANCE_MM;
+  const specMaxMm = nominal.max + CUT_SIZE_TOLERANCE_MM;
+
+  const sliverCounts = Object.fromEntries(SLIVER_CLASSES.map(c => [c, 0])) as Record<SliverClass, number>;
+  const widths: StripWidth[] = strips.map(strip => {
+    const { widthMm, minWidthMm } = measureStripWidthMm(strip, ppm);
+    const isSliver = widthMm < nominal.min * SLIVER_WIDTH_RATIO || minWidthMm < widthMm * SLIVER_TAPER_RATIO;
+    const sliver = isSliver ? sliverClassFor(widthMm) : null;
+    if (sliver) sliverCounts[sliver]++;
+    return { stripId: strip.id, widthMm, minWidthMm, inSpec: widthMm >= specMinMm && widthMm <= specMaxMm, sliver };
+  });
+
+  const n = widths.length;
+  return {
+    cutSize, specMinMm, specMaxMm,
+    strips: widths,
+    meanWidthMm: n > 0 ? widths.reduce((sum, w) => sum + w.widthMm, 0) / n : 0,
+    outOfSpecPercent: n > 0 ? (widths.filter(w => !w.inSpec).length / n) * 100 : 0,
+    sliverCount: widths.filter(w => w.sliver).length,
+    sliverCounts,
+  };
+}
@@ -0,0 +1,244 @@
+// Spec Profiles - named, versioned product specifications (per SKU / customer)
+
+import type { LabColor } from './colorAnalysis';
+import { parseDefectClassifier, type DefectClassifierModel } from './defectClassifier';
+import { CUT_SIZES, DEFAULT_LENGTH_SPECS, type CutSize, type LengthSpec } from './sizeGrading';
+
+/** Pixel rules of the defect detector (HSV, 0-1 for S/V, degrees for hue) */
+export interface DefectThresholds {
+  burntMaxV: number;
+  burntMaxS: number;
+  darkMinVDrop: number;      // V below the sample mean
+  darkMinS: number;
+  lightMinV: number;
+  lightMaxS: number;
+  mottledMinHueDiff: number; // hue away from the sample mean
+  mottledMinVDrop: number;
+  greeningMinHue: number;    // green band on fry flesh, degrees
+  greeningMaxHue: number;
+  greeningMinS: number;
+  diseaseMinVDrop: number;   // grey / blue-grey spot below the sample mean (black spot, bruise)
+  voidMaxDeltaE: number;     // ΔE76 of an enclosed hole from the background (hollow heart)
+  minSeverity: number;       // mean blob severity to report
+}
+
+/** Sugar-end grading: L* drop at a strip tip relative to the strip body */
+export interface SugarEndSpec {
+  endZoneMm: number;     // tip zone measured along the strip axis
+  slightDropL: number;   // tip darker than body by at least this → slight
+  moderateDropL: number;
+  severeDropL: number;
+}
+
+/** Salt / seasoning specks, masked as artifacts on seasoned SKUs */
+export interface SeasoningSpec {
+  color: LabColor | null;   // seasoning colour (null = salt only)
+  toleranceDeltaE: number;  // ΔE2000 from the seasoning colour
+  saltMaxChroma: number;    // C*ab of a near-neutral salt crystal
+  minContrastL: number;     // speck L* against the surrounding fry
+  maxSpeckMm2: number;      // larger blobs are never seasoning
+}
+
+export interface HueBand {
+  score: number;
+  label: string;
+  hsvHue: [number, number]; // inclusive range, degrees
+  saturationAbove?: number;  // band applies only to a mean S above this
+  saturationAtMost?: number; // ... and at or below this
+  description: string;
+}
+
+/** Agtron readings below `belowAgtron` grade as `usdaScore` (bands ascending) */
+export interface UsdaBand { belowAgtron: number; usdaScore: number; }
+
+/** Measurement cut-offs of the attribute scores, ascending toward 9 */
+export interface ScoreCutoffs {
+  mottledStripShare: [number, number, number];     // mottled-strip share at or above → 7, 8, 9 (any mottled strip → 6)
+  defectPoints: [number, number, number, number];  // template points above → 6, 7, 8, 9
+}
+
+export type Disposition = 'PASS' | 'HOLD' | 'REJECT';
+
+export interface DispositionLimits {
+  passPqi: number; // PQI at or above → PASS
+  holdPqi: number; // PQI at or above → HOLD, below → REJECT
+}
+
+export interface SpecProfile {
+  id: string;
+  name: string;
+  version: number;
+  updatedAt: string;
+  targetLab: LabColor;            // ΔE2000 reference colour
+  defectThresholds: DefectThresholds;
+  sugarEnds: SugarEndSpec;
+  seasoning: SeasoningSpec;
+  hueChart: HueBand[];            // tried in order, first match wins
+  agtronTarget: [number, number]; // Agtron range graded USDA 0.5
+  usdaBands: UsdaBand[];
+  usdaAbove: number;              // USDA score past the last band
+  scoreCutoffs: ScoreCutoffs;
+  limits: DispositionLimits;
+  lengthSpecs: LengthSpec[];
+  cutSize: CutSize;
+  disabledStages: string[];       // optional pipeline stages switched off (see OPTIONAL_STAGES)
+  defectClassifier: DefectClassifierModel | null; // types defect blobs instead of the HSV rules (null = rules)
+}
+
+export const DEFAULT_SCORE_CUTOFFS: ScoreCutoffs = {
+  mottledStripShare: [0.1, 0.2, 0.3],
+  defectPoints: [5, 12, 20, 30],
+};
+
+/**
+ * The engine's original hue grading, band for band. Order settles the shared
+ * edges: the target owns 25° and 40°, and a mean S above 0.7 grades strong
+ * yellow everywhere except the creamy and yellow-flesh bands.
+ */
+export const DEFAULT_HUE_CHART: HueBand[] = [
+  { score: 5, label: 'Bright Light Golden (Target)', hsvHue: [25, 40], saturationAtMost: 0.7, description: 'Bright light golden cooked fry' },
+  { score: 8, label: 'Strong Yellow — Large Difference', hsvHue: [0, 40], saturationAbove: 0.7, description: 'Over-saturated colour' },
+  { score: 6, label: 'Creamy Yellow', hsvHue: [40, 55], description: 'Cream to light yellow flesh' },
+  { score: 7, label: 'Yellow Flesh', hsvHue: [55, 70], description: 'Noticeably yellow flesh' },
+  { score: 8, label: 'Strong Yellow — Large Difference', hsvHue: [70, 360], description: 'Strong yellow, large difference' },
+  { score: 4, label: 'Slightly Under-colored', hsvHue: [20, 25], description: 'Pale, under-developed colour' },
+  { score: 9, label: 'Bright Yellow / Off-Color', hsvHue: [0, 20], description: 'Not McDonald\'s quality' },
+];
+
+export const DEFAULT_SPEC_PROFILE: SpecProfile = {
+  id: 'mcd-standard',
+  name: "McDonald's Standard",
+  version: 1,
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  // "McDonald's Gold": bright light golden (USDA 0.5 target)
+  targetLab: { L: 72.0, a: 8.5, b: 42.0 },
+  defectThresholds: {
+    burntMaxV: 0.22, burntMaxS: 0.35,
+    darkMinVDrop: 0.28, darkMinS: 0.18,
+    lightMinV: 0.87, lightMaxS: 0.22,
+    mottledMinHueDiff: 28, mottledMinVDrop: 0.08,
+    greeningMinHue: 65, greeningMaxHue: 170, greeningMinS: 0.15,
+    diseaseMinVDrop: 0.25,
+    voidMaxDeltaE: 15,
+    minSeverity: 0.15,
+  },
+  sugarEnds: { endZoneMm: 10, slightDropL: 6, moderateDropL: 12, severeDropL: 20 },
+  seasoning: { color: null, toleranceDeltaE: 15, saltMaxChroma: 10, minContrastL: 12, maxSpeckMm2: 2 },
+  hueChart: DEFAULT_HUE_CHART,
+  agtronTarget: [58, 68],
+  usdaBands: [
+    { belowAgtron: 40, usdaScore: 0.0 },
+    { belowAgtron: 50, usdaScore: 0.2 },
+    { belowAgtron: 58, usdaScore: 0.4 },
+    { belowAgtron: 70, usdaScore: 0.6 },
+    { belowAgtron: 80, usdaScore: 0.8 },
+  ],
+  usdaAbove: 1.0,
+  scoreCutoffs: DEFAULT_SCORE_CUTOFFS,
+  limits: { passPqi: 75, holdPqi: 60 },
+  lengthSpecs: DEFAULT_LENGTH_SPECS,
+  cutSize: 'standard',
+  disabledStages: [],
+  defectClassifier: null,
+};
+
+export const DISPOSITION_COLORS: Record<Disposition, string> = {
+  PASS: 'hsl(142 70% 45%)',
+  HOLD: 'hsl(42 95% 52%)',
+  REJECT: 'hsl(0 75% 55%)',
+};
+
+export function getDisposition(pqi: number, limits: DispositionLimits): Disposition {
+  if (pqi >= limits.passPqi) return 'PASS';
+  if (pqi >= limits.holdPqi) return 'HOLD';
+  return 'REJECT';
+}
+
+/** Copy of `base` under a new identity, starting again at version 1 */
+export function createSpecProfile(name: string, base: SpecProfile = DEFAULT_SPEC_PROFILE): SpecProfile {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile';
+  return {
+    ...structuredClone(base),
+    id: `${slug}-${Date.now().toString(36)}`,
+    name,
+    version: 1,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Every change yields a new version; earlier versions stay intact wherever
+ * they were stored (results, batch records) so old grades remain explainable.
+ */
+export function reviseSpecProfile(profile: SpecProfile, patch: Partial<Omit<SpecProfile, 'id' | 'version' | 'updatedAt'>>): SpecProfile {
+  return {
+    ...profile,
+    ...structuredClone(patch),
+    version: profile.version + 1,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function formatSpecProfile(profile: Pick<SpecProfile, 'name' | 'version'>): string {
+  return `${profile.name} v${profile.version}`;
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumbers = (v: unknown, length: number) => Array.isArray(v) && v.length === length && v.every(isNumber);
+const isLab = (v: unknown) => isRecord(v) && isNumber(v.L) && isNumber(v.a) && isNumber(v.b);
+
+/** Names of the fields of `shape` that `value` lacks as numbers */
+function missingNumbers(value: unknown, shape: object, except: string[] = []): string[] {
+  const keys = Object.keys(shape).filter(k => !except.includes(k));
+  return isRecord(value) ? keys.filter(k => !isNumber(value[k])) : keys;
+}
+
+/** A spec profile read from JSON (a file, an import); throws naming the first field that is not in shape */
+export function parseSpecProfile(json: unknown): SpecProfile {
+  if (!isRecord(json)) throw new Error('Not a spec profile');
+  const p = json as Partial<Record<keyof SpecProfile, unknown>>;
+  const bad = (field: string, detail: string) => new Error(`Spec profile ${field} ${detail}`);
+  if (typeof p.id !== 'string' || typeof p.name !== 'string' || !isNumber(p.version) || typeof p.updatedAt !== 'string') {
+    throw bad('identity', 'needs a string id, name and updatedAt and a numeric version');
+  }
+  if (!isLab(p.targetLab)) throw bad('targetLab', 'must be { L, a, b }');
+  const groups = [
+    ['defectThresholds', p.defectThresholds, DEFAULT_SPEC_PROFILE.defectThresholds, []],
+    ['sugarEnds', p.sugarEnds, DEFAULT_SPEC_PROFILE.sugarEnds, []],
+    ['seasoning', p.seasoning, DEFAULT_SPEC_PROFILE.seasoning, ['color']],
+    ['limits', p.limits, DEFAULT_SPEC_PROFILE.limits, []],
+  ] as const;
+  for (const [field, value, shape, except] of groups) {
+    const missing = missingNumbers(value, shape, [...except]);
+    if (missing.length) throw bad(field, `lacks numeric ${missing.join(', ')}`);
+  }
+  const { color } = p.seasoning as Record<string, unknown>;
+  if (color !== null && !isLab(color)) throw bad('seasoning.color', 'must be { L, a, b } or null');
+  if (!Array.isArray(p.hueChart) || p.hueChart.length === 0 || !p.hueChart.every(b =>
+    isRecord(b) && isNumber(b.score) && typeof b.label === 'string' && isNumbers(b.hsvHue, 2)
+    && (b.saturationAbove == null || isNumber(b.saturationAbove)) && (b.saturationAtMost == null || isNumber(b.saturationAtMost)))) {
+    throw bad('hueChart', 'must be a list of { score, label, hsvHue: [from, to] } bands');
+  }
+  if (!isNumbers(p.agtronTarget, 2)) throw bad('agtronTarget', 'must be [low, high]');
+  if (!Array.isArray(p.usdaBands) || !p.usdaBands.every(b => isRecord(b) && isNumber(b.belowAgtron) && isNumber(b.usdaScore))) {
+    throw bad('usdaBands', 'must be a list of { belowAgtron, usdaScore }');
+  }
+  if (!isNumber(p.usdaAbove)) throw bad('usdaAbove', 'must be a number');
+  const cutoffs = p.scoreCutoffs;
+  if (!isRecord(cutoffs) || !isNumbers(cutoffs.mottledStripShare, 3) || !isNumbers(cutoffs.defectPoints, 4)) {
+    throw bad('scoreCutoffs', 'needs 3 mottledStripShare and 4 defectPoints cut-offs');
+  }
+  if (!Array.isArray(p.lengthSpecs) || !p.lengthSpecs.every(l =>
+    isRecord(l) && typeof l.label === 'string' && isNumber(l.minLengthIn) && isNumber(l.minPercent))) {
+    throw bad('lengthSpecs', 'must be a list of { label, minLengthIn, minPercent }');
+  }
+  if (typeof p.cutSize !== 'string' || !(p.cutSize in CUT_SIZES)) {
+    throw bad('cutSize', `must be one of ${Object.keys(CUT_SIZES).join(', ')}`);
+  }
+  if (!Array.isArray(p.disabledStages) || !p.disabledStages.every(id => typeof id === 'string')) {
+    throw bad('disabledStages', 'must be a list of stage ids');
+  }
+  if (p.defectClassifier !== null) parseDefectClassifier(p.defectClassifier);
+  return json as unknown as SpecProfile;
+}
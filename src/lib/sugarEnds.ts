@@ -0,0 +1,171 @@
+// Sugar Ends - tip zones from each strip's principal axis, graded by the L* gradient toward the tip
+
+import { rgbToLab, type RgbaRaster } from './colorAnalysis';
+import { pixelsToMm } from './calibration';
+import { axialPosition, type FryInstance, type Point } from './segmentation';
+import type { SugarEndSpec } from './specProfiles';
+
+export type SugarEndGrade = 'none' | 'slight' | 'moderate' | 'severe';
+
+export const SUGAR_END_GRADES: SugarEndGrade[] = ['none', 'slight', 'moderate', 'severe'];
+
+export interface StripEnd {
+  end: 'head' | 'tail';
+  point: Point;        // axis end point
+  clipped: boolean;    // cut off by the frame edge — not a real tip, never graded
+  tipL: number;        // mean L* over the outer third of the tip zone
+  dropL: number;       // strip body L* − tipL
+  gradientL: number;   // inner-third L* − tipL; positive when the strip darkens toward the tip
+  extentMm: number;    // how far in from the tip the darkening reaches
+  grade: SugarEndGrade;
+}
+
+export interface StripSugarEnds {
+  stripId: number;
+  bodyL: number;       // median L* along the middle of the strip
+  tipZonePx: number;   // tip zone length actually used (capped at a third of the strip)
+  head: StripEnd;
+  tail: StripEnd;
+  grade: SugarEndGrade; // worse of the two ends
+}
+
+/** Pixels of a graded end, for the defect overlay / scoring */
+export interface SugarEndZone {
+  stripId: number;
+  end: 'head' | 'tail';
+  grade: SugarEndGrade;
+  pixels: number[];    // image indices
+}
+
+export interface SugarEndAnalysis {
+  strips: StripSugarEnds[];
+  zones: SugarEndZone[];
+}
+
+const CLIP_MARGIN_PX = 2;
+
+export function worseGrade(a: SugarEndGrade, b: SugarEndGrade): SugarEndGrade {
+  return SUGAR_END_GRADES.indexOf(a) >= SUGAR_END_GRADES.indexOf(b) ? a : b;
+}
+
+/** Distance from a point to the nearer end of the strip, along its long axis, px */
+export function distanceToTip(strip: FryInstance, p: Point): { end: 'head' | 'tail'; distance: number } {
+  const t = axialPosition(strip, p.x, p.y);
+  const span = Math.max(1, strip.axis.length - 1);
+  return t <= 0.5 ? { end: 'head', distance: t * span } : { end: 'tail', distance: (1 - t) * span };
+}
+
+/** The unclipped tip zone a point falls in, if any */
+export function tipZoneAt(report: StripSugarEnds, strip: FryInstance, p: Point): 'head' | 'tail' | null {
+  const { end, distance } = distanceToTip(strip, p);
+  if (report[end].clipped || distance > report.tipZonePx) return null;
+  return end;
+}
+
+function gradeDrop(dropL: number, spec: SugarEndSpec): SugarEndGrade {
+  if (dropL >= spec.severeDropL) return 'severe';
+  if (dropL >= spec.moderateDropL) return 'moderate';
+  if (dropL >= spec.slightDropL) return 'slight';
+  return 'none';
+}
+
+function isClippedPoint(p: Point, width: number, height: number): boolean {
+  return p.x <= CLIP_MARGIN_PX || p.y <= CLIP_MARGIN_PX || p.x >= width - 1 - CLIP_MARGIN_PX || p.y >= height - 1 - CLIP_MARGIN_PX;
+}
+
+function analyzeStrip(
+  raster: RgbaRaster, strip: FryInstance, ppm: number, spec: SugarEndSpec, exclude?: Uint8Array,
+): { report: StripSugarEnds; zones: SugarEndZone[] } {
+  const { data, width, height } = raster;
+  const span = Math.max(1, strip.axis.length - 1);
+  const bins = Math.ceil(span) + 1;
+  const tipZonePx = Math.min(spec.endZoneMm * ppm, span / 3);
+
+  // Axial L* profile from head (bin 0) to tail
+  const sumL = new Float64Array(bins), count = new Float64Array(bins);
+  const pixels: number[] = [], positions: number[] = [];
+  const { mask } = strip;
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      if (!mask.data[y * mask.width + x]) continue;
+      const gx = x + mask.x, gy = y + mask.y, i = gy * width + gx;
+      const pos = axialPosition(strip, gx, gy) * span;
+      if (exclude?.[i]) continue;
+      pixels.push(i); positions.push(pos);
+      const bin = Math.round(pos);
+      sumL[bin] += rgbToLab(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]).L;
+      count[bin]++;
+    }
+  }
+
+  const middle: number[] = [];
+  for (let b = 0; b < bins; b++) if (count[b] && b >= tipZonePx && b <= span - tipZonePx) middle.push(sumL[b] / count[b]);
+  middle.sort((a, b) => a - b);
+  const bodyL = middle.length ? middle[Math.floor(middle.length / 2)] : 0;
+
+  const gradeEnd = (end: 'head' | 'tail'): StripEnd => {
+    const point = end === 'head' ? strip.axis.head : strip.axis.tail;
+    const binAt = (d: number) => (end === 'head' ? d : bins - 1 - d);
+    const meanOver = (from: number, to: number) => {
+      let s = 0, n = 0;
+      for (let d = Math.floor(from); d < Math.ceil(to) && d < bins; d++) { s += sumL[binAt(d)]; n += count[binAt(d)]; }
+      return n ? s / n : bodyL;
+    };
+    const tipL = meanOver(0, tipZonePx / 3);
+    const innerL = meanOver((tipZonePx * 2) / 3, tipZonePx);
+    const dropL = bodyL - tipL;
+    const gradientL = innerL - tipL;
+
+    // Darkening reach: walk inward while the profile stays a slight drop below the body
+    let extentPx = 0;
+    for (let d = 0; d < bins / 2; d++) {
+      const b = binAt(d);
+      if (!count[b]) continue;
+      if (bodyL - sumL[b] / count[b] < spec.slightDropL) break;
+      extentPx = d + 1;
+    }
+
+    const clipped = isClippedPoint(point, width, height);
+    const graded = !clipped && middle.length > 0 && gradientL >= spec.slightDropL / 2;
+    return {
+      end, point, clipped, tipL, dropL, gradientL,
+      extentMm: pixelsToMm(extentPx, ppm),
+      grade: graded ? gradeDrop(dropL, spec) : 'none',
+    };
+  };
+
+  const head = gradeEnd('head'), tail = gradeEnd('tail');
+  const zones: SugarEndZone[] = [];
+  for (const e of [head, tail]) {
+    if (e.grade === 'none') continue;
+    const reach = Math.max(e.extentMm * ppm, tipZonePx / 3);
+    zones.push({
+      stripId: strip.id, end: e.end, grade: e.grade,
+      pixels: pixels.filter((_, k) => (e.end === 'head' ? positions[k] : span - positions[k]) < reach),
+    });
+  }
+
+  return {
+    report: { stripId: strip.id, bodyL, tipZonePx, head, tail, grade: worseGrade(head.grade, tail.grade) },
+    zones,
+  };
+}
+
+/**
+ * Grades both ends of every strip. The tip zone is the last `endZoneMm` along
+ * the principal axis; an end is a sugar end when the strip darkens toward it
+ * (inner → outer third of the zone) and the tip sits below the strip body by
+ * the spec's L* drop. Ends cut off by the frame are reported but not graded.
+ * `exclude` (glare, seasoning) is left out of both the L* profile and the zones.
+ */
+export function analyzeSugarEnds(
+  raster: RgbaRaster, strips: FryInstance[], ppm: number, spec: SugarEndSpec, exclude?: Uint8Array,
+): SugarEndAnalysis {
+  const result: SugarEndAnalysis = { strips: [], zones: [] };
+  for (const strip of strips) {
+    const { report, zones } = analyzeStrip(raster, strip, ppm, spec, exclude);
+    result.strips.push(report);
+    result.zones.push(...zones);
+  }
+  return result;
+}
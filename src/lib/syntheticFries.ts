@@ -0,0 +1,318 @@
+// Synthetic Fries - seeded tray images with known strips and defects, for engine regression tests
+
+import { rgbToHsv, rgbToLab, type DefectRegion, type LabColor, type RGBColor, type RgbaRaster } from './colorAnalysis';
+import { USDA_COLOR_CHART } from './pqiEngine';
+import type { BoundingBox, Point } from './segmentation';
+
+export type SyntheticDefectType = Extract<DefectRegion['type'], 'burnt' | 'dark' | 'sugar_end' | 'mottled' | 'shadow' | 'glare'>;
+
+export const SYNTHETIC_DEFECT_TYPES: SyntheticDefectType[] = ['burnt', 'dark', 'sugar_end', 'mottled', 'shadow', 'glare'];
+
+export interface SyntheticDefect {
+  type: SyntheticDefectType;
+  at?: number;      // 0-1 along the strip from its head; sugar ends take the nearer end (default: seeded)
+  across?: number;  // 0-1 across the strip; shadows take the nearer long edge (default 0.5)
+  sizeMm?: number;  // spot diameter, mottled / shadow span, sugar-end zone length
+  dropL?: number;   // L* drop for dark spots and sugar ends (at the tip)
+}
+
+export interface SyntheticStrip {
+  lengthMm: number;
+  widthMm?: number;   // default 9.5 (3/8")
+  angleDeg?: number;  // long axis from +x, clockwise on screen (default 0)
+  center?: Point;     // mm from the top-left; default: one row per strip
+  lab?: LabColor;     // flesh colour …
+  usda?: number;      // … or a USDA colour-chart value (default 0.5, the target)
+  defects?: SyntheticDefect[];
+}
+
+export interface SyntheticScene {
+  seed: number;
+  ppm: number;
+  widthMm: number;
+  heightMm: number;
+  background?: RGBColor; // tray colour (default near-white)
+  noise?: number;        // per-channel pixel noise, 8-bit levels (default 2)
+  strips: SyntheticStrip[];
+}
+
+export interface SyntheticStripTruth {
+  index: number;
+  center: Point;       // px
+  lengthMm: number;
+  widthMm: number;
+  angleDeg: number;
+  lab: LabColor;       // flesh colour before defects and noise
+  area: number;        // px
+}
+
+export interface SyntheticDefectTruth extends BoundingBox {
+  type: SyntheticDefectType;
+  stripIndex: number;
+  area: number;        // visible px (later defects paint over earlier ones)
+  areamm2: number;
+  centroid: Point;
+  isArtifact: boolean; // shadows and glare, which the engine must not score
+}
+
+export interface SyntheticImage {
+  raster: RgbaRaster;
+  ppm: number;
+  strips: SyntheticStripTruth[];
+  defects: SyntheticDefectTruth[];
+  /** Per pixel: 0 = tray, else 1 + index into `defects` (-1 - strip index for clean fry) */
+  labels: Int32Array;
+}
+
+const DEFAULT_WIDTH_MM = 9.5;
+const DEFAULT_BACKGROUND: RGBColor = { r: 244, g: 244, b: 242 };
+const DEFAULT_SIZE_MM: Record<SyntheticDefectType, (strip: { lengthMm: number }) => number> = {
+  burnt: () => 4,
+  dark: () => 5,
+  sugar_end: () => 12,
+  mottled: s => s.lengthMm * 0.45, // past the 1/3 rule
+  shadow: s => s.lengthMm,         // cast by a neighbouring strip, along the whole edge
+  glare: () => 1.5,                // well under the glare mask's blob limit
+};
+const DEFAULT_DROP_L: Partial<Record<SyntheticDefectType, number>> = { dark: 35, sugar_end: 26 };
+const BURNT_RGB: RGBColor = { r: 44, g: 38, b: 31 };
+const MOTTLED_HUE = 3;
+const GLARE_RGB: RGBColor = { r: 252, g: 251, b: 248 };
+
+// ─── Seeded Random ───────────────────────────────────────────
+
+/** mulberry32: small, fast and identical on every platform */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ─── Colour ──────────────────────────────────────────────────
+
+/** Inverse of rgbToLab (D65, sRGB), clamped to 0-255 */
+function labToRgb({ L, a, b }: LabColor): RGBColor {
+  const fy = (L + 16) / 116, fx = fy + a / 500, fz = fy - b / 200;
+  const inv = (t: number) => (t > 0.206893 ? t * t * t : (t - 16 / 116) / 7.787);
+  const X = inv(fx) * 0.9505, Y = inv(fy), Z = inv(fz) * 1.089;
+  const lin = [
+    3.2406 * X - 1.5372 * Y - 0.4986 * Z,
+    -0.9689 * X + 1.8758 * Y + 0.0415 * Z,
+    0.0557 * X - 0.2040 * Y + 1.0570 * Z,
+  ];
+  const [r, g, bb] = lin.map(c => {
+    const v = c > 0.0031308 ? 1.055 * Math.pow(c, 1 / 2.4) - 0.055 : 12.92 * c;
+    return Math.max(0, Math.min(255, v * 255));
+  });
+  return { r, g, b: bb };
+}
+
+function hsvToRgb(h: number, s: number, v: number): RGBColor {
+  const c = v * s, hp = (((h % 360) + 360) % 360) / 60, x = c * (1 - Math.abs((hp % 2) - 1)), m = v - c;
+  const [r, g, b] = hp < 1 ? [c, x, 0] : hp < 2 ? [x, c, 0] : hp < 3 ? [0, c, x] : hp < 4 ? [0, x, c] : hp < 5 ? [x, 0, c] : [c, 0, x];
+  return { r: (r + m) * 255, g: (g + m) * 255, b: (b + m) * 255 };
+}
+
+/** Flesh colour of a USDA colour-chart value, interpolated between chart entries */
+export function usdaToLab(usda: number): LabColor {
+  const chart = USDA_COLOR_CHART;
+  const hi = Math.max(1, chart.findIndex(c => c.usdaValue >= usda));
+  const [a, b] = usda > chart[chart.length - 1].usdaValue
+    ? [chart[chart.length - 2], chart[chart.length - 1]]
+    : [chart[hi - 1], chart[hi]];
+  const t = Math.max(0, Math.min(1, (usda - a.usdaValue) / (b.usdaValue - a.usdaValue)));
+  const mix = (p: number, q: number) => p + (q - p) * t;
+  const { r, g, b: bb } = hsvToRgb(mix(a.hue, b.hue), mix(a.saturation, b.saturation), mix(a.brightness, b.brightness));
+  return rgbToLab(r, g, bb);
+}
+
+// ─── Rendering ───────────────────────────────────────────────
+
+interface PlacedDefect {
+  type: SyntheticDefectType;
+  u: number; v: number;  // centre in strip coordinates, mm
+  size: number;
+  dropL: number;
+  sign: number;          // sugar ends: -1 head / +1 tail; shadows: long edge
+}
+
+/** Whether (u, v) in strip mm falls in the defect, and how strongly (0-1) */
+function defectWeight(d: PlacedDefect, u: number, v: number, lengthMm: number, widthMm: number): number {
+  switch (d.type) {
+    case 'burnt': case 'dark': case 'glare':
+      return (u - d.u) ** 2 + (v - d.v) ** 2 <= (d.size / 2) ** 2 ? 1 : 0;
+    case 'mottled':
+      return Math.abs(u - d.u) <= d.size / 2 ? 1 : 0;
+    case 'shadow':
+      return Math.abs(u - d.u) <= d.size / 2 && d.sign * v >= widthMm * 0.1 ? 1 : 0;
+    case 'sugar_end': {
+      const fromTip = lengthMm / 2 - d.sign * u;
+      return fromTip < d.size ? 1 - fromTip / d.size : 0;
+    }
+  }
+}
+
+function defectColour(d: PlacedDefect, base: LabColor, weight: number): RGBColor {
+  switch (d.type) {
+    case 'burnt': return BURNT_RGB;
+    case 'glare': return GLARE_RGB;
+    case 'dark': case 'sugar_end':
+      return labToRgb({ ...base, L: base.L - d.dropL * weight });
+    case 'mottled': {
+      // Red-brown and a little darker: the engine's mottling rule is a hue shift
+      // with a V drop. Kept just above 0°, as noise across 360° would wrap the hue.
+      const { r, g, b } = labToRgb(base);
+      const hsv = rgbToHsv(r, g, b);
+      return hsvToRgb(MOTTLED_HUE, Math.max(0.9, hsv.s), Math.max(0, hsv.v - 0.16));
+    }
+    case 'shadow': {
+      // Cast shadow: grey-blue and desaturated, dark enough for the shadow rule
+      // but not so dark that its edge, blended with the fry, reads as a dark spot
+      const { r, g, b } = labToRgb(base);
+      const hsv = rgbToHsv(r, g, b);
+      return hsvToRgb(220, hsv.s * 0.25, hsv.v * 0.55);
+    }
+  }
+}
+
+/**
+ * Renders a scene: straight-cut strips on a flat tray, each defect painted in
+ * the strip's own coordinates, plus seeded per-channel noise. The same scene
+ * (including its seed) always gives the same pixels. Ground truth is read
+ * back from what was actually painted, so overlapping defects are counted
+ * once, under the one drawn last.
+ */
+export function generateSyntheticFries(scene: SyntheticScene): SyntheticImage {
+  const { ppm, strips } = scene;
+  const random = seededRandom(scene.seed);
+  const width = Math.round(scene.widthMm * ppm), height = Math.round(scene.heightMm * ppm);
+  const background = scene.background ?? DEFAULT_BACKGROUND;
+  const noise = scene.noise ?? 2;
+
+  const placed = strips.map((s, index) => {
+    const widthMm = s.widthMm ?? DEFAULT_WIDTH_MM;
+    const angleDeg = s.angleDeg ?? 0;
+    const center = s.center ?? { x: scene.widthMm / 2, y: (scene.heightMm * (index + 1)) / (strips.length + 1) };
+    const lab = s.lab ?? usdaToLab(s.usda ?? 0.5);
+    const defects: PlacedDefect[] = (s.defects ?? []).map(spec => {
+      const at = spec.at ?? random();
+      const across = spec.across ?? 0.5;
+      const size = spec.sizeMm ?? DEFAULT_SIZE_MM[spec.type](s);
+      // A mottled band is kept whole, so its share of the strip is what was asked for
+      const reach = spec.type === 'mottled' ? Math.max(0, (s.lengthMm - size) / 2) : Infinity;
+      return {
+        type: spec.type,
+        u: Math.max(-reach, Math.min(reach, (at - 0.5) * s.lengthMm)), v: (across - 0.5) * widthMm,
+        size,
+        dropL: spec.dropL ?? DEFAULT_DROP_L[spec.type] ?? 0,
+        sign: (spec.type === 'sugar_end' ? at : across) < 0.5 ? -1 : 1,
+      };
+    });
+    const rad = (angleDeg * Math.PI) / 180;
+    return { s, index, widthMm, angleDeg, center, lab, rgb: labToRgb(lab), defects, cos: Math.cos(rad), sin: Math.sin(rad) };
+  });
+  // Defect ids in the order they are drawn
+  const defectIds = new Map<PlacedDefect, number>();
+  for (const p of placed) for (const d of p.defects) defectIds.set(d, defectIds.size);
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const labels = new Int32Array(width * height);
+  const stripArea = new Array(strips.length).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      let colour = background, strip = -1;
+      const mx = (x + 0.5) / ppm, my = (y + 0.5) / ppm;
+      for (const p of placed) {
+        const dx = mx - p.center.x, dy = my - p.center.y;
+        const u = dx * p.cos + dy * p.sin, v = -dx * p.sin + dy * p.cos;
+        if (Math.abs(u) > p.s.lengthMm / 2 || Math.abs(v) > p.widthMm / 2) continue;
+        colour = p.rgb;
+        labels[i] = -1 - p.index;
+        strip = p.index;
+        for (const d of p.defects) {
+          const weight = defectWeight(d, u, v, p.s.lengthMm, p.widthMm);
+          if (weight <= 0) continue;
+          colour = defectColour(d, p.lab, weight);
+          labels[i] = 1 + defectIds.get(d)!;
+        }
+      }
+      if (strip >= 0) stripArea[strip]++;
+      // Triangular noise: the sum of two uniforms, seeded
+      data[i * 4] = colour.r + (random() + random() - 1) * noise * 2;
+      data[i * 4 + 1] = colour.g + (random() + random() - 1) * noise * 2;
+      data[i * 4 + 2] = colour.b + (random() + random() - 1) * noise * 2;
+      data[i * 4 + 3] = 255;
+    }
+  }
+
+  // Ground truth from the painted labels
+  const truth: SyntheticDefectTruth[] = [];
+  for (const p of placed) {
+    for (const d of p.defects) {
+      truth.push({
+        type: d.type, stripIndex: p.index, x: width, y: height, width: 0, height: 0,
+        area: 0, areamm2: 0, centroid: { x: 0, y: 0 }, isArtifact: d.type === 'shadow' || d.type === 'glare',
+      });
+    }
+  }
+  const maxX = new Array(truth.length).fill(-1), maxY = new Array(truth.length).fill(-1);
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] <= 0) continue;
+    const k = labels[i] - 1, t = truth[k];
+    const x = i % width, y = (i - x) / width;
+    t.area++; t.centroid.x += x; t.centroid.y += y;
+    t.x = Math.min(t.x, x); t.y = Math.min(t.y, y);
+    maxX[k] = Math.max(maxX[k], x); maxY[k] = Math.max(maxY[k], y);
+  }
+  truth.forEach((t, k) => {
+    if (t.area === 0) { t.x = 0; t.y = 0; return; }
+    t.width = maxX[k] - t.x + 1; t.height = maxY[k] - t.y + 1;
+    t.centroid = { x: t.centroid.x / t.area, y: t.centroid.y / t.area };
+    t.areamm2 = t.area / (ppm * ppm);
+  });
+
+  return {
+    raster: { data, width, height },
+    ppm,
+    strips: placed.map(p => ({
+      index: p.index, center: { x: p.center.x * ppm, y: p.center.y * ppm },
+      lengthMm: p.s.lengthMm, widthMm: p.widthMm, angleDeg: p.angleDeg, lab: p.lab, area: stripArea[p.index],
+    })),
+    defects: truth,
+    labels,
+  };
+}
+
+/**
+ * A random but reproducible scene: `count` strips in rows with a little tilt,
+ * colours around the USDA target and up to one of `defectTypes` per strip.
+ * At most one strip is mottled — the engine grades hue against the mean of
+ * the whole image, so several mottled strips start to mask each other.
+ */
+export function randomSyntheticScene(
+  seed: number,
+  { count = 4, ppm = 4, defectTypes = SYNTHETIC_DEFECT_TYPES }: { count?: number; ppm?: number; defectTypes?: SyntheticDefectType[] } = {},
+): SyntheticScene {
+  const random = seededRandom(seed ^ 0x5eed);
+  const rowMm = 18, widthMm = 110;
+  let types = defectTypes;
+  const strips: SyntheticStrip[] = Array.from({ length: count }, (_, i) => {
+    const type = types.length && random() < 0.75 ? types[Math.floor(random() * types.length)] : null;
+    if (type === 'mottled') types = types.filter(t => t !== 'mottled');
+    return {
+      lengthMm: 55 + random() * 35,
+      widthMm: 8 + random() * 3,
+      angleDeg: (random() - 0.5) * 10,
+      center: { x: widthMm / 2 + (random() - 0.5) * 6, y: rowMm * (i + 0.75) },
+      usda: 0.5 + random() * 0.15,
+      defects: type ? [{ type, at: 0.25 + random() * 0.5 }] : [],
+    };
+  });
+  return { seed, ppm, widthMm, heightMm: rowMm * (count + 0.5), strips };
+}
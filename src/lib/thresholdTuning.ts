@@ -0,0 +1,323 @@
+// Threshold Tuning - search detector thresholds and score cut-offs for agreement with panel scores
+
+import { DEFAULT_PIPELINE, type AnalysisOptions, type RgbaRaster } from './colorAnalysis';
+import { splitCsvLine } from './annotations';
+import { runPipeline, type AnalysisStage, type AppearanceScores, type PipelineState } from './pipeline';
+import { createSpecProfile, DEFAULT_SPEC_PROFILE, type DefectThresholds, type SpecProfile } from './specProfiles';
+
+export type PanelAttribute = 'processColorScore' | 'mottlingScore' | 'defectScore';
+
+export const PANEL_ATTRIBUTES: { id: PanelAttribute; column: string; label: string }[] = [
+  { id: 'processColorScore', column: 'process_color', label: 'Process colour' },
+  { id: 'mottlingScore', column: 'mottling', label: 'Mottling' },
+  { id: 'defectScore', column: 'defect', label: 'Defects' },
+];
+
+/** A panel's 1-9 attribute scores for one image (null = not scored) */
+export type PanelScores = Record<PanelAttribute, number | null>;
+
+export interface PanelScoredImage {
+  imageName: string;
+  scores: PanelScores;
+}
+
+export interface PanelScoreImport {
+  images: PanelScoredImage[];
+  warnings: string[]; // skipped rows / cells
+}
+
+const DEFAULT_MAX_ROUNDS = 3;
+const CACHED_DETECTIONS = 4; // threshold sets kept per image; a sweep only ever returns to the current best
+
+// ─── Panel scores ────────────────────────────────────────────
+
+export const PANEL_SCORE_CSV_HEADER = `image,${PANEL_ATTRIBUTES.map(a => a.column).join(',')}`;
+
+/**
+ * One image per row: `image,process_color,mottling,defect`. Scores are the
+ * panel's 1-9 attribute scores; an empty cell leaves that attribute out of
+ * the agreement for the image.
+ */
+export function parsePanelScoreCsv(text: string): PanelScoreImport {
+  const lines = text.split(/\r?\n/).filter(l => l.trim());
+  if (lines.length === 0) throw new Error('Panel score CSV is empty');
+  const header = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+  const columns = PANEL_ATTRIBUTES.filter(a => header.includes(a.column));
+  if (!header.includes('image') || columns.length === 0) {
+    throw new Error(`Panel score CSV needs an "image" column and at least one score column (${PANEL_SCORE_CSV_HEADER})`);
+  }
+
+  const warnings: string[] = [];
+  const images = new Map<string, PanelScoredImage>();
+  lines.slice(1).forEach((line, index) => {
+    const cells = splitCsvLine(line);
+    const imageName = cells[header.indexOf('image')] ?? '';
+    if (!imageName) { warnings.push(`Row ${index + 2}: no image name`); return; }
+
+    const scores: PanelScores = { processColorScore: null, mottlingScore: null, defectScore: null };
+    for (const a of columns) {
+      const cell = cells[header.indexOf(a.column)] ?? '';
+      if (cell === '') continue;
+      const score = Number(cell);
+      if (Number.isFinite(score) && score >= 1 && score <= 9) scores[a.id] = score;
+      else warnings.push(`Row ${index + 2}: ${a.column} "${cell}" is not a 1-9 score`);
+    }
+    if (PANEL_ATTRIBUTES.every(a => scores[a.id] === null)) { warnings.push(`Row ${index + 2}: no scores`); return; }
+    if (images.has(imageName)) warnings.push(`Row ${index + 2}: ${imageName} scored again, the later row is used`);
+    images.set(imageName, { imageName, scores });
+  });
+  return { images: [...images.values()], warnings };
+}
+
+// ─── Samples ─────────────────────────────────────────────────
+
+type Detections = Pick<PipelineState, 'defects' | 'stripMottling'>;
+
+/**
+ * A panel-scored image with everything upstream of defect detection already
+ * run. Candidates only change thresholds and cut-offs, so each one re-runs
+ * just the detection and scoring stages on a copy of this state.
+ */
+export interface TuningSample {
+  imageName: string;
+  panel: PanelScores;
+  ppm: number;
+  options: AnalysisOptions;
+  upstream: Partial<PipelineState>;
+  detectionStages: AnalysisStage[]; // 'defects' up to, not including, 'scoring'
+  scoring: AnalysisStage;
+  detections: Map<string, Detections>; // by threshold set, most recently used last
+}
+
+export function prepareTuningSample(
+  imageName: string, raster: RgbaRaster, ppm: number, panel: PanelScores, options: AnalysisOptions = {},
+): TuningSample {
+  const pipeline = options.pipeline ?? DEFAULT_PIPELINE;
+  const detectAt = pipeline.findIndex(s => s.id === 'defects');
+  const scoreAt = pipeline.findIndex(s => s.id === 'scoring');
+  if (detectAt < 0 || scoreAt < detectAt) throw new Error('Pipeline needs a "defects" stage followed by a "scoring" stage');
+
+  const { width, height } = raster;
+  const upstream: Partial<PipelineState> = {
+    raw: { data: new Uint8ClampedArray(raster.data.subarray(0, width * height * 4)), width, height },
+  };
+  const profile = options.profile ?? DEFAULT_SPEC_PROFILE;
+  runPipeline(pipeline.slice(0, detectAt), upstream, { ppm, profile, options });
+  return {
+    imageName, panel, ppm, options, upstream,
+    detectionStages: pipeline.slice(detectAt, scoreAt),
+    scoring: pipeline[scoreAt],
+    detections: new Map(),
+  };
+}
+
+type PanelGrade = Pick<AppearanceScores, PanelAttribute>;
+
+/** The sample's scores under `profile`; detections are reused while the thresholds stay the same */
+export function gradeTuningSample(sample: TuningSample, profile: SpecProfile): PanelGrade {
+  const ctx = { ppm: sample.ppm, profile, options: sample.options };
+  const key = JSON.stringify(profile.defectThresholds);
+  let detections = sample.detections.get(key);
+  if (detections) {
+    sample.detections.delete(key);
+  } else {
+    const state = { ...sample.upstream };
+    runPipeline(sample.detectionStages, state, ctx);
+    detections = { defects: state.defects, stripMottling: state.stripMottling };
+    if (sample.detections.size >= CACHED_DETECTIONS) sample.detections.delete(sample.detections.keys().next().value!);
+  }
+  sample.detections.set(key, detections);
+
+  const state = { ...sample.upstream, ...detections };
+  runPipeline([sample.scoring], state, ctx);
+  const { processColorScore, mottlingScore, defectScore } = state.scores!;
+  return { processColorScore, mottlingScore, defectScore };
+}
+
+// ─── Agreement ───────────────────────────────────────────────
+
+export interface AttributeAgreement {
+  attribute: PanelAttribute;
+  count: number;               // images the panel scored on this attribute
+  exact: number | null;        // share graded the same as the panel
+  withinOne: number | null;    // share within ±1
+  meanAbsError: number | null;
+}
+
+export interface AgreementReport {
+  attributes: AttributeAgreement[];
+  meanAbsError: number | null; // mean over the scored attributes — what the search minimises
+}
+
+export interface GradedSample {
+  imageName: string;
+  panel: PanelScores;
+  grade: PanelGrade;
+}
+
+export function measureAgreement(graded: GradedSample[]): AgreementReport {
+  const attributes = PANEL_ATTRIBUTES.map(({ id }) => {
+    const errors = graded.flatMap(g => (g.panel[id] === null ? [] : [Math.abs(g.grade[id] - g.panel[id]!)]));
+    const share = (ok: (e: number) => boolean) => (errors.length ? errors.filter(ok).length / errors.length : null);
+    return {
+      attribute: id,
+      count: errors.length,
+      exact: share(e => e === 0),
+      withinOne: share(e => e <= 1),
+      meanAbsError: errors.length ? errors.reduce((s, e) => s + e, 0) / errors.length : null,
+    };
+  });
+  const scored = attributes.filter(a => a.meanAbsError !== null);
+  return {
+    attributes,
+    meanAbsError: scored.length ? scored.reduce((s, a) => s + a.meanAbsError!, 0) / scored.length : null,
+  };
+}
+
+const gradeAll = (samples: TuningSample[], profile: SpecProfile): GradedSample[] =>
+  samples.map(s => ({ imageName: s.imageName, panel: s.panel, grade: gradeTuningSample(s, profile) }));
+
+// ─── Parameters ──────────────────────────────────────────────
+
+/** One searchable knob of a spec profile, as a single number */
+export interface TuningParameter {
+  id: string;
+  label: string;
+  values: number[];                      // grid searched (the starting value is always tried too)
+  initial: (base: SpecProfile) => number;
+  apply: (profile: SpecProfile, value: number, base: SpecProfile) => SpecProfile;
+}
+
+const grid = (from: number, to: number, step: number) =>
+  Array.from({ length: Math.round((to - from) / step) + 1 }, (_, i) => Math.round((from + i * step) * 1000) / 1000);
+
+const threshold = (key: keyof DefectThresholds, label: string, values: number[]): TuningParameter => ({
+  id: key, label, values,
+  initial: base => base.defectThresholds[key],
+  apply: (p, v) => ({ ...p, defectThresholds: { ...p.defectThresholds, [key]: v } }),
+});
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+
+export const TUNING_PARAMETERS: TuningParameter[] = [
+  threshold('burntMaxV', 'Burnt max V', grid(0.14, 0.3, 0.02)),
+  threshold('darkMinVDrop', 'Dark min V drop', grid(0.16, 0.4, 0.04)),
+  threshold('mottledMinHueDiff', 'Mottled min Δhue (°)', grid(16, 40, 4)),
+  threshold('mottledMinVDrop', 'Mottled min V drop', grid(0.04, 0.16, 0.02)),
+  threshold('minSeverity', 'Min blob severity', grid(0.05, 0.35, 0.05)),
+  {
+    // The Agtron target and USDA bands move together, so the process colour grid keeps its shape
+    id: 'agtronShift', label: 'Agtron bands shift', values: grid(-12, 12, 2),
+    initial: () => 0,
+    apply: (p, v, base) => ({
+      ...p,
+      agtronTarget: [base.agtronTarget[0] + v, base.agtronTarget[1] + v],
+      usdaBands: base.usdaBands.map(b => ({ ...b, belowAgtron: b.belowAgtron + v })),
+    }),
+  },
+  {
+    id: 'mottledStripShare', label: 'Mottled-strip share cut-offs (×)', values: [0.5, 0.75, 1, 1.25, 1.5, 2],
+    initial: () => 1,
+    apply: (p, v, base) => ({
+      ...p,
+      scoreCutoffs: { ...p.scoreCutoffs, mottledStripShare: base.scoreCutoffs.mottledStripShare.map(c => round3(c * v)) as [number, number, number] },
+    }),
+  },
+  {
+    id: 'defectPoints', label: 'Defect points cut-offs (×)', values: [0.5, 0.75, 1, 1.25, 1.5, 2],
+    initial: () => 1,
+    apply: (p, v, base) => ({
+      ...p,
+      scoreCutoffs: { ...p.scoreCutoffs, defectPoints: base.scoreCutoffs.defectPoints.map(c => round3(c * v)) as [number, number, number, number] },
+    }),
+  },
+];
+
+// ─── Search ──────────────────────────────────────────────────
+
+export interface TuningProgress {
+  round: number;
+  parameter: string;    // label of the parameter being swept
+  evaluations: number;  // candidate profiles graded so far
+  meanAbsError: number | null; // best so far
+}
+
+export interface TuningOptions {
+  parameters?: TuningParameter[]; // default TUNING_PARAMETERS
+  maxRounds?: number;             // full sweeps over the parameters (default 3)
+  onProgress?: (progress: TuningProgress) => void;
+}
+
+export interface ParameterChange {
+  id: string;
+  label: string;
+  from: number;
+  to: number;
+}
+
+export interface TuningResult {
+  createdAt: string;
+  imageCount: number;
+  base: Pick<SpecProfile, 'id' | 'name' | 'version'>;
+  candidate: SpecProfile; // a new profile, so the base stays what logged samples were graded with
+  changes: ParameterChange[];
+  before: AgreementReport;
+  after: AgreementReport;
+  images: { imageName: string; panel: PanelScores; before: PanelGrade; after: PanelGrade }[];
+  rounds: number;
+  evaluations: number;
+}
+
+/**
+ * Coordinate search: each round sweeps one parameter at a time over its
+ * grid with the others held, keeping a value only if it lowers the mean
+ * absolute error against the panel. Stops after a round without change.
+ * A search grades a few hundred candidates — run it off the main thread
+ * (see tuneThresholdsInWorker).
+ */
+export function tuneThresholds(samples: TuningSample[], base: SpecProfile, options: TuningOptions = {}): TuningResult {
+  if (samples.length === 0) throw new Error('No panel-scored images to tune on');
+  const parameters = options.parameters ?? TUNING_PARAMETERS;
+  const maxRounds = options.maxRounds ?? DEFAULT_MAX_ROUNDS;
+  const build = (values: number[]) => parameters.reduce((p, param, i) => param.apply(p, values[i], base), base);
+  const objective = (report: AgreementReport) => report.meanAbsError ?? Infinity;
+
+  const initial = parameters.map(p => p.initial(base));
+  const beforeGraded = gradeAll(samples, base);
+  const before = measureAgreement(beforeGraded);
+  let current = [...initial];
+  let best = objective(before);
+  let evaluations = 1;
+  let rounds = 0;
+
+  while (rounds < maxRounds) {
+    rounds++;
+    let improved = false;
+    for (const [i, param] of parameters.entries()) {
+      options.onProgress?.({ round: rounds, parameter: param.label, evaluations, meanAbsError: Number.isFinite(best) ? best : null });
+      for (const value of param.values) {
+        if (value === current[i]) continue;
+        const trial = current.map((v, j) => (j === i ? value : v));
+        const score = objective(measureAgreement(gradeAll(samples, build(trial))));
+        evaluations++;
+        if (score < best - 1e-9) { best = score; current = trial; improved = true; }
+      }
+    }
+    if (!improved) break;
+  }
+
+  const tuned = build(current);
+  const afterGraded = gradeAll(samples, tuned);
+  return {
+    createdAt: new Date().toISOString(),
+    imageCount: samples.length,
+    base: { id: base.id, name: base.name, version: base.version },
+    candidate: createSpecProfile(`${base.name} (tuned)`, tuned),
+    changes: parameters.flatMap((p, i) => (current[i] === initial[i] ? [] : [{ id: p.id, label: p.label, from: initial[i], to: current[i] }])),
+    before,
+    after: measureAgreement(afterGraded),
+    images: beforeGraded.map((g, i) => ({ imageName: g.imageName, panel: g.panel, before: g.grade, after: afterGraded[i].grade })),
+    rounds,
+    evaluations,
+  };
+}
@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useRef } from 'react';
-import { Activity, Cpu, FileBarChart, Settings, Zap, ChevronRight, AlertCircle, CheckCircle, Eye } from 'lucide-react';
+import { Activity, Cpu, FileBarChart, Settings, Zap, ChevronRight, AlertCircle, CheckCircle, Eye, Ruler, Palette, ClipboardList, Layers, Users, Target } from 'lucide-react';
 import heroImage from '@/assets/hero-banner.jpg';
 import { ImageAnalyzer } from '@/components/ImageAnalyzer';
 import { HueHistogram } from '@/components/HueHistogram';
@@ -8,12 +8,30 @@ import { PQIScoring } from '@/components/PQIScoring';
 import { AnalysisMetrics } from '@/components/AnalysisMetrics';
 import { BatchReport } from '@/components/BatchReport';
 import { CalibrationPanel } from '@/components/CalibrationPanel';
+import { LengthDistribution } from '@/components/LengthDistribution';
+import { SpecProfileEditor } from '@/components/SpecProfileEditor';
+import { AgtronCalibrationPanel } from '@/components/AgtronCalibrationPanel';
+import { CutSizePanel } from '@/components/CutSizePanel';
+import { ColorCheckerReport } from '@/components/ColorCheckerReport';
+import { BackgroundModelPanel } from '@/components/BackgroundModelPanel';
+import { SensoryPanelForm } from '@/components/SensoryPanelForm';
+import { EvaluationPanel } from '@/components/EvaluationPanel';
+import { TuningPanel } from '@/components/TuningPanel';
+import { ClassifierPanel } from '@/components/ClassifierPanel';
 import type { AnalysisResult } from '@/lib/colorAnalysis';
 import { getPQIStatus } from '@/lib/colorAnalysis';
 import { DEFAULT_CALIBRATION, type CalibrationData } from '@/lib/calibration';
 import type { BatchRecord } from '@/lib/pqiEngine';
+import { applyDefectReview, applySensoryPanel, createBatchRecord } from '@/lib/batchRecord';
+import type { DefectReview } from '@/lib/defectReview';
+import type { SensoryScores } from '@/lib/sensoryPanel';
+import { gradeCutSize, type CutSize } from '@/lib/sizeGrading';
+import type { AgtronModel, AgtronSample } from '@/lib/agtronCalibration';
+import type { DefectClassifierModel } from '@/lib/defectClassifier';
+import { DEFAULT_BACKGROUND_MODEL, type BackgroundModelOptions } from '@/lib/backgroundModel';
+import { DEFAULT_SPEC_PROFILE, formatSpecProfile, getDisposition, reviseSpecProfile, type SpecProfile } from '@/lib/specProfiles';
 
-type Tab = 'analysis' | 'batch' | 'calibration';
+type Tab = 'analysis' | 'batch' | 'specs' | 'calibration' | 'evaluation';
 
 function StatusDot({ status }: { status: 'online' | 'processing' | 'idle' }) {
   const colors = { online: '#22c55e', processing: '#f59e0b', idle: '#64748b' };
@@ -64,35 +82,79 @@ export default function Index() {
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [calibration, setCalibration] = useState<CalibrationData>(DEFAULT_CALIBRATION);
+  const [profiles, setProfiles] = useState<SpecProfile[]>([DEFAULT_SPEC_PROFILE]);
+  const [activeProfileId, setActiveProfileId] = useState(DEFAULT_SPEC_PROFILE.id);
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? profiles[0];
+  const [station, setStation] = useState('Line 1');
+  const [agtronSamples, setAgtronSamples] = useState<AgtronSample[]>([]);
+  const [agtronModels, setAgtronModels] = useState<Record<string, AgtronModel>>({});
+  const [background, setBackground] = useState<BackgroundModelOptions>(DEFAULT_BACKGROUND_MODEL);
+  const agtronModel = agtronModels[station] ?? null;
   const [batchRecords, setBatchRecords] = useState<BatchRecord[]>([]);
   const [currentImageSrc, setCurrentImageSrc] = useState<string | null>(null);
+  const [currentRecordId, setCurrentRecordId] = useState<string | null>(null);
+  const [sampleSeq, setSampleSeq] = useState(0); // remounts per-sample forms
   const imageNameRef = useRef('sample');
 
   const handleAnalysisComplete = useCallback((res: AnalysisResult, imageData: ImageData, imageSrc: string) => {
     setResult(res);
     setCurrentImageSrc(imageSrc);
+    setSampleSeq(n => n + 1);
 
-    // Auto-log to batch
-    const status = getPQIStatus(res.pqi);
-    const record: BatchRecord = {
-      id: Date.now().toString(),
-      timestamp: new Date().toISOString(),
-      batchId: `B${new Date().toISOString().slice(0, 10).replace(/-/g, '')}`,
-      imageName: imageNameRef.current,
-      medianHue: res.pixelStats.medianHue,
-      pqi: res.pqi,
-      defectCount: res.defectCount,
-      processColorScore: res.processColorScore,
-      hueScore: res.hueScore,
-      mottlingScore: res.mottlingScore,
-      defectScore: res.defectScore,
-      agtronScore: res.pixelStats.agtronScore,
-      usdaLabel: res.usdaScoreLabel,
-      status: status.label,
-    };
+    // Auto-log to batch — captures blocked by the quality gate are shown but never logged
+    if (res.quality.level === 'blocking') { setCurrentRecordId(null); return; }
+    const record = createBatchRecord(res, imageNameRef.current);
+    setCurrentRecordId(record.id);
     setBatchRecords(prev => [record, ...prev]);
   }, []);
 
+  // Panel texture / aroma scores complete the current sample's record
+  const handleSensorySave = useCallback((scores: SensoryScores) => {
+    setBatchRecords(prev => prev.map(r => (r.id === currentRecordId ? applySensoryPanel(r, scores) : r)));
+  }, [currentRecordId]);
+
+  // Reviewer corrections re-grade the sample live; saving also re-grades its batch record
+  const handleReviewSave = useCallback((corrected: AnalysisResult, review: DefectReview) => {
+    setResult(corrected);
+    setBatchRecords(prev => prev.map(r => (r.id === currentRecordId ? applyDefectReview(r, corrected, review) : r)));
+  }, [currentRecordId]);
+
+  const saveProfile = useCallback((profile: SpecProfile) => {
+    setProfiles(prev => prev.map(p => (p.id === profile.id ? profile : p)));
+  }, []);
+
+  const createProfile = useCallback((profile: SpecProfile) => {
+    setProfiles(prev => [...prev, profile]);
+    setActiveProfileId(profile.id);
+  }, []);
+
+  const handleAgtronModelChange = useCallback((forStation: string, model: AgtronModel | null) => {
+    setAgtronModels(prev => {
+      const next = { ...prev };
+      if (model) next[forStation] = model;
+      else delete next[forStation];
+      return next;
+    });
+  }, []);
+
+  // A cut-size change revises the spec the current sample was graded against; its widths and disposition
+  // are re-graded without re-running the CV pipeline, and its batch record follows
+  const handleCutSizeChange = useCallback((next: CutSize) => {
+    if (!result) return;
+    const graded = result.specProfile;
+    const revised = reviseSpecProfile(graded, { cutSize: next });
+    // Only a sample graded against the library's current version may advance it
+    setProfiles(prev => prev.map(p => (p.id === graded.id && p.version === graded.version ? revised : p)));
+    const disposition = getDisposition(result.pqi, revised.limits);
+    setResult({ ...result, specProfile: revised, disposition, cutSizeConformity: gradeCutSize(result.strips, calibration.ppm, next) });
+    setBatchRecords(prev => prev.map(r => (r.id === currentRecordId ? { ...r, specProfile: revised, disposition } : r)));
+  }, [result, currentRecordId, calibration.ppm]);
+
+  // Switching the active profile to a trained classifier is a spec revision like any other
+  const handleUseClassifier = useCallback((model: DefectClassifierModel) => {
+    saveProfile(reviseSpecProfile(activeProfile, { defectClassifier: model }));
+  }, [activeProfile, saveProfile]);
+
   const pqiStatus = result ? getPQIStatus(result.pqi) : null;
 
   return (
@@ -118,7 +180,9 @@ export default function Index() {
           <nav className="flex items-center gap-1">
             <NavBtn active={activeTab === 'analysis'} onClick={() => setActiveTab('analysis')} icon={Eye} label="ANALYSIS" />
             <NavBtn active={activeTab === 'batch'} onClick={() => setActiveTab('batch')} icon={FileBarChart} label="BATCH" badge={batchRecords.length} />
+            <NavBtn active={activeTab === 'specs'} onClick={() => setActiveTab('specs')} icon={ClipboardList} label="SPECS" />
             <NavBtn active={activeTab === 'calibration'} onClick={() => setActiveTab('calibration')} icon={Settings} label="CALIBRATION" />
+            <NavBtn active={activeTab === 'evaluation'} onClick={() => setActiveTab('evaluation')} icon={Target} label="EVALUATION" />
           </nav>
 
           <div className="flex-1" />
@@ -191,18 +255,42 @@ export default function Index() {
                 <div className="flex items-center gap-2 mb-3">
                   <Activity className="w-4 h-4 text-gold" />
                   <h2 className="font-display text-sm font-semibold tracking-wider">IMAGE INPUT</h2>
-                  <span className="ml-auto text-xs font-mono-custom text-muted-foreground">
+                  <select
+                    value={activeProfile.id}
+                    onChange={e => setActiveProfileId(e.target.value)}
+                    disabled={isAnalyzing}
+                    title="Spec profile the next sample is graded against"
+                    className="ml-auto text-xs px-2 py-1 rounded border border-border bg-background text-muted-foreground"
+                  >
+                    {profiles.map(p => <option key={p.id} value={p.id}>{formatSpecProfile(p)}</option>)}
+                  </select>
+                  <span className="text-xs font-mono-custom text-muted-foreground">
                     PPM: {calibration.ppm.toFixed(2)}
                   </span>
                 </div>
                 <ImageAnalyzer
                   onAnalysisComplete={handleAnalysisComplete}
                   calibration={calibration}
+                  profile={activeProfile}
+                  agtronModel={agtronModel}
+                  background={background}
                   isAnalyzing={isAnalyzing}
                   setIsAnalyzing={setIsAnalyzing}
+                  onResultEdit={setResult}
+                  onReviewSave={handleReviewSave}
+                  canSaveReview={currentRecordId !== null}
                 />
               </div>
 
+              {/* Tray / plate background model */}
+              <div className="industrial-card p-4">
+                <div className="flex items-center gap-2 mb-3">
+                  <Layers className="w-4 h-4 text-gold" />
+                  <h2 className="font-display text-sm font-semibold tracking-wider">BACKGROUND MODEL</h2>
+                </div>
+                <BackgroundModelPanel options={background} onChange={setBackground} result={result} disabled={isAnalyzing} />
+              </div>
+
               {/* Metrics panel */}
               {result && (
                 <div className="industrial-card p-4">
@@ -213,6 +301,28 @@ export default function Index() {
                   <AnalysisMetrics result={result} />
                 </div>
               )}
+
+              {/* Colour correction residuals */}
+              {result && (
+                <div className="industrial-card p-4">
+                  <div className="flex items-center gap-2 mb-3">
+                    <Palette className="w-4 h-4 text-gold" />
+                    <h2 className="font-display text-sm font-semibold tracking-wider">COLOUR CORRECTION</h2>
+                  </div>
+                  <ColorCheckerReport result={result} />
+                </div>
+              )}
+
+              {/* Cut-size conformity panel */}
+              {result && (
+                <div className="industrial-card p-4">
+                  <div className="flex items-center gap-2 mb-3">
+                    <Ruler className="w-4 h-4 text-gold" />
+                    <h2 className="font-display text-sm font-semibold tracking-wider">CUT SIZE CONFORMITY</h2>
+                  </div>
+                  <CutSizePanel result={result} cutSize={result.specProfile.cutSize} onCutSizeChange={handleCutSizeChange} />
+                </div>
+              )}
             </div>
 
             {/* Middle column: Scoring */}
@@ -229,9 +339,27 @@ export default function Index() {
                     <PQIScoring result={result} />
                   </div>
 
+                  <div className="industrial-card p-4">
+                    <div className="flex items-center gap-2 mb-3">
+                      <Users className="w-4 h-4 text-gold" />
+                      <h2 className="font-display text-sm font-semibold tracking-wider">SENSORY PANEL</h2>
+                      <span className="ml-auto text-xs text-muted-foreground">Texture · Aroma · 1–9</span>
+                    </div>
+                    <SensoryPanelForm
+                      key={sampleSeq}
+                      result={result}
+                      canSave={currentRecordId !== null}
+                      onSave={handleSensorySave}
+                    />
+                  </div>
+
                   <div className="industrial-card p-4">
                     <HueHistogram result={result} />
                   </div>
+
+                  <div className="industrial-card p-4">
+                    <LengthDistribution result={result} calibrated={calibration.isCalibrated} />
+                  </div>
                 </>
               ) : (
                 <div className="industrial-card p-8 flex flex-col items-center justify-center text-center gap-4 min-h-[300px]">
@@ -274,10 +402,11 @@ export default function Index() {
                     <div className="industrial-card p-4">
                       <h3 className="font-display text-sm font-semibold tracking-wider mb-3">DEFECT CATALOG</h3>
                       <div className="flex flex-col gap-1.5 max-h-60 overflow-y-auto">
-                        {result.defects.slice(0, 20).map((defect, i) => {
+                        {[...result.defects].sort((a, b) => Number(a.isArtifact) - Number(b.isArtifact)).slice(0, 20).map((defect, i) => {
                           const typeColors: Record<string, string> = {
                             burnt: '#ff2222', dark: '#ff6600', light: '#22aaff',
                             mottled: '#ffcc00', sugar_end: '#ff88ff', disease: '#cc44ff',
+                            greening: '#44dd66', hollow_heart: '#8899ff',
                           };
                           const color = typeColors[defect.type] || '#ffffff';
                           return (
@@ -287,6 +416,12 @@ export default function Index() {
                               <span className="font-display font-semibold" style={{ color }}>
                                 {defect.type.replace('_', ' ').toUpperCase()}
                               </span>
+                              {defect.stripId ? (
+                                <span className="font-mono-custom text-muted-foreground">#{defect.stripId}</span>
+                              ) : null}
+                              {defect.sizeClass && (
+                                <span className="font-mono-custom text-muted-foreground uppercase">{defect.sizeClass[0]}</span>
+                              )}
                               <span className="text-muted-foreground ml-auto">
                                 {defect.areamm2?.toFixed(0) ?? defect.area.toFixed(0)}mm²
                               </span>
@@ -357,11 +492,57 @@ export default function Index() {
           </div>
         )}
 
+        {activeTab === 'specs' && (
+          <div className="max-w-2xl">
+            <div className="industrial-card p-6">
+              <SpecProfileEditor
+                key={`${activeProfile.id}@${activeProfile.version}`}
+                profiles={profiles}
+                activeProfile={activeProfile}
+                onSelect={setActiveProfileId}
+                onSave={saveProfile}
+                onCreate={createProfile}
+              />
+            </div>
+          </div>
+        )}
+
         {activeTab === 'calibration' && (
-          <div className="max-w-lg">
+          <div className="max-w-lg flex flex-col gap-4">
             <div className="industrial-card p-6">
               <CalibrationPanel calibration={calibration} onCalibrationChange={setCalibration} />
             </div>
+            <div className="industrial-card p-6">
+              <AgtronCalibrationPanel
+                station={station}
+                onStationChange={setStation}
+                samples={agtronSamples}
+                onSamplesChange={setAgtronSamples}
+                model={agtronModel}
+                onModelChange={handleAgtronModelChange}
+                currentResult={result}
+                currentImageName={imageNameRef.current}
+                profile={activeProfile}
+                ppm={calibration.ppm}
+                background={background}
+              />
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'evaluation' && (
+          <div className="max-w-4xl flex flex-col gap-4">
+            <div className="industrial-card p-6">
+              <EvaluationPanel profile={activeProfile} ppm={calibration.ppm} agtronModel={agtronModel} background={background} />
+            </div>
+            <div className="industrial-card p-6">
+              <TuningPanel profile={activeProfile} ppm={calibration.ppm} agtronModel={agtronModel} background={background}
+                onAdopt={createProfile} />
+            </div>
+            <div className="industrial-card p-6">
+              <ClassifierPanel profile={activeProfile} ppm={calibration.ppm} agtronModel={agtronModel} background={background}
+                onUse={handleUseClassifier} />
+            </div>
           </div>
         )}
       </main>
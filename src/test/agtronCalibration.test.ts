@@ -0,0 +1,53 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { analyzePixels } from "@/lib/colorAnalysis";
+import { extractAgtronFeatures, fitAgtronModel, predictAgtron, type AgtronSample } from "@/lib/agtronCalibration";
+import { generateSyntheticFries, usdaToLab } from "@/lib/syntheticFries";
+
+const PPM = 3;
+// The station's meter reads lighter fries higher
+const meter = (usda: number) => { const { L, b } = usdaToLab(usda); return 1.4 * L - 0.3 * b - 8; };
+
+const tray = (seed: number, usda: number) => generateSyntheticFries({
+  seed, ppm: PPM, widthMm: 100, heightMm: 60, strips: [{ lengthMm: 70, usda }, { lengthMm: 70, usda }],
+});
+
+const sample = (i: number, usda: number): AgtronSample => {
+  const { meanR, meanG, meanB } = analyzePixels(tray(i, usda).raster, PPM).pixelStats;
+  return { id: `s${i}`, station: "line-1", imageName: `s${i}.png`, measuredAgtron: meter(usda), features: extractAgtronFeatures(meanR, meanG, meanB) };
+};
+
+describe("Agtron calibration", () => {
+  it("recovers the coefficients of an exact linear relation", () => {
+    const samples: AgtronSample[] = Array.from({ length: 10 }, (_, i) => {
+      const features = { L: 40 + 3 * i, a: 12 - (i % 4), b: 30 + ((i * 7) % 5), luminance: 0 };
+      return { id: `s${i}`, station: "line-1", imageName: "", measuredAgtron: 10 + 0.5 * features.L - 0.2 * features.a + 0.3 * features.b, features };
+    });
+    const model = fitAgtronModel(samples, "line-1")!;
+    expect(model.kind).toBe("lab");
+    [10, 0.5, -0.2, 0.3].forEach((c, i) => expect(model.coefficients[i]).toBeCloseTo(c, 4));
+    expect(model.r2).toBeCloseTo(1, 6);
+    expect(model.rmse).toBeCloseTo(0, 4);
+    expect(model.residuals).toHaveLength(10);
+  });
+
+  it("fits luminance below eight samples and refuses fewer than three", () => {
+    const samples = [0, 0.5, 1, 1.5].map((usda, i) => sample(i, usda));
+    expect(fitAgtronModel(samples, "line-1")?.kind).toBe("luminance");
+    expect(fitAgtronModel(samples.slice(0, 2), "line-1")).toBeNull();
+  });
+
+  it("grades images with the fitted model instead of the default formula", () => {
+    const samples = [0, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2].map((usda, i) => sample(i, usda));
+    const model = fitAgtronModel(samples, "line-1")!;
+    expect(model.kind).toBe("lab");
+    expect(model.r2).toBeGreaterThan(0.98);
+
+    const image = tray(42, 0.6);
+    const fallback = analyzePixels(image.raster, PPM).pixelStats;
+    const calibrated = analyzePixels(image.raster, PPM, { agtronModel: model }).pixelStats;
+    expect(calibrated.agtronScore).toBe(Math.round(predictAgtron(model, extractAgtronFeatures(calibrated.meanR, calibrated.meanG, calibrated.meanB))));
+    expect(Math.abs(calibrated.agtronScore - meter(0.6))).toBeLessThanOrEqual(2);
+    expect(calibrated.agtronScore).not.toBe(fallback.agtronScore);
+  });
+});
@@ -0,0 +1,121 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { PNG } from "pngjs";
+import jpeg from "jpeg-js";
+import { generateSyntheticFries, type SyntheticStrip } from "@/lib/syntheticFries";
+import { DEFAULT_SPEC_PROFILE } from "@/lib/specProfiles";
+import type { RgbaRaster } from "@/lib/colorAnalysis";
+
+const ROOT = resolve(__dirname, "../..");
+const PPM = 3;
+
+let work: string;
+
+function writeImage(dir: string, name: string, { data, width, height }: RgbaRaster) {
+  if (name.endsWith(".jpg")) {
+    writeFileSync(join(dir, name), jpeg.encode({ data: Buffer.from(data), width, height }, 95).data);
+    return;
+  }
+  const png = new PNG({ width, height });
+  png.data.set(data);
+  writeFileSync(join(dir, name), PNG.sync.write(png));
+}
+
+const tray = (strips: SyntheticStrip[]) =>
+  generateSyntheticFries({ seed: 5, ppm: PPM, widthMm: 100, heightMm: 70, strips }).raster;
+
+/** A folder holding the given images, under the test's scratch directory */
+function folder(name: string, images: Record<string, RgbaRaster>): string {
+  const dir = join(work, name);
+  rmSync(dir, { recursive: true, force: true });
+  mkdirSync(dir, { recursive: true });
+  for (const [file, raster] of Object.entries(images)) writeImage(dir, file, raster);
+  return dir;
+}
+
+function analyze(...args: string[]) {
+  const run = spawnSync(join(ROOT, "node_modules/.bin/tsx"), ["cli/analyze.ts", ...args, "--ppm", String(PPM)], {
+    cwd: ROOT, encoding: "utf8", timeout: 60_000,
+  });
+  return { status: run.status, stdout: run.stdout, stderr: run.stderr };
+}
+
+const golden = () => tray([{ lengthMm: 75 }, { lengthMm: 75 }, { lengthMm: 75 }]);
+
+beforeAll(() => { work = mkdtempSync(join(tmpdir(), "macfry-cli-")); });
+afterAll(() => rmSync(work, { recursive: true, force: true }));
+
+// Each run starts a fresh tsx process
+describe("analyze CLI", { timeout: 30_000 }, () => {
+  it("exits 0 and writes JSON plus the CSV when nothing is rejected", () => {
+    const dir = folder("pass", { "a.png": golden() });
+    const run = analyze(dir);
+    expect(run.status, run.stderr).toBe(0);
+    expect(existsSync(join(dir, "analysis", "a.png.json"))).toBe(true);
+    const csv = readFileSync(join(dir, "analysis", "batch_report.csv"), "utf8").trim().split("\n");
+    expect(csv).toHaveLength(2);
+    expect(csv[1]).toContain("a.png");
+  });
+
+  it("keeps one JSON per image when names differ only in extension", () => {
+    const dir = folder("same-name", { "a.png": golden(), "a.jpg": golden() });
+    analyze(dir);
+    for (const file of ["a.png", "a.jpg"]) {
+      expect(JSON.parse(readFileSync(join(dir, "analysis", `${file}.json`), "utf8")).image).toBe(file);
+    }
+  });
+
+  it("exits 1 when a sample grades REJECT under the chosen profile", () => {
+    const dir = folder("reject", { "a.png": golden() });
+    const profile = join(work, "strict.json");
+    writeFileSync(profile, JSON.stringify({ ...DEFAULT_SPEC_PROFILE, limits: { passPqi: 101, holdPqi: 101 } }));
+    const run = analyze(dir, "--profile", profile);
+    expect(run.status, run.stderr).toBe(1);
+    expect(run.stdout).toMatch(/REJECT/);
+  });
+
+  it("logs a dark but well-exposed sample as a REJECT, not a blocked capture", () => {
+    const dir = folder("dark", { "dark.png": tray([0, 1, 2].map(() => ({ lengthMm: 75, usda: 0 }))) });
+    const run = analyze(dir);
+    expect(run.status, run.stderr).toBe(1);
+    expect(run.stderr).not.toMatch(/BLOCK/);
+    expect(run.stdout).toMatch(/REJECT.*dark\.png/);
+    expect(readFileSync(join(dir, "analysis", "batch_report.csv"), "utf8")).toContain("dark.png");
+  });
+
+  it("exits 2 on a --profile that is not a spec profile", () => {
+    const dir = folder("bad-profile", { "a.png": golden() });
+    const cases: [unknown, RegExp][] = [
+      [[], /Not a spec profile/],
+      [{ ...DEFAULT_SPEC_PROFILE, limits: { passPqi: "90", holdPqi: 70 } }, /limits lacks numeric passPqi/],
+      [{ ...DEFAULT_SPEC_PROFILE, hueChart: undefined }, /hueChart/],
+      [{ ...DEFAULT_SPEC_PROFILE, cutSize: "crinkle" }, /cutSize must be one of thin, standard, thick/],
+    ];
+    for (const [json, message] of cases) {
+      const profile = join(work, "bad.json");
+      writeFileSync(profile, JSON.stringify(json));
+      const run = analyze(dir, "--profile", profile);
+      expect(run.status).toBe(2);
+      expect(run.stderr).toMatch(/invalid --profile/);
+      expect(run.stderr).toMatch(message);
+    }
+    expect(existsSync(join(dir, "analysis"))).toBe(false);
+  });
+
+  it("exits 2 on usage errors and on captures the quality gate blocks", () => {
+    expect(analyze().status).toBe(2);
+    expect(analyze(join(work, "missing")).status).toBe(2);
+    expect(analyze(folder("empty", {})).status).toBe(2);
+
+    // An empty tray has no fry to grade
+    const dir = folder("blocked", { "a.png": golden(), "empty.png": tray([]) });
+    const run = analyze(dir);
+    expect(run.status).toBe(2);
+    expect(run.stderr).toMatch(/BLOCK\s+empty\.png/);
+    expect(readFileSync(join(dir, "analysis", "batch_report.csv"), "utf8")).not.toContain("empty.png");
+  });
+});
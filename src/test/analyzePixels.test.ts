@@ -0,0 +1,80 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { DEFAULT_PIPELINE, analyzePixels } from "@/lib/colorAnalysis";
+import { DEFAULT_SPEC_PROFILE } from "@/lib/specProfiles";
+import { ENGINE_VERSION, replaceStage } from "@/lib/pipeline";
+
+const WIDTH = 240;
+const HEIGHT = 160;
+
+/** Light tray with three golden strips, one carrying a burnt spot */
+function makeTray(): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  const paint = (x0: number, y0: number, x1: number, y1: number, rgb: [number, number, number]) => {
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const i = (y * WIDTH + x) * 4;
+        data[i] = rgb[0]; data[i + 1] = rgb[1]; data[i + 2] = rgb[2]; data[i + 3] = 255;
+      }
+    }
+  };
+  paint(0, 0, WIDTH, HEIGHT, [245, 245, 245]);
+  for (const y of [30, 70, 110]) paint(30, y, 210, y + 20, [220, 170, 80]);
+  paint(100, 74, 112, 86, [40, 36, 34]);
+  return data;
+}
+
+describe("analyzePixels", () => {
+  it("runs without DOM ImageData", () => {
+    expect(typeof globalThis.ImageData).toBe("undefined");
+
+    const result = analyzePixels({ data: makeTray(), width: WIDTH, height: HEIGHT }, 1);
+
+    expect(result.strips).toHaveLength(3);
+    expect(result.defects.some(d => d.type === "burnt" && !d.isArtifact)).toBe(true);
+    expect(result.pqi).toBeGreaterThanOrEqual(0);
+    expect(result.pqi).toBeLessThanOrEqual(100);
+    expect(result.hueHistogram).toHaveLength(36);
+  });
+
+  it("leaves the input buffer untouched", () => {
+    const data = makeTray();
+    const before = data.slice();
+    analyzePixels({ data, width: WIDTH, height: HEIGHT });
+    expect(data).toEqual(before);
+  });
+
+  it("accepts a plain Uint8Array (e.g. a Node Buffer)", () => {
+    const data = new Uint8Array(makeTray());
+    const result = analyzePixels({ data, width: WIDTH, height: HEIGHT });
+    expect(result.strips).toHaveLength(3);
+  });
+
+  it("rejects a buffer smaller than width × height × 4", () => {
+    expect(() => analyzePixels({ data: new Uint8ClampedArray(10), width: WIDTH, height: HEIGHT })).toThrow(RangeError);
+  });
+
+  it("records the engine version and stage list", () => {
+    const result = analyzePixels({ data: makeTray(), width: WIDTH, height: HEIGHT });
+    expect(result.engine.version).toBe(ENGINE_VERSION);
+    expect(result.engine.stages.map(s => s.id)).toEqual(DEFAULT_PIPELINE.map(s => s.id));
+    expect(result.engine.stages.every(s => s.enabled && !s.custom)).toBe(true);
+  });
+
+  it("skips stages the spec profile disables, and refuses required ones", () => {
+    const raster = { data: makeTray(), width: WIDTH, height: HEIGHT };
+    const result = analyzePixels(raster, 1, { profile: { ...DEFAULT_SPEC_PROFILE, disabledStages: ["gradcam"] } });
+    expect(result.gradCamData).toEqual([]);
+    expect(result.engine.stages.find(s => s.id === "gradcam")?.enabled).toBe(false);
+
+    expect(() => analyzePixels(raster, 1, { profile: { ...DEFAULT_SPEC_PROFILE, disabledStages: ["defects"] } })).toThrow(/required/);
+  });
+
+  it("runs a custom stage in place of a built-in one", () => {
+    const crunch = DEFAULT_PIPELINE.find(s => s.id === "crunch")!;
+    const pipeline = replaceStage(DEFAULT_PIPELINE, { ...crunch, version: 2, run: state => { state.crunchScore = 42; } });
+    const result = analyzePixels({ data: makeTray(), width: WIDTH, height: HEIGHT }, 1, { pipeline });
+    expect(result.pixelStats.crunchScore).toBe(42);
+    expect(result.engine.stages.find(s => s.id === "crunch")).toEqual({ id: "crunch", version: 2, enabled: true, custom: true });
+  });
+});
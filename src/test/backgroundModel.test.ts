@@ -0,0 +1,60 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { analyzePixels, type RGBColor } from "@/lib/colorAnalysis";
+import { computeForegroundMask, type BackgroundMethod, type ForegroundMask } from "@/lib/backgroundModel";
+import { generateSyntheticFries } from "@/lib/syntheticFries";
+
+const PPM = 3;
+const TRAYS: Record<string, RGBColor> = {
+  white: { r: 244, g: 244, b: 242 },
+  blue: { r: 70, g: 110, b: 170 },
+  "brown paper": { r: 150, g: 110, b: 70 },
+  "stainless steel": { r: 140, g: 142, b: 145 },
+};
+
+const tray = (background: RGBColor) => generateSyntheticFries({
+  seed: 4, ppm: PPM, widthMm: 100, heightMm: 70, background,
+  strips: [{ lengthMm: 70, defects: [{ type: "burnt", at: 0.5 }] }, { lengthMm: 70 }, { lengthMm: 70 }],
+});
+
+/** Intersection over union of the mask with the painted fry pixels */
+const iou = (mask: ForegroundMask, labels: Int32Array) => {
+  let inter = 0, union = 0;
+  for (let i = 0; i < labels.length; i++) {
+    const fry = labels[i] !== 0, fg = mask.data[i] === 1;
+    if (fry && fg) inter++;
+    if (fry || fg) union++;
+  }
+  return inter / union;
+};
+
+describe("computeForegroundMask", () => {
+  for (const [name, background] of Object.entries(TRAYS)) {
+    it(`separates fries from a ${name} tray`, () => {
+      const image = tray(background);
+      for (const method of ["kmeans", "otsu"] as BackgroundMethod[]) {
+        const mask = computeForegroundMask(image.raster, { method });
+        expect(iou(mask, image.labels), method).toBeGreaterThan(0.98);
+        expect(mask.coverage).toBeCloseTo(image.strips.reduce((n, s) => n + s.area, 0) / image.labels.length, 2);
+      }
+      expect(analyzePixels(image.raster, PPM).strips).toHaveLength(3);
+    });
+  }
+
+  it("keys out a chosen tray colour", () => {
+    const image = tray(TRAYS.blue);
+    const mask = computeForegroundMask(image.raster, { method: "chroma_key", keyColor: TRAYS.blue, keyTolerance: 12 });
+    expect(mask.method).toBe("chroma_key");
+    expect(iou(mask, image.labels)).toBeGreaterThan(0.98);
+  });
+
+  it("fills a burnt spot that matches a dark tray back into its fry", () => {
+    const image = tray({ r: 45, g: 42, b: 40 });
+    const mask = computeForegroundMask(image.raster);
+    const spot = image.defects[0];
+    let inside = 0;
+    for (let i = 0; i < image.labels.length; i++) if (image.labels[i] === 1 && mask.data[i]) inside++;
+    expect(inside).toBe(spot.area);
+    expect(mask.holes.some(v => v === 1)).toBe(true);
+  });
+});
@@ -0,0 +1,83 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { analyzePixels, deltaE2000, rgbToLab, type AnalysisResult, type RGBColor } from "@/lib/colorAnalysis";
+import { COLOR_CHECKER_PATCHES, type ChartCorners } from "@/lib/colorCorrection";
+import { generateSyntheticFries } from "@/lib/syntheticFries";
+
+const PPM = 4;
+// Camera response in linear RGB: dim, with channel crosstalk
+const CAMERA = [[0.8, 0.15, 0.05], [0.1, 0.75, 0.1], [0.05, 0.2, 0.65]];
+const PITCH = 40;
+const CHART_AT = { x: 20, y: 60 };
+
+const toLinear = (v: number) => { const c = v / 255; return c > 0.04045 ? ((c + 0.055) / 1.055) ** 2.4 : c / 12.92; };
+const toSrgb = (l: number) => 255 * (l > 0.0031308 ? 1.055 * l ** (1 / 2.4) - 0.055 : 12.92 * l);
+const camera = ({ r, g, b }: RGBColor): RGBColor => {
+  const v = [toLinear(r), toLinear(g), toLinear(b)];
+  const [cr, cg, cb] = CAMERA.map(row => toSrgb(row[0] * v[0] + row[1] * v[1] + row[2] * v[2]));
+  return { r: cr, g: cg, b: cb };
+};
+
+/** Two strips beside a 24-patch chart (black gutters), all seen through CAMERA */
+function photographTray() {
+  const image = generateSyntheticFries({
+    seed: 3, ppm: PPM, widthMm: 160, heightMm: 80,
+    strips: [{ lengthMm: 60, center: { x: 115, y: 40 } }, { lengthMm: 60, center: { x: 115, y: 60 } }],
+  });
+  const { data, width } = image.raster;
+  for (const [k, patch] of COLOR_CHECKER_PATCHES.entries()) {
+    const px = CHART_AT.x + (k % 6) * PITCH, py = CHART_AT.y + Math.floor(k / 6) * PITCH;
+    for (let y = py; y < py + PITCH; y++) {
+      for (let x = px; x < px + PITCH; x++) {
+        const gutter = Math.min(x - px, y - py, px + PITCH - 1 - x, py + PITCH - 1 - y) < 4;
+        const c = gutter ? { r: 12, g: 12, b: 12 } : patch.srgb;
+        const i = (y * width + x) * 4;
+        data[i] = c.r; data[i + 1] = c.g; data[i + 2] = c.b;
+      }
+    }
+  }
+  for (let i = 0; i < data.length; i += 4) {
+    const c = camera({ r: data[i], g: data[i + 1], b: data[i + 2] });
+    data[i] = c.r; data[i + 1] = c.g; data[i + 2] = c.b;
+  }
+  return image;
+}
+
+/** ΔE2000 of the graded fry colour from the colour the strips were painted */
+const fleshError = (result: AnalysisResult, image: ReturnType<typeof photographTray>) => {
+  const { meanR, meanG, meanB } = result.pixelStats;
+  return deltaE2000(rgbToLab(meanR, meanG, meanB), image.strips[0].lab);
+};
+
+describe("colour checker correction", () => {
+  it("finds the chart, fits the CCM and undoes the camera's crosstalk", () => {
+    const image = photographTray();
+    const corrected = analyzePixels(image.raster, PPM);
+    const { colorCorrection } = corrected;
+
+    expect(colorCorrection.method).toBe("ccm");
+    expect(colorCorrection.source).toBe("auto");
+    expect(colorCorrection.patches).toHaveLength(24);
+    expect(colorCorrection.meanDeltaE).toBeLessThan(1);
+    expect(colorCorrection.maxDeltaE).toBeLessThan(3);
+    // The chart is masked out, not segmented as fry
+    expect(corrected.strips).toHaveLength(2);
+
+    const uncorrected = analyzePixels(image.raster, PPM, { colorChecker: "off" });
+    expect(uncorrected.colorCorrection.method).toBe("white_balance");
+    expect(fleshError(corrected, image)).toBeLessThan(3);
+    expect(fleshError(uncorrected, image)).toBeGreaterThan(2 * fleshError(corrected, image));
+  });
+
+  it("uses hand-marked corners as given", () => {
+    const image = photographTray();
+    const { x, y } = CHART_AT;
+    const corners: ChartCorners = [
+      { x, y }, { x: x + 6 * PITCH, y }, { x: x + 6 * PITCH, y: y + 4 * PITCH }, { x, y: y + 4 * PITCH },
+    ];
+    const { colorCorrection } = analyzePixels(image.raster, PPM, { colorChecker: corners });
+    expect(colorCorrection.source).toBe("manual");
+    expect(colorCorrection.corners).toEqual(corners);
+    expect(colorCorrection.meanDeltaE).toBeLessThan(1);
+  });
+});
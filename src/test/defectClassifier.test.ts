@@ -0,0 +1,66 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { analyzePixels } from "@/lib/colorAnalysis";
+import { DEFAULT_SPEC_PROFILE } from "@/lib/specProfiles";
+import { generateSyntheticFries } from "@/lib/syntheticFries";
+import {
+  classifyRegion, collectClassifierSamples, parseDefectClassifier, trainDefectClassifier, type ClassifierSample,
+} from "@/lib/defectClassifier";
+
+const PPM = 4;
+// Four strips, each with a burnt spot and a dark spot
+const tray = (seed: number) => generateSyntheticFries({
+  seed, ppm: PPM, widthMm: 100, heightMm: 75,
+  strips: [0, 1, 2, 3].map(() => ({ lengthMm: 85, defects: [{ type: "burnt" as const, at: 0.3 }, { type: "dark" as const, at: 0.7 }] })),
+});
+
+// This plant's panel calls the dark spots black spot (disease)
+const labelsOf = (image: ReturnType<typeof tray>) => image.defects.map(d => ({
+  type: d.type === "dark" ? "disease" as const : d.type,
+  bbox: { x: d.x, y: d.y, width: d.width, height: d.height },
+  polygon: null,
+}));
+const samples: ClassifierSample[] = [1, 2, 3].flatMap(seed => {
+  const image = tray(seed);
+  return collectClassifierSamples(`tray_${seed}.png`, image.raster, PPM, labelsOf(image));
+});
+
+describe("defect classifier", () => {
+  it("learns the plant's types and reports its probability on each region", () => {
+    expect(samples.map(s => s.label).sort()).toEqual([...Array(12).fill("burnt"), ...Array(12).fill("disease")]);
+    const model = trainDefectClassifier(samples)!;
+    expect(model.classes).toEqual(["burnt", "disease"]);
+    expect(model.trainingAccuracy).toBe(1);
+
+    const test = tray(7);
+    const rules = analyzePixels(test.raster, PPM);
+    expect(rules.defects.some(d => d.type === "dark")).toBe(true);
+    expect(rules.defects.every(d => d.classifierProbability === undefined)).toBe(true);
+
+    const learned = analyzePixels(test.raster, PPM, { profile: { ...DEFAULT_SPEC_PROFILE, defectClassifier: model } });
+    expect(learned.defects.filter(d => d.type === "disease")).toHaveLength(4);
+    expect(learned.defects.filter(d => d.type === "burnt")).toHaveLength(4);
+    for (const d of learned.defects) expect(d.classifierProbability).toBeGreaterThan(0.5);
+  });
+
+  it("trains on the same region features it types with", () => {
+    const model = trainDefectClassifier(samples)!;
+    const test = tray(7);
+    const trained = collectClassifierSamples("tray_7.png", test.raster, PPM, labelsOf(test));
+    const typed = analyzePixels(test.raster, PPM, { profile: { ...DEFAULT_SPEC_PROFILE, defectClassifier: model } }).defects
+      .filter(d => d.classifierProbability !== undefined);
+    expect(typed).toHaveLength(trained.length);
+    // Identical features give bit-identical probabilities
+    const sorted = (ps: number[]) => [...ps].sort((a, b) => a - b);
+    expect(sorted(typed.map(d => d.classifierProbability!)))
+      .toEqual(sorted(trained.map(t => classifyRegion(model, t.features).probability)));
+  });
+
+  it("saves as JSON and refuses models it cannot run", () => {
+    const model = trainDefectClassifier(samples)!;
+    expect(parseDefectClassifier(JSON.parse(JSON.stringify(model)))).toEqual(model);
+    expect(() => parseDefectClassifier({ ...model, features: ["L", "a", "b"] })).toThrow(/different region features/);
+    expect(() => parseDefectClassifier({ ...model, classes: ["burnt", "sugar_end"] })).toThrow(/unknown classes/);
+    expect(trainDefectClassifier(samples.filter(s => s.label === "burnt"))).toBeNull();
+  });
+});
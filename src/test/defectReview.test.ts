@@ -0,0 +1,86 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { DEFAULT_PIPELINE, analyzePixels, rescoreDefects } from "@/lib/colorAnalysis";
+import { replaceStage } from "@/lib/pipeline";
+import { parseCocoAnnotations, toCocoAnnotations, parseAnnotationCsv, toAnnotationCsv } from "@/lib/annotations";
+import { createDefectReview, drawDefect, resizeDefect, retypeDefect } from "@/lib/defectReview";
+import { generateSyntheticFries } from "@/lib/syntheticFries";
+
+const PPM = 4;
+const image = generateSyntheticFries({
+  seed: 5, ppm: PPM, widthMm: 100, heightMm: 50,
+  strips: [
+    { lengthMm: 80, defects: [{ type: "burnt", at: 0.5 }] },
+    { lengthMm: 80 },
+  ],
+});
+const automatic = analyzePixels(image.raster, PPM);
+const burnt = automatic.defects.find(d => d.type === "burnt")!;
+
+describe("rescoreDefects", () => {
+  it("reproduces the engine's grade for an unedited defect list", () => {
+    const same = rescoreDefects(automatic, automatic.defects);
+    expect(same.pqi).toBe(automatic.pqi);
+    expect(same.defectScore).toBe(automatic.defectScore);
+    expect(same.mottlingScore).toBe(automatic.mottlingScore);
+    expect(same.disposition).toBe(automatic.disposition);
+  });
+
+  it("re-grades deletions, drawn regions and retypes", () => {
+    const deleted = rescoreDefects(automatic, automatic.defects.filter(d => d !== burnt));
+    expect(deleted.defectCount).toBe(automatic.defectCount - 1);
+    expect(deleted.pqi).toBeGreaterThanOrEqual(automatic.pqi);
+
+    const strip = automatic.strips[1];
+    const drawn = drawDefect("burnt", { x: strip.axis.centroid.x - 20, y: strip.axis.centroid.y - 20, width: 40, height: 40 }, automatic, PPM);
+    expect(drawn).toMatchObject({ isArtifact: false, stripId: strip.id, area: 1600, sizeClass: "large" });
+    const added = rescoreDefects(automatic, [...automatic.defects, drawn]);
+    expect(added.defectScore).toBeGreaterThan(automatic.defectScore);
+
+    const shadow = retypeDefect(burnt, "shadow", automatic, PPM);
+    expect(shadow).toMatchObject({ isArtifact: true, sizeClass: undefined });
+    expect(rescoreDefects(automatic, automatic.defects.map(d => (d === burnt ? shadow : d))).defectCount).toBe(automatic.defectCount - 1);
+  });
+
+  it("refuses a result scored by a custom scoring stage", () => {
+    const scoring = DEFAULT_PIPELINE.find(stage => stage.id === "scoring")!;
+    const custom = analyzePixels(image.raster, PPM, { pipeline: replaceStage(DEFAULT_PIPELINE, { ...scoring }) });
+    expect(custom.engine.stages.find(stage => stage.id === "scoring")!.custom).toBe(true);
+    expect(() => rescoreDefects(custom, custom.defects)).toThrow(/custom "scoring" stage/);
+  });
+
+  it("stretches a resized region's outline onto the new box", () => {
+    const box = { x: burnt.x - 4, y: burnt.y - 4, width: burnt.width * 2, height: burnt.height * 2 };
+    const resized = resizeDefect(burnt, box, automatic, PPM);
+    expect(resized).toMatchObject(box);
+    expect(resized.area).toBe(burnt.area * 4);
+    for (const p of resized.polygon) {
+      expect(p.x).toBeGreaterThanOrEqual(box.x);
+      expect(p.x).toBeLessThanOrEqual(box.x + box.width);
+    }
+  });
+});
+
+describe("createDefectReview", () => {
+  it("stores both grades and exports labels that read back in file pixels", () => {
+    const corrected = rescoreDefects(automatic, automatic.defects.filter(d => d !== burnt));
+    const review = createDefectReview(automatic, corrected, [{ action: "deleted", type: "burnt", previousType: null, bbox: burnt }],
+      "  QA lead  ", { name: "tray.png", width: image.raster.width, height: image.raster.height, scale: 0.5 });
+    expect(review.reviewer).toBe("QA lead");
+    expect(review.automatic.pqi).toBe(automatic.pqi);
+    expect(review.corrected.defectCount).toBe(corrected.defectCount);
+    expect(review.annotations).toMatchObject({ imageName: "tray.png", width: image.raster.width * 2 });
+    expect(review.detected).toMatchObject({ imageName: "tray.png", width: image.raster.width * 2 });
+    expect(review.detected.annotations.map(a => a.type)).toEqual(automatic.defects.map(d => d.type));
+    expect(review.detected.annotations.find(a => a.type === "burnt")!.bbox).toEqual({
+      x: burnt.x * 2, y: burnt.y * 2, width: burnt.width * 2, height: burnt.height * 2,
+    });
+    expect(review.detected.annotations.length - review.annotations.annotations.length).toBe(1);
+
+    const coco = parseCocoAnnotations(JSON.parse(JSON.stringify(toCocoAnnotations([review.annotations]))));
+    expect(coco.warnings).toEqual([]);
+    expect(coco.images[0].annotations.map(a => a.type)).toEqual(corrected.defects.map(d => d.type));
+    const csv = parseAnnotationCsv(toAnnotationCsv([review.annotations, { imageName: "clean.png", width: null, height: null, annotations: [] }]));
+    expect(csv.images.map(i => i.annotations.length)).toEqual([corrected.defects.length, 0]);
+  });
+});
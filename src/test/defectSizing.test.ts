@@ -0,0 +1,75 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import type { DefectRegion } from "@/lib/colorAnalysis";
+import { classifyDefectSize, countDefectSizes, equivalentDiameterMm, getDefectScore } from "@/lib/defectSizing";
+
+const PPM = 2;
+
+/** A defect of `areaMm2` whose longest side is `extentMm`, sized the way detectDefects sizes it */
+function defect(type: DefectRegion["type"], areaMm2: number, extentMm: number, positionWeight = 1, isArtifact = false): DefectRegion {
+  const side = extentMm * PPM;
+  const d: DefectRegion = {
+    x: 0, y: 0, width: side, height: Math.min(side, Math.ceil((areaMm2 * PPM * PPM) / side)),
+    type, severity: 0.5, area: Math.round(areaMm2 * PPM * PPM), areamm2: areaMm2,
+    positionWeight, isArtifact, centroid: { x: 0, y: 0 }, contour: [], polygon: [],
+  };
+  return isArtifact ? d : Object.assign(d, classifyDefectSize(d, PPM));
+}
+
+describe("defect sizing", () => {
+  it("sizes dark defects at the 3 / 5 / 10 mm templates by area or extent", () => {
+    const cls = (area: number, extent: number) => classifyDefectSize(defect("dark", area, extent), PPM).sizeClass;
+    expect(cls(7.1, 3)).toBe("small");
+    expect(cls(19.59, 4.5)).toBe("small");
+    expect(cls(19.6, 4.5)).toBe("medium");   // area reaches the 5 mm template
+    expect(cls(10, 5)).toBe("medium");       // a thin streak as long as the template
+    expect(cls(78.49, 9.5)).toBe("medium");
+    expect(cls(78.5, 9.5)).toBe("large");
+    expect(cls(30, 10)).toBe("large");
+  });
+
+  it("sizes light defects one template up, and every tuber defect as dark", () => {
+    const cls = (type: DefectRegion["type"], area: number, extent: number) => classifyDefectSize(defect(type, area, extent), PPM).sizeClass;
+    expect(cls("light", 19.6, 5)).toBe("small");
+    expect(cls("light", 78.49, 9.5)).toBe("small");
+    expect(cls("light", 78.5, 9.5)).toBe("medium");
+    expect(cls("light", 40, 10)).toBe("medium");
+    expect(cls("light", 113.1, 11)).toBe("large");
+    expect(cls("light", 60, 12)).toBe("large");
+    for (const type of ["greening", "disease", "hollow_heart", "sugar_end"] as const) expect(cls(type, 19.6, 4.5)).toBe("medium");
+  });
+
+  it("reports the equivalent disc diameter in mm", () => {
+    expect(equivalentDiameterMm(Math.PI)).toBeCloseTo(2);
+    expect(classifyDefectSize(defect("dark", 78.5, 10), PPM).equivalentDiameterMm).toBeCloseTo(10, 2);
+    expect(equivalentDiameterMm(-1)).toBe(0);
+  });
+
+  it("scores a known defect mix", () => {
+    const mix = [
+      defect("dark", 5, 2), defect("dark", 5, 2),    // 2 small: 1 + 1
+      defect("burnt", 20, 5, 1.5),                    // medium at a tip: 3 × 1.5
+      defect("greening", 5, 2),                       // small greening: 1 × 2
+      defect("glare", 200, 20, 1, true),              // artifact: never counts
+    ];
+    expect(countDefectSizes(mix)).toEqual({
+      dark: { small: 3, medium: 1, large: 0 },
+      light: { small: 0, medium: 0, large: 0 },
+      total: { small: 3, medium: 1, large: 0 },
+    });
+    expect(getDefectScore(mix, 0)).toBe(6);            // 8.5 points, above 5
+
+    const disease = [defect("dark", 80, 10), ...[0, 1, 2].map(() => defect("disease", 20, 5))];
+    expect(getDefectScore(disease, 0)).toBe(7);        // 6 + 3 × 4.5 = 19.5 points, above 12
+    expect(getDefectScore([...disease, defect("dark", 20, 5)], 0)).toBe(8); // 22.5, above 20
+  });
+
+  it("grades the empty, greening-only, large-count and burnt-share edges", () => {
+    expect(getDefectScore([], 0)).toBe(5);
+    expect(getDefectScore([defect("dark", 5, 2)], 0)).toBe(5);
+    expect(getDefectScore([defect("greening", 5, 2)], 0)).toBe(6);
+    expect(getDefectScore([0, 1, 2, 3].map(() => defect("light", 120, 12)), 0)).toBe(9);
+    expect([0.05, 0.051, 0.11, 0.21, 0.31].map(r => getDefectScore([], r))).toEqual([5, 6, 7, 8, 9]);
+    expect(getDefectScore([defect("dark", 5, 2)], 0, [0, 1, 2, 3])).toBe(6);
+  });
+});
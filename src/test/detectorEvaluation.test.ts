@@ -0,0 +1,80 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { analyzePixels } from "@/lib/colorAnalysis";
+import { parseAnnotationCsv, parseCocoAnnotations, scaleAnnotations, type DefectAnnotation } from "@/lib/annotations";
+import { evaluateImage, summarizeEvaluation } from "@/lib/detectorEvaluation";
+import { generateSyntheticFries, type SyntheticScene } from "@/lib/syntheticFries";
+
+const SCENE: SyntheticScene = {
+  seed: 11, ppm: 4, widthMm: 100, heightMm: 70,
+  strips: [
+    { lengthMm: 80, defects: [{ type: "burnt", at: 0.5 }] },
+    { lengthMm: 80, defects: [{ type: "dark", at: 0.3 }] },
+    { lengthMm: 80, defects: [{ type: "glare", at: 0.6 }] },
+  ],
+};
+
+describe("annotation import", () => {
+  it("reads COCO polygons and boxes with labeller aliases", () => {
+    const { images, warnings } = parseCocoAnnotations({
+      images: [{ id: 1, file_name: "a.jpg", width: 1600, height: 1200 }],
+      categories: [{ id: 1, name: "Black Spot" }, { id: 2, name: "burnt" }, { id: 3, name: "stem" }],
+      annotations: [
+        { image_id: 1, category_id: 1, segmentation: [[10, 10, 30, 10, 30, 20, 10, 20]] },
+        { image_id: 1, category_id: 2, bbox: [100, 50, 8, 6] },
+        { image_id: 1, category_id: 3, bbox: [0, 0, 5, 5] },
+      ],
+    });
+    expect(warnings).toHaveLength(1);
+    expect(images[0].annotations.map(a => a.type)).toEqual(["disease", "burnt"]);
+    expect(images[0].annotations[0].bbox).toEqual({ x: 10, y: 10, width: 20, height: 10 });
+    expect(scaleAnnotations(images[0].annotations, 0.5)[1].bbox).toEqual({ x: 50, y: 25, width: 4, height: 3 });
+  });
+
+  it("reads CSV rows, including defect-free images and polygon-only labels", () => {
+    const { images, warnings } = parseAnnotationCsv([
+      "image,type,x,y,width,height,polygon",
+      "a.png,sugar end,4,5,10,12,",
+      'b.png,mottled,,,,,"0 0 10 0 10 4"',
+      "c.png,,,,,,",
+      "c.png,stem,1,1,1,1,",
+    ].join("\n"));
+    expect(warnings).toEqual(['Row 5: unknown defect type "stem"']);
+    expect(images.map(i => [i.imageName, i.annotations.length])).toEqual([["a.png", 1], ["b.png", 1], ["c.png", 0]]);
+    expect(images[0].annotations[0].type).toBe("sugar_end");
+    expect(images[1].annotations[0].bbox).toEqual({ x: 0, y: 0, width: 10, height: 4 });
+  });
+});
+
+describe("evaluateImage", () => {
+  const image = generateSyntheticFries(SCENE);
+  const { defects } = analyzePixels(image.raster, image.ppm);
+  const truth: DefectAnnotation[] = image.defects.map(d => ({
+    type: d.type, bbox: { x: d.x, y: d.y, width: d.width, height: d.height }, polygon: null,
+  }));
+
+  it("scores the engine perfect against its own ground truth, artifacts excluded", () => {
+    const report = summarizeEvaluation([evaluateImage("synthetic", truth, defects)]);
+    expect(report.annotationCount).toBe(2);
+    expect(report.overall).toMatchObject({ tp: 2, fp: 0, fn: 0, f1: 1 });
+    expect(report.perType.map(m => m.type)).toEqual(["burnt", "dark"]);
+    expect(report.examples).toEqual([]);
+
+    const withArtifacts = summarizeEvaluation([evaluateImage("synthetic", truth, defects, { includeArtifacts: true })]);
+    expect(withArtifacts.overall.tp).toBe(3);
+  });
+
+  it("counts a wrong label as a confusion and a missing detection as a false negative", () => {
+    const relabelled = truth.map(a => (a.type === "dark" ? { ...a, type: "burnt" as const } : a));
+    const extra: DefectAnnotation = { type: "greening", bbox: { x: 2, y: 2, width: 6, height: 6 }, polygon: null };
+    const report = summarizeEvaluation([evaluateImage("synthetic", [...relabelled, extra], defects)]);
+
+    const { labels, counts } = report.confusion;
+    const cell = (t: string, d: string) => counts[labels.indexOf(t as never)][labels.indexOf(d as never)];
+    expect(cell("burnt", "burnt")).toBe(1);
+    expect(cell("burnt", "dark")).toBe(1);
+    expect(cell("greening", "background")).toBe(1);
+    expect(report.perType.find(m => m.type === "burnt")).toMatchObject({ tp: 1, fn: 1, recall: 0.5 });
+    expect(report.examples.map(e => e.kind).sort()).toEqual(["false_negative", "misclassified"]);
+  });
+});
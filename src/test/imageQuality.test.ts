@@ -0,0 +1,98 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { analyzePixels, type RgbaRaster } from "@/lib/colorAnalysis";
+import { assessImageQuality, type QualityCheckId } from "@/lib/imageQuality";
+import { generateSyntheticFries } from "@/lib/syntheticFries";
+
+const PPM = 3;
+
+const scene = (usda: number) => generateSyntheticFries({
+  seed: 5, ppm: PPM, widthMm: 100, heightMm: 70,
+  strips: [{ lengthMm: 75, usda }, { lengthMm: 75, usda }, { lengthMm: 75, usda }],
+});
+
+const tray = (usda: number) => scene(usda).raster;
+
+/** The same scene with a different exposure: every channel × `gain` */
+const expose = ({ data, width, height }: RgbaRaster, gain: number): RgbaRaster => ({
+  data: data.map((v, i) => (i % 4 === 3 ? v : Math.min(255, v * gain))), width, height,
+});
+
+/** Separable box blur of the given radius */
+function blur({ data, width, height }: RgbaRaster, radius: number): RgbaRaster {
+  let src = Uint8ClampedArray.from(data);
+  for (const [dx, dy] of [[1, 0], [0, 1]]) {
+    const out = new Uint8ClampedArray(src);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        for (let c = 0; c < 3; c++) {
+          let sum = 0;
+          for (let k = -radius; k <= radius; k++) {
+            const xx = Math.max(0, Math.min(width - 1, x + k * dx)), yy = Math.max(0, Math.min(height - 1, y + k * dy));
+            sum += src[(yy * width + xx) * 4 + c];
+          }
+          out[(y * width + x) * 4 + c] = sum / (2 * radius + 1);
+        }
+      }
+    }
+    src = out;
+  }
+  return { data: src, width, height };
+}
+
+const levelOf = (raster: RgbaRaster, id: QualityCheckId, ppm = PPM, foreground?: Uint8Array) =>
+  assessImageQuality(raster, ppm, foreground).checks.find(c => c.id === id)!.level;
+
+describe("image quality gate", () => {
+  it("passes a well-exposed frame however dark or pale the fries are", () => {
+    for (const usda of [0, 0.5, 2]) {
+      const { quality } = analyzePixels(tray(usda), PPM);
+      expect(quality.level, `USDA ${usda}`).not.toBe("blocking");
+      expect(quality.checks.find(c => c.id === "exposure")!.level).toBe("ok");
+    }
+  });
+
+  it("grades a dark sample REJECT instead of refusing it as a bad photo", () => {
+    const result = analyzePixels(tray(0), PPM);
+    expect(result.quality.level).not.toBe("blocking");
+    expect(result.disposition).toBe("REJECT");
+  });
+
+  it("reads exposure from the frame's highlights and blown-out share", () => {
+    const image = tray(0.5);
+    expect(levelOf(expose(image, 0.15), "exposure")).toBe("warning");
+    expect(levelOf(expose(image, 0.08), "exposure")).toBe("blocking");
+    expect(levelOf(expose(image, 5), "exposure")).toBe("blocking");
+    // Over-exposure clips the fries themselves
+    expect(levelOf(expose(image, 1.6), "clipping")).toBe("blocking");
+  });
+
+  it("blocks blurred, empty and under-resolved captures", () => {
+    const image = tray(0.5);
+    expect(levelOf(image, "focus")).not.toBe("blocking");
+    expect(levelOf(blur(image, 4), "focus")).toBe("blocking");
+
+    // A fry mask covering 1 % of the frame
+    const crumb = new Uint8Array(image.width * image.height).fill(1, 0, Math.round(image.width * image.height * 0.01));
+    expect(levelOf(image, "coverage", PPM, crumb)).toBe("blocking");
+    expect(levelOf(image, "resolution", 0.5)).toBe("blocking");
+    expect(levelOf(image, "resolution", 1.5)).toBe("warning");
+  });
+
+  it("reads focus on the fries, not on a sharp mark on the tray", () => {
+    const { raster, labels } = scene(0.5);
+    const fries = Uint8Array.from(labels, l => (l !== 0 ? 1 : 0));
+    const blurred = blur(raster, 6);
+    // A checkered card in the tray corner, clear of the fries, left sharp
+    for (let y = 0; y < 15; y++) {
+      for (let x = 0; x < 15; x++) {
+        const i = (y * blurred.width + x) * 4;
+        blurred.data.fill((x + y) % 2 ? 40 : 230, i, i + 3);
+        expect(fries[y * blurred.width + x]).toBe(0);
+      }
+    }
+    expect(levelOf(blurred, "focus")).toBe("ok");
+    expect(levelOf(blurred, "focus", PPM, fries)).toBe("blocking");
+    expect(levelOf(raster, "focus", PPM, fries)).toBe("ok");
+  });
+});
@@ -0,0 +1,59 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { analyzePixels } from "@/lib/colorAnalysis";
+import { getMottlingScore } from "@/lib/mottling";
+import { generateSyntheticFries } from "@/lib/syntheticFries";
+
+const PPM = 3;
+
+/** A strip at `angleDeg` carrying a mottled band `sizeMm` long, beside three clean ones */
+const analyzeTray = (sizeMm: number, angleDeg: number) => {
+  const image = generateSyntheticFries({
+    seed: 8, ppm: PPM, widthMm: 160, heightMm: 120,
+    strips: [
+      { lengthMm: 80, angleDeg, center: { x: 40, y: 60 }, defects: [{ type: "mottled", at: 0.5, sizeMm }] },
+      ...[30, 60, 90].map(y => ({ lengthMm: 70, center: { x: 120, y } })),
+    ],
+  });
+  const result = analyzePixels(image.raster, PPM);
+  const strip = result.strips.find(s => s.bbox.x < 80 * PPM)!;
+  return { result, mottling: result.stripMottling.find(m => m.stripId === strip.id)! };
+};
+
+describe("mottling 1/3 rule", { timeout: 15_000 }, () => {
+  it("measures mottled length against the strip's own length, whatever its angle", () => {
+    for (const angleDeg of [0, 25, 90]) {
+      const { mottling } = analyzeTray(16, angleDeg);
+      expect(mottling.coverage, `${angleDeg}°`).toBeCloseTo(16 / 80, 1);
+      expect(mottling.mottled).toBe(false);
+    }
+  });
+
+  it("drops mottling under a third of the strip and scores the strips that reach it", () => {
+    const { result: short } = analyzeTray(16, 25);
+    expect(short.defects.filter(d => d.type === "mottled")).toEqual([]);
+    expect(short.mottlingScore).toBe(5);
+
+    const { result: long, mottling } = analyzeTray(30, 25);
+    expect(mottling.mottled).toBe(true);
+    expect(long.stripMottling.filter(s => s.mottled)).toHaveLength(1);
+    const mottled = long.defects.filter(d => d.type === "mottled");
+    expect(mottled.length).toBeGreaterThan(0);
+    for (const d of mottled) {
+      expect(d.stripId).toBe(mottling.stripId);
+      expect(d.stripCoverage).toBeCloseTo(30 / 80, 1);
+    }
+    // One strip in four: past the 20 % cut-off
+    expect(long.mottlingScore).toBe(8);
+  });
+
+  it("scores the share of mottled strips against the profile's cut-offs", () => {
+    const strips = (mottled: number, total: number) =>
+      Array.from({ length: total }, (_, i) => ({ stripId: i + 1, coverage: i < mottled ? 0.5 : 0, mottled: i < mottled }));
+    expect(getMottlingScore([])).toBe(5);
+    expect(getMottlingScore(strips(1, 20))).toBe(6);
+    expect(getMottlingScore(strips(1, 10))).toBe(7);
+    expect(getMottlingScore(strips(3, 10))).toBe(9);
+    expect(getMottlingScore(strips(1, 10), [0.5, 0.6, 0.7])).toBe(6);
+  });
+});
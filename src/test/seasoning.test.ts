@@ -0,0 +1,68 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { analyzePixels, rgbToLab, type DefectRegion } from "@/lib/colorAnalysis";
+import { DEFAULT_SPEC_PROFILE } from "@/lib/specProfiles";
+import { generateSyntheticFries } from "@/lib/syntheticFries";
+
+const PPM = 8; // fine enough that a seasoning-sized dark speck clears the minimum defect blob
+const SALT: [number, number, number] = [226, 224, 219];   // bright, near-neutral, below the glare rule
+const PEPPER: [number, number, number] = [60, 38, 20];    // dark brown
+const SPECK_MM = 0.75;                                     // radius: ~1.8 mm², a seasoning-sized speck
+
+/** A tray of three strips; strip 0 is salted at three points, strip 1 has one dark speck of the same size */
+function seasonedTray() {
+  const image = generateSyntheticFries({
+    seed: 9, ppm: PPM, widthMm: 100, heightMm: 50,
+    strips: [{ lengthMm: 80 }, { lengthMm: 80 }, { lengthMm: 80 }],
+  });
+  const { raster } = image;
+  const paint = (strip: number, atMm: number, rgb: [number, number, number]) => {
+    const { center } = image.strips[strip];
+    const cx = center.x + atMm * PPM, cy = center.y, r = SPECK_MM * PPM;
+    for (let y = Math.floor(cy - r); y <= Math.ceil(cy + r); y++) {
+      for (let x = Math.floor(cx - r); x <= Math.ceil(cx + r); x++) {
+        if ((x + 0.5 - cx) ** 2 + (y + 0.5 - cy) ** 2 > r * r) continue;
+        const i = (y * raster.width + x) * 4;
+        rgb.forEach((c, k) => { raster.data[i + k] = c; });
+      }
+    }
+    return { x: cx, y: cy };
+  };
+  const salt = [-25, 0, 25].map(at => paint(0, at, SALT));
+  const pepper = paint(1, 10, PEPPER);
+  return { image, salt, pepper };
+}
+
+const near = (d: DefectRegion, p: { x: number; y: number }) => Math.hypot(d.centroid.x - p.x, d.centroid.y - p.y) < 1.5 * PPM;
+
+describe("seasoning mask", { timeout: 15_000 }, () => {
+  it("masks salt specks as seasoning and still reports a dark speck of the same size", () => {
+    const { image, salt, pepper } = seasonedTray();
+    const result = analyzePixels(image.raster, PPM);
+
+    for (const p of salt) {
+      const at = result.defects.filter(d => near(d, p));
+      // Not a hollow heart either, though on a pale tray salt looks like the tray showing through
+      expect(at.map(d => d.type)).toEqual(["seasoning"]);
+      expect(at[0].isArtifact).toBe(true);
+    }
+    expect(result.pixelStats.seasoningCoverage).toBeGreaterThan(0);
+
+    const dark = result.defects.filter(d => near(d, pepper));
+    expect(dark).toHaveLength(1);
+    expect(dark[0].type).not.toBe("seasoning");
+    expect(dark[0].isArtifact).toBe(false);
+  });
+
+  it("masks a speck matching the SKU's seasoning colour", () => {
+    const { image, pepper } = seasonedTray();
+    const [r, g, b] = PEPPER;
+    const profile = { ...DEFAULT_SPEC_PROFILE, seasoning: { ...DEFAULT_SPEC_PROFILE.seasoning, color: rgbToLab(r, g, b) } };
+    const result = analyzePixels(image.raster, PPM, { profile });
+
+    const at = result.defects.filter(d => near(d, pepper));
+    expect(at).toHaveLength(1);
+    expect(at[0].type).toBe("seasoning");
+    expect(result.defects.filter(d => !d.isArtifact)).toHaveLength(0);
+  });
+});
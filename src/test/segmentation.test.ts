@@ -0,0 +1,47 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { axialPosition, instanceAt, segmentFries } from "@/lib/segmentation";
+import { generateSyntheticFries } from "@/lib/syntheticFries";
+
+const PPM = 4;
+
+describe("segmentFries", () => {
+  it("splits two strips touching at a corner", () => {
+    // The second strip's head overlaps the first one's tail by 3 × 1.5 mm
+    const image = generateSyntheticFries({
+      seed: 1, ppm: PPM, widthMm: 120, heightMm: 50,
+      strips: [{ lengthMm: 55, center: { x: 32, y: 20 } }, { lengthMm: 55, center: { x: 84, y: 28 } }],
+    });
+    const { instances } = segmentFries(image.raster, PPM);
+
+    expect(instances).toHaveLength(2);
+    for (const [i, strip] of instances.entries()) {
+      expect(strip.axis.length / PPM).toBeCloseTo(55, 0);
+      expect(strip.area).toBeGreaterThan(image.strips[i].area * 0.95);
+      expect(strip.area).toBeLessThan(image.strips[i].area * 1.05);
+    }
+  });
+
+  it("finds each strip's principal axis, tips and pixels", () => {
+    const image = generateSyntheticFries({
+      seed: 2, ppm: PPM, widthMm: 100, heightMm: 70,
+      strips: [{ lengthMm: 70, angleDeg: 25, center: { x: 50, y: 35 } }],
+    });
+    const segmentation = segmentFries(image.raster, PPM);
+    const [strip] = segmentation.instances;
+    const { axis } = strip;
+
+    expect(axis.length / PPM).toBeCloseTo(70, 0);
+    expect(axis.width / PPM).toBeCloseTo(9.5, 0);
+    // The axis has no preferred direction; compare modulo 180°
+    const degrees = ((axis.angle * 180) / Math.PI + 180) % 180;
+    expect(degrees).toBeCloseTo(25, 0);
+    expect(axis.centroid.x / PPM).toBeCloseTo(50, 0);
+    expect(axis.centroid.y / PPM).toBeCloseTo(35, 0);
+
+    expect(instanceAt(segmentation, axis.centroid.x, axis.centroid.y)?.id).toBe(strip.id);
+    expect(axialPosition(strip, axis.head.x, axis.head.y)).toBe(0);
+    expect(axialPosition(strip, axis.tail.x, axis.tail.y)).toBe(1);
+    expect(strip.mask.data.reduce((n, v) => n + v, 0)).toBe(strip.area);
+  });
+});
@@ -0,0 +1,54 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { analyzePixels } from "@/lib/colorAnalysis";
+import { applySensoryPanel, createBatchRecord } from "@/lib/batchRecord";
+import { calculateFullPqi, computeCategoryScores, defaultSensoryScores } from "@/lib/sensoryPanel";
+import { generateSyntheticFries } from "@/lib/syntheticFries";
+
+const ON_TARGET = { processColorScore: 5, hueScore: 5, mottlingScore: 5, defectScore: 5 };
+
+describe("sensory panel", () => {
+  it("weighs appearance, texture and aroma 40 / 35 / 25 into the full PQI", () => {
+    expect(calculateFullPqi(computeCategoryScores(ON_TARGET, defaultSensoryScores()))).toBe(100);
+
+    const panel = { ...defaultSensoryScores(), Crispness: 4, Sweetness: 7 };
+    const categories = computeCategoryScores({ ...ON_TARGET, hueScore: 6 }, panel);
+    expect(categories).toEqual({ appearance: 95, texture: 95, aroma: 80 });
+    expect(calculateFullPqi(categories)).toBe(91); // 95 × 0.4 + 95 × 0.35 + 80 × 0.25 = 91.25
+  });
+
+  it("rejects the sample when any category scores 0", () => {
+    expect(calculateFullPqi(computeCategoryScores(ON_TARGET, { ...defaultSensoryScores(), Oiliness: 9 }))).toBe(0);
+    expect(calculateFullPqi(computeCategoryScores({ ...ON_TARGET, defectScore: 1 }, defaultSensoryScores()))).toBe(0);
+  });
+
+  it("has no full PQI until the panel has scored texture and aroma", () => {
+    const visionOnly = computeCategoryScores(ON_TARGET, null);
+    expect(visionOnly).toEqual({ appearance: 100, texture: null, aroma: null });
+    expect(calculateFullPqi(visionOnly)).toBeNull();
+    expect(calculateFullPqi({ appearance: 100, texture: 90, aroma: null })).toBeNull();
+    expect(calculateFullPqi({ appearance: 100, texture: null, aroma: 90 })).toBeNull();
+    // Attributes the panel left out count as on target
+    expect(computeCategoryScores(ON_TARGET, { Crispness: 6 })).toEqual({ appearance: 100, texture: 95, aroma: 100 });
+  });
+
+  it("adds the panel to a batch record without touching its image-derived fields", () => {
+    const image = generateSyntheticFries({ seed: 2, ppm: 3, widthMm: 90, heightMm: 50, strips: [{ lengthMm: 70 }, { lengthMm: 70 }] });
+    const record = createBatchRecord(analyzePixels(image.raster, image.ppm), "tray.png", new Date("2024-05-01T08:00:00Z"));
+    const before = structuredClone(record);
+    const scores = { ...defaultSensoryScores(), Interior: 4 };
+
+    const scored = applySensoryPanel(record, scores);
+    scores.Interior = 1;
+
+    const { sensoryScores, categoryScores, fullPqi, ...imageFields } = scored;
+    const { sensoryScores: _s, categoryScores: _c, fullPqi: _f, ...recordImageFields } = before;
+    expect(imageFields).toEqual(recordImageFields);
+    expect(record).toEqual(before);
+    expect(sensoryScores).toEqual({ ...defaultSensoryScores(), Interior: 4 });
+    expect(categoryScores.appearance).toBe(before.categoryScores.appearance);
+    expect(categoryScores.texture).toBe(95);
+    expect(fullPqi).toBe(calculateFullPqi(categoryScores));
+    expect(fullPqi).not.toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import type { FryInstance } from "@/lib/segmentation";
+import { DEFAULT_LENGTH_SPECS, MM_PER_INCH, gradeCutSize, gradeLengthDistribution } from "@/lib/sizeGrading";
+
+const FRAME = { width: 400, height: 400 };
+
+/**
+ * An axis-aligned strip `lengthPx` long, `widths[a]` px across at each px
+ * step along it (a number for a straight-sided strip), with its head at `at`.
+ */
+function strip(id: number, lengthPx: number, widths: number | number[] = 9, at = { x: 20, y: 20 }): FryInstance {
+  const columns = Math.max(1, Math.round(lengthPx));
+  const across = Array.from({ length: columns }, (_, a) => (typeof widths === "number" ? widths : widths[a]));
+  const height = Math.max(...across);
+  const data = new Uint8Array(columns * height);
+  across.forEach((w, a) => {
+    const top = Math.floor((height - w) / 2);
+    for (let y = top; y < top + w; y++) data[y * columns + a] = 1;
+  });
+  const centreY = at.y + (height - 1) / 2;
+  return {
+    id, area: across.reduce((s, w) => s + w, 0),
+    bbox: { x: at.x, y: at.y, width: columns, height },
+    contour: [],
+    axis: {
+      centroid: { x: at.x + lengthPx / 2, y: centreY }, direction: { x: 1, y: 0 }, angle: 0,
+      length: lengthPx, width: height,
+      head: { x: at.x, y: centreY }, tail: { x: at.x + lengthPx, y: centreY },
+    },
+    mask: { x: at.x, y: at.y, width: columns, height, data },
+  };
+}
+
+describe("gradeLengthDistribution", () => {
+  const inches = (n: number) => n * MM_PER_INCH; // at ppm 1, px = mm
+
+  // 7 of 10 strips exactly 2" (2 of them exactly 3"), 3 just short of 2"
+  const lengths = [...Array(5).fill(inches(2)), inches(3), inches(3), ...Array(3).fill(inches(2) - 0.01)];
+
+  it("counts a strip exactly on a spec length toward it, in the bin that starts there", () => {
+    const result = gradeLengthDistribution(lengths.map((mm, i) => strip(i + 1, mm)), 1, FRAME);
+
+    expect(result.buckets.map(b => [b.label, b.count, b.percent, b.pass])).toEqual([
+      ['≥ 2"', 7, 70, true],
+      ['≥ 3"', 2, 20, true],
+    ]);
+    expect(result.pass).toBe(true);
+    const bin = (fromIn: number) => result.histogram.find(b => b.fromIn === fromIn)!;
+    expect(bin(1.5).count).toBe(3);
+    expect(bin(2).count).toBe(5);
+    expect(bin(2.5).count).toBe(0);
+    expect(bin(3).count).toBe(2);
+    expect(result.histogram.reduce((s, b) => s + b.percent, 0)).toBeCloseTo(100);
+    expect(result.medianLengthMm).toBeCloseTo(inches(2));
+  });
+
+  it("fails a spec one strip below its share", () => {
+    const result = gradeLengthDistribution(lengths.map((mm, i) => strip(i + 1, i === 0 ? mm - 0.01 : mm)), 1, FRAME);
+    expect(result.buckets[0]).toMatchObject({ count: 6, percent: 60, pass: false });
+    expect(result.buckets[1].pass).toBe(true);
+    expect(result.pass).toBe(false);
+  });
+
+  it("leaves strips cut off by the frame out of the distribution", () => {
+    const result = gradeLengthDistribution([strip(1, inches(3)), strip(2, inches(1), 9, { x: 0, y: 100 })], 1, FRAME);
+    expect(result.clippedStrips).toBe(1);
+    expect(result.strips.map(s => s.stripId)).toEqual([1]);
+    expect(result.buckets.map(b => b.percent)).toEqual([100, 100]);
+  });
+
+  it("grades no measurable strips as failing, with an empty 0-4\" chart", () => {
+    for (const strips of [[], [strip(1, inches(3), 9, { x: 100, y: 0 })]]) {
+      const result = gradeLengthDistribution(strips, 1, FRAME);
+      expect(result.strips).toEqual([]);
+      expect(result.meanLengthMm).toBe(0);
+      expect(result.medianLengthMm).toBe(0);
+      expect(result.histogram).toHaveLength(8);
+      expect(result.histogram.every(b => b.count === 0 && b.percent === 0)).toBe(true);
+      expect(result.buckets).toHaveLength(DEFAULT_LENGTH_SPECS.length);
+      expect(result.buckets.every(b => b.count === 0 && b.percent === 0 && !b.pass)).toBe(true);
+      expect(result.pass).toBe(false);
+    }
+  });
+});
+
+describe("gradeCutSize", () => {
+  // At 5 px/mm every threshold of the standard 3/8" cut falls on a whole pixel:
+  // in spec 8-10 mm = 40-50 px, sliver below 60% of 9 mm = 27 px
+  const PPM = 5;
+  const tapered = (median: number, narrow: number) => Array.from({ length: 100 }, (_, a) => (a >= 44 && a < 56 ? narrow : median));
+  const grade = (widths: (number | number[])[]) => gradeCutSize(widths.map((w, i) => strip(i + 1, 100, w, { x: 20, y: 20 + i * 60 })), PPM, "standard");
+
+  it("passes strips at both edges of the spec width and fails those just outside", () => {
+    const result = grade([40, 50, 39, 51, 45]);
+    expect([result.specMinMm, result.specMaxMm]).toEqual([8, 10]);
+    expect(result.strips.map(s => s.widthMm)).toEqual([8, 10, 7.8, 10.2, 9]);
+    expect(result.strips.map(s => s.inSpec)).toEqual([true, true, false, false, true]);
+    expect(result.outOfSpecPercent).toBe(40);
+    expect(result.meanWidthMm).toBeCloseTo(9);
+    expect(result.sliverCount).toBe(0);
+  });
+
+  it("calls a strip narrower than 60% of the cut a sliver, by the gauge it fits through", () => {
+    const result = grade([27, 26, 20]);
+    expect(result.strips.map(s => s.sliver)).toEqual([null, "sliver_1_4", "sliver_1_4"]);
+    expect(result.strips.every(s => !s.inSpec)).toBe(true);
+    expect(result.sliverCount).toBe(2);
+    expect(result.sliverCounts).toEqual({ sliver_1_4: 2, sliver_3_8: 0, sliver_7_16: 0, sliver_9_16: 0 });
+  });
+
+  it("calls a wedge narrowing below half its median width a sliver", () => {
+    const result = grade([tapered(50, 25), tapered(50, 24), tapered(45, 20)]);
+    expect(result.strips.map(s => [s.widthMm, s.minWidthMm])).toEqual([[10, 5], [10, 4.8], [9, 4]]);
+    expect(result.strips.map(s => s.sliver)).toEqual([null, "sliver_7_16", "sliver_3_8"]);
+    expect(result.strips[0].inSpec).toBe(true);
+    expect(result.sliverCounts).toMatchObject({ sliver_3_8: 1, sliver_7_16: 1 });
+  });
+
+  it("grades an empty tray as conforming", () => {
+    const result = gradeCutSize([], PPM, "thick");
+    expect(result).toMatchObject({ cutSize: "thick", specMinMm: 10, specMaxMm: 15, meanWidthMm: 0, outOfSpecPercent: 0, sliverCount: 0 });
+  });
+});
@@ -0,0 +1,51 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { getHueScore } from "@/lib/colorAnalysis";
+import { DEFAULT_SPEC_PROFILE, getDisposition, reviseSpecProfile } from "@/lib/specProfiles";
+
+// The hard-coded hue grading the spec profiles replaced
+function baselineHueScore(meanH: number, meanS: number): { score: number; label: string } {
+  if (meanH >= 25 && meanH <= 40 && meanS > 0.3 && meanS < 0.6) return { score: 5, label: "Bright Light Golden (Target)" };
+  if (meanH > 40 && meanH <= 55) return { score: 6, label: "Creamy Yellow" };
+  if (meanH > 55 && meanH <= 70) return { score: 7, label: "Yellow Flesh" };
+  if (meanH > 70 || meanS > 0.7) return { score: 8, label: "Strong Yellow — Large Difference" };
+  if (meanH < 20 || meanH > 80) return { score: 9, label: "Bright Yellow / Off-Color" };
+  if (meanH >= 20 && meanH < 25) return { score: 4, label: "Slightly Under-colored" };
+  return { score: 5, label: "Bright Light Golden (Target)" };
+}
+
+describe("default spec profile", () => {
+  it("grades hue exactly as the hard-coded chart did", () => {
+    expect(getHueScore(25, 0.45, DEFAULT_SPEC_PROFILE)).toEqual({ score: 5, label: "Bright Light Golden (Target)" });
+    expect(getHueScore(90, 0.45, DEFAULT_SPEC_PROFILE)).toEqual({ score: 8, label: "Strong Yellow — Large Difference" });
+    expect(getHueScore(50, 0.8, DEFAULT_SPEC_PROFILE)).toEqual({ score: 6, label: "Creamy Yellow" });
+
+    const edges = [0, 19.9, 20, 24.9, 25, 30, 40, 40.1, 55, 55.1, 70, 70.1, 80, 85, 85.1, 120, 200, 359.9];
+    const hues = [...edges, ...Array.from({ length: 73 }, (_, i) => i * 5)];
+    const sats = [0, 0.2, 0.3, 0.45, 0.6, 0.65, 0.7, 0.71, 0.9, 1];
+    for (const h of hues) {
+      for (const s of sats) expect(getHueScore(h, s, DEFAULT_SPEC_PROFILE), `H ${h} S ${s}`).toEqual(baselineHueScore(h, s));
+    }
+  });
+
+  it("keeps the PASS / HOLD / REJECT limits", () => {
+    const { limits } = DEFAULT_SPEC_PROFILE;
+    expect([100, 75, 74.9, 60, 59.9, 0].map(pqi => getDisposition(pqi, limits)))
+      .toEqual(["PASS", "PASS", "HOLD", "HOLD", "REJECT", "REJECT"]);
+  });
+
+  it("revises into a new version that leaves the old one and its grades intact", () => {
+    const revised = reviseSpecProfile(DEFAULT_SPEC_PROFILE, { limits: { passPqi: 80, holdPqi: 65 } });
+    expect(revised.id).toBe(DEFAULT_SPEC_PROFILE.id);
+    expect(revised.version).toBe(DEFAULT_SPEC_PROFILE.version + 1);
+    expect(getDisposition(77, revised.limits)).toBe("HOLD");
+    expect(getDisposition(77, DEFAULT_SPEC_PROFILE.limits)).toBe("PASS");
+    expect(revised.hueChart).toEqual(DEFAULT_SPEC_PROFILE.hueChart);
+    expect(getHueScore(25, 0.45, revised)).toEqual(baselineHueScore(25, 0.45));
+
+    const chart = structuredClone(DEFAULT_SPEC_PROFILE.hueChart);
+    const moved = reviseSpecProfile(revised, { hueChart: chart });
+    chart[0].score = 1;
+    expect(moved.hueChart[0].score).toBe(5);
+  });
+});
@@ -0,0 +1,57 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { analyzePixels } from "@/lib/colorAnalysis";
+import { generateSyntheticFries } from "@/lib/syntheticFries";
+
+const PPM = 3;
+
+// Default spec: 10 mm tip zone, slight / moderate / severe at an L* drop of 6 / 12 / 20
+const image = generateSyntheticFries({
+  seed: 6, ppm: PPM, widthMm: 120, heightMm: 140,
+  strips: [
+    { lengthMm: 80 },
+    { lengthMm: 80, angleDeg: 10, defects: [{ type: "sugar_end", at: 0, dropL: 8 }] },
+    { lengthMm: 80, angleDeg: -10, defects: [{ type: "sugar_end", at: 1, dropL: 16 }] },
+    { lengthMm: 80, defects: [{ type: "sugar_end", at: 1, dropL: 30 }] },
+    // Runs off the right edge; the darkened zone reaches into the frame
+    { lengthMm: 80, center: { x: 110, y: 125 }, defects: [{ type: "sugar_end", at: 1, sizeMm: 45, dropL: 30 }] },
+  ],
+});
+const result = analyzePixels(image.raster, PPM);
+
+/** Report for the strip painted at `index`: the segmented strip nearest its centre */
+const reportFor = (index: number) => {
+  const { center } = image.strips[index];
+  const distance = (s: (typeof result.strips)[number]) => Math.hypot(s.axis.centroid.x - center.x, s.axis.centroid.y - center.y);
+  const strip = result.strips.reduce((best, s) => (distance(s) < distance(best) ? s : best));
+  return result.sugarEnds.find(r => r.stripId === strip.id)!;
+};
+
+describe("sugar ends", () => {
+  it("grades each end by how far its tip drops below the strip body", () => {
+    expect(result.sugarEnds).toHaveLength(5);
+    expect([0, 1, 2, 3].map(i => reportFor(i).grade)).toEqual(["none", "slight", "moderate", "severe"]);
+  });
+
+  it("finds the darkened end along the strip's own axis, tilted or not", () => {
+    for (const [index, truth] of image.defects.slice(0, 3).entries()) {
+      const report = reportFor(index + 1);
+      const graded = [report.head, report.tail].find(e => e.grade !== "none")!;
+      const other = graded === report.head ? report.tail : report.head;
+      expect(other.grade).toBe("none");
+      expect(Math.hypot(graded.point.x - truth.centroid.x, graded.point.y - truth.centroid.y)).toBeLessThan(8 * PPM);
+      expect(graded.extentMm).toBeGreaterThan(0);
+      expect(graded.extentMm).toBeLessThanOrEqual(10);
+    }
+  });
+
+  it("reports sugar_end regions with their grade, and never grades an end cut off by the frame", () => {
+    const sugarEnds = result.defects.filter(d => d.type === "sugar_end");
+    expect(sugarEnds.map(d => d.sugarEndGrade).sort()).toEqual(["moderate", "severe", "slight"]);
+
+    const report = reportFor(4);
+    expect(report.tail.clipped).toBe(true);
+    expect(report.tail.grade).toBe("none");
+    expect(report.grade).toBe("none");
+  });
+});
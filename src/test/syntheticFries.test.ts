@@ -0,0 +1,76 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { analyzePixels, detectDefects, type DefectRegion } from "@/lib/colorAnalysis";
+import { generateSyntheticFries, randomSyntheticScene, type SyntheticDefectTruth, type SyntheticScene } from "@/lib/syntheticFries";
+
+/** One strip per injectable defect type */
+const DEFECT_SCENE: SyntheticScene = {
+  seed: 7, ppm: 4, widthMm: 110, heightMm: 120,
+  strips: [
+    { lengthMm: 80, defects: [{ type: "burnt", at: 0.5 }] },
+    { lengthMm: 80, defects: [{ type: "dark", at: 0.3 }] },
+    { lengthMm: 80, defects: [{ type: "sugar_end", at: 0 }] },
+    { lengthMm: 80, defects: [{ type: "mottled", at: 0.5 }] },
+    { lengthMm: 80, angleDeg: 8, defects: [{ type: "shadow", across: 1 }] },
+    { lengthMm: 80, defects: [{ type: "glare", at: 0.3 }, { type: "glare", at: 0.6, across: 0.3 }] },
+  ],
+};
+
+/** A detection of the same type whose centroid lies in the truth's box */
+const matches = (truth: SyntheticDefectTruth, d: DefectRegion) =>
+  d.type === truth.type &&
+  d.centroid.x >= truth.x && d.centroid.x < truth.x + truth.width &&
+  d.centroid.y >= truth.y && d.centroid.y < truth.y + truth.height;
+
+describe("generateSyntheticFries", () => {
+  it("renders the same pixels for the same seed", () => {
+    const a = generateSyntheticFries(randomSyntheticScene(3));
+    const b = generateSyntheticFries(randomSyntheticScene(3));
+    const c = generateSyntheticFries(randomSyntheticScene(4));
+    const same = (x: typeof a, y: typeof a) => Buffer.from(x.raster.data).equals(Buffer.from(y.raster.data));
+    expect(same(a, b)).toBe(true);
+    expect(b.defects).toEqual(a.defects);
+    expect(same(a, c)).toBe(false);
+  });
+
+  it("grades darker USDA colours with lower Agtron scores", () => {
+    const agtron = (usda: number) => {
+      const image = generateSyntheticFries({ seed: 1, ppm: 3, widthMm: 100, heightMm: 60, strips: [{ lengthMm: 70, usda }, { lengthMm: 70, usda }] });
+      return analyzePixels(image.raster, image.ppm).pixelStats.agtronScore;
+    };
+    const [dark, target, light] = [0, 0.5, 1].map(agtron);
+    expect(dark).toBeLessThan(target);
+    expect(target).toBeLessThan(light);
+  });
+
+  it("segments every strip and finds each injected defect, and nothing else", () => {
+    const image = generateSyntheticFries(DEFECT_SCENE);
+    const { strips, defects } = analyzePixels(image.raster, image.ppm);
+
+    expect(strips).toHaveLength(image.strips.length);
+    for (const strip of strips) expect(strip.axis.length / image.ppm).toBeCloseTo(80, 0);
+
+    for (const truth of image.defects) {
+      const found = defects.find(d => matches(truth, d));
+      expect(found, `${truth.type} on strip ${truth.stripIndex}`).toBeDefined();
+      expect(found!.isArtifact).toBe(truth.isArtifact);
+    }
+    expect(defects.filter(d => !image.defects.some(t => matches(t, d)))).toEqual([]);
+  });
+
+  it("gives detectDefects the burnt spot without a segmentation", () => {
+    const image = generateSyntheticFries({ seed: 2, ppm: 4, widthMm: 100, heightMm: 40, strips: [{ lengthMm: 70, defects: [{ type: "burnt", at: 0.6 }] }] });
+    const defects = detectDefects(image.raster, image.ppm).filter(d => !d.isArtifact);
+    expect(defects).toHaveLength(1);
+    expect(matches(image.defects[0], defects[0])).toBe(true);
+  });
+
+  it("keeps random scenes' detections in line with their ground truth", () => {
+    for (const seed of [1, 2, 3]) {
+      const image = generateSyntheticFries(randomSyntheticScene(seed, { ppm: 3 }));
+      const result = analyzePixels(image.raster, image.ppm);
+      expect(result.strips).toHaveLength(image.strips.length);
+      expect(result.defects.map(d => d.type).sort()).toEqual(image.defects.map(d => d.type).sort());
+    }
+  });
+});
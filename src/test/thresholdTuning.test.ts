@@ -0,0 +1,56 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { analyzePixels } from "@/lib/colorAnalysis";
+import { DEFAULT_SPEC_PROFILE } from "@/lib/specProfiles";
+import { generateSyntheticFries, randomSyntheticScene } from "@/lib/syntheticFries";
+import {
+  gradeTuningSample, parsePanelScoreCsv, prepareTuningSample, tuneThresholds, TUNING_PARAMETERS,
+} from "@/lib/thresholdTuning";
+
+const PPM = 4;
+const unscored = { processColorScore: null, mottlingScore: null, defectScore: null };
+const rasters = [1, 2, 3].map(seed => generateSyntheticFries(randomSyntheticScene(seed, { count: 3, ppm: PPM })).raster);
+const samples = rasters.map((raster, i) => prepareTuningSample(`tray_${i + 1}.png`, raster, PPM, unscored));
+
+describe("parsePanelScoreCsv", () => {
+  it("reads 1-9 scores, leaves empty cells out and warns on bad ones", () => {
+    const { images, warnings } = parsePanelScoreCsv([
+      "Image,Process_Color,Mottling,Defect",
+      "tray_1.png,5,6,",
+      '"tray 2.png",4,,11',
+      "tray_3.png,,,",
+    ].join("\n"));
+    expect(images).toEqual([
+      { imageName: "tray_1.png", scores: { processColorScore: 5, mottlingScore: 6, defectScore: null } },
+      { imageName: "tray 2.png", scores: { processColorScore: 4, mottlingScore: null, defectScore: null } },
+    ]);
+    expect(warnings).toHaveLength(2);
+    expect(() => parsePanelScoreCsv("image,notes\na.png,x")).toThrow(/score column/);
+  });
+});
+
+describe("tuneThresholds", () => {
+  it("grades a sample exactly as the full engine does", () => {
+    const result = analyzePixels(rasters[1], PPM);
+    expect(gradeTuningSample(samples[1], DEFAULT_SPEC_PROFILE)).toEqual({
+      processColorScore: result.processColorScore, mottlingScore: result.mottlingScore, defectScore: result.defectScore,
+    });
+  });
+
+  it("recovers the cut-offs a panel graded with and emits them as a new profile", () => {
+    const parameters = TUNING_PARAMETERS.filter(p => p.id === "agtronShift" || p.id === "defectPoints");
+    const panelProfile = parameters.reduce((p, param) => param.apply(p, param.id === "agtronShift" ? 6 : 0.5, DEFAULT_SPEC_PROFILE), DEFAULT_SPEC_PROFILE);
+    for (const s of samples) s.panel = gradeTuningSample(s, panelProfile);
+
+    const result = tuneThresholds(samples, DEFAULT_SPEC_PROFILE, { parameters });
+    expect(result.before.meanAbsError).toBeGreaterThan(0);
+    expect(result.after.meanAbsError).toBe(0);
+    expect(result.after.attributes.every(a => a.exact === 1)).toBe(true);
+    expect(result.changes.map(c => c.id)).toContain("agtronShift");
+
+    expect(result.candidate.id).not.toBe(DEFAULT_SPEC_PROFILE.id);
+    expect(result.candidate.version).toBe(1);
+    expect(DEFAULT_SPEC_PROFILE.agtronTarget).toEqual([58, 68]);
+    for (const s of samples) expect(gradeTuningSample(s, result.candidate)).toEqual(s.panel);
+  });
+});
@@ -0,0 +1,76 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { analyzePixels, rgbToHsv, type DefectRegion } from "@/lib/colorAnalysis";
+import { DEFAULT_SPEC_PROFILE } from "@/lib/specProfiles";
+import { generateSyntheticFries, type SyntheticImage } from "@/lib/syntheticFries";
+
+const PPM = 4;
+
+/** Paints a disc of `rgb` (with a little noise) centred on a strip, `atMm` along it from its centre */
+function paintDisc(image: SyntheticImage, stripIndex: number, atMm: number, radiusMm: number, rgb: [number, number, number]) {
+  const { raster } = image;
+  const { center } = image.strips[stripIndex];
+  const cx = center.x + atMm * PPM, cy = center.y, r = radiusMm * PPM;
+  for (let y = Math.floor(cy - r); y <= Math.ceil(cy + r); y++) {
+    for (let x = Math.floor(cx - r); x <= Math.ceil(cx + r); x++) {
+      if ((x + 0.5 - cx) ** 2 + (y + 0.5 - cy) ** 2 > r * r) continue;
+      const i = (y * raster.width + x) * 4;
+      rgb.forEach((c, k) => { raster.data[i + k] = c + ((x * 7 + y * 13 + k) % 5) - 2; });
+    }
+  }
+  return { x: cx, y: cy };
+}
+
+const near = (d: DefectRegion, p: { x: number; y: number }) => Math.hypot(d.centroid.x - p.x, d.centroid.y - p.y) < 2 * PPM;
+
+describe("tuber defects", { timeout: 15_000 }, () => {
+  // Void, greening and black spot inside strips 0-2, a shadow cast over strip 3's open edge
+  const image = generateSyntheticFries({
+    seed: 5, ppm: PPM, widthMm: 100, heightMm: 100,
+    strips: [
+      { lengthMm: 80 }, { lengthMm: 80 }, { lengthMm: 80 },
+      { lengthMm: 80, defects: [{ type: "shadow", across: 1, sizeMm: 30 }] },
+      { lengthMm: 80 },
+    ],
+  });
+  const hole = paintDisc(image, 0, 10, 2.5, [244, 244, 242]);
+  const green = paintDisc(image, 1, -15, 2.5, [120, 160, 70]);
+  const bruise = paintDisc(image, 2, 5, 2, [70, 74, 84]);
+  const { defects, strips } = analyzePixels(image.raster, PPM);
+
+  it("keeps the scene's strips whole", () => {
+    expect(strips).toHaveLength(5);
+  });
+
+  it("reports a tray-coloured hole enclosed by one strip as hollow heart", () => {
+    const voids = defects.filter(d => d.type === "hollow_heart");
+    expect(voids).toHaveLength(1);
+    expect(near(voids[0], hole)).toBe(true);
+    expect(voids[0].isArtifact).toBe(false);
+    const { bbox } = strips.find(s => s.id === voids[0].stripId)!;
+    expect(image.strips[0].center.y).toBeGreaterThan(bbox.y);
+    expect(image.strips[0].center.y).toBeLessThan(bbox.y + bbox.height);
+    expect(voids[0].areamm2!).toBeGreaterThan(Math.PI * 2.5 ** 2 * 0.6);
+  });
+
+  it("types a green patch on the flesh as greening", () => {
+    expect(rgbToHsv(120, 160, 70).h).toBeGreaterThan(DEFAULT_SPEC_PROFILE.defectThresholds.greeningMinHue);
+    const greening = defects.filter(d => d.type === "greening");
+    expect(greening).toHaveLength(1);
+    expect(near(greening[0], green)).toBe(true);
+    expect(greening[0].severity).toBeGreaterThan(0);
+  });
+
+  it("calls a shadow-dark spot enclosed by one strip a black spot, but an open-edge shadow an artifact", () => {
+    const disease = defects.filter(d => d.type === "disease");
+    expect(disease).toHaveLength(1);
+    expect(near(disease[0], bruise)).toBe(true);
+
+    const shadowTruth = image.defects.find(d => d.type === "shadow")!;
+    const onShadow = defects.filter(d => near(d, shadowTruth.centroid) || (
+      d.centroid.y >= shadowTruth.y && d.centroid.y < shadowTruth.y + shadowTruth.height &&
+      d.centroid.x >= shadowTruth.x && d.centroid.x < shadowTruth.x + shadowTruth.width));
+    expect(onShadow.length).toBeGreaterThan(0);
+    expect(onShadow.every(d => d.type === "shadow" && d.isArtifact)).toBe(true);
+  });
+});